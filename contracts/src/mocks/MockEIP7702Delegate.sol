@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/// @title MockEIP7702Delegate
+/// @notice Mock EIP-7702 delegate implementation that validates EIP-1271 signatures of the delegating
+/// account for testing purposes.
+/// @dev Like many smart account implementations (e.g. Coinbase Smart Wallet), the hash passed to
+/// `isValidSignature` is wrapped in an EIP-712 message of the account's own domain before the account key
+/// signs it, so that a signature for one account cannot be replayed for another account with the same key.
+/// A plain ECDSA signature of the hash is rejected.
+contract MockEIP7702Delegate {
+    /// @notice keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)")
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @notice keccak256("DelegatedMessage(bytes32 hash)")
+    bytes32 private constant MESSAGE_TYPEHASH = keccak256("DelegatedMessage(bytes32 hash)");
+
+    /// @notice EIP-1271 magic value returned when signature is valid
+    bytes4 public constant MAGIC_VALUE = bytes4(0x1626ba7e);
+
+    /// @notice EIP-1271 magic value returned when signature is invalid
+    bytes4 public constant INVALID_SIGNATURE = bytes4(0xffffffff);
+
+    /// @notice Returns the hash the account key signs for `hash`
+    /// @param hash The hash to wrap
+    function replaySafeHash(bytes32 hash) public view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("MockEIP7702Delegate"), keccak256("1"), block.chainid, address(this))
+        );
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator, keccak256(abi.encode(MESSAGE_TYPEHASH, hash))));
+    }
+
+    /// @notice EIP-1271 function to validate signatures
+    /// @param hash The message hash that was signed
+    /// @param signature The account key's signature of `replaySafeHash(hash)`
+    /// @return magicValue Returns MAGIC_VALUE if signature is valid, INVALID_SIGNATURE otherwise
+    function isValidSignature(bytes32 hash, bytes memory signature) external view returns (bytes4 magicValue) {
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(replaySafeHash(hash), signature);
+
+        // With EIP-7702, `address(this)` is the delegating account, i.e. the address of the account key
+        if (error == ECDSA.RecoverError.NoError && signer == address(this)) {
+            return MAGIC_VALUE;
+        }
+
+        return INVALID_SIGNATURE;
+    }
+}
@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+/// @title MockSafe
+/// @notice Mock multisig that validates EIP-1271 signatures like a Safe (v1.3.0+) with the
+/// `CompatibilityFallbackHandler`, for testing purposes.
+/// @dev `isValidSignature(bytes32 hash, bytes signature)` wraps `hash` in an EIP-712 `SafeMessage(bytes message)`
+/// (domain `EIP712Domain(uint256 chainId,address verifyingContract)`) and requires `threshold` owner signatures
+/// on the resulting message hash, concatenated in ascending order of the owner addresses. Like `checkNSignatures`,
+/// it accepts EIP-712 signatures (`v` 27/28) and `eth_sign` signatures (`v` 31/32). Contract signatures (`v` 0)
+/// and approved hashes (`v` 1) are not supported.
+contract MockSafe {
+    /// @notice keccak256("EIP712Domain(uint256 chainId,address verifyingContract)")
+    bytes32 public constant DOMAIN_SEPARATOR_TYPEHASH =
+        0x47e79534a245952e8b16893a336b85a3d9ea9fa8c573f3d803afb92a79469218;
+
+    /// @notice keccak256("SafeMessage(bytes message)")
+    bytes32 public constant SAFE_MSG_TYPEHASH = 0x60b3cbf8b4a223d68d641b3b6ddf9a298e7f33710cf3d3a9d1146b5a6150fbca;
+
+    /// @notice EIP-1271 magic value returned when signature is valid
+    bytes4 public constant MAGIC_VALUE = bytes4(0x1626ba7e);
+
+    /// @notice EIP-1271 magic value returned when signature is invalid
+    bytes4 public constant INVALID_SIGNATURE = bytes4(0xffffffff);
+
+    address[] private owners;
+    mapping(address => bool) public isOwner;
+    uint256 private threshold;
+
+    /// @notice Constructor sets the owners and the number of required signatures
+    /// @param _owners The owners of the Safe
+    /// @param _threshold The number of owner signatures required
+    constructor(address[] memory _owners, uint256 _threshold) {
+        require(_threshold > 0 && _threshold <= _owners.length, "MockSafe: invalid threshold");
+        for (uint256 i = 0; i < _owners.length; i++) {
+            require(_owners[i] != address(0) && !isOwner[_owners[i]], "MockSafe: invalid owner");
+            isOwner[_owners[i]] = true;
+        }
+        owners = _owners;
+        threshold = _threshold;
+    }
+
+    /// @notice Returns the owners of the Safe
+    function getOwners() external view returns (address[] memory) {
+        return owners;
+    }
+
+    /// @notice Returns the number of required owner signatures
+    function getThreshold() external view returns (uint256) {
+        return threshold;
+    }
+
+    /// @notice Returns the EIP-712 domain separator of the Safe
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_SEPARATOR_TYPEHASH, block.chainid, address(this)));
+    }
+
+    /// @notice Returns the hash the owners sign for `message` (`getMessageHash` of the fallback handler)
+    /// @param message The message (for EIP-1271, the ABI-encoded hash)
+    function getMessageHash(bytes memory message) public view returns (bytes32) {
+        bytes32 safeMessageHash = keccak256(abi.encode(SAFE_MSG_TYPEHASH, keccak256(message)));
+        return keccak256(abi.encodePacked(bytes1(0x19), bytes1(0x01), domainSeparator(), safeMessageHash));
+    }
+
+    /// @notice EIP-1271 function to validate signatures
+    /// @param hash The hash that was signed (wrapped in a `SafeMessage`)
+    /// @param signature The concatenated owner signatures
+    /// @return magicValue Returns MAGIC_VALUE if signature is valid, INVALID_SIGNATURE otherwise
+    function isValidSignature(bytes32 hash, bytes memory signature) external view returns (bytes4 magicValue) {
+        return _checkSignatures(getMessageHash(abi.encode(hash)), signature) ? MAGIC_VALUE : INVALID_SIGNATURE;
+    }
+
+    /// @dev Returns `true` if the first `threshold` signatures are made by distinct owners in ascending order
+    function _checkSignatures(bytes32 messageHash, bytes memory signatures) private view returns (bool) {
+        if (signatures.length < threshold * 65) {
+            return false;
+        }
+        address lastOwner = address(0);
+        for (uint256 i = 0; i < threshold; i++) {
+            bytes32 r;
+            bytes32 s;
+            uint8 v;
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                let pos := add(signatures, add(0x20, mul(i, 65)))
+                r := mload(pos)
+                s := mload(add(pos, 0x20))
+                v := byte(0, mload(add(pos, 0x40)))
+            }
+            address currentOwner;
+            if (v > 30) {
+                // `eth_sign` signature of the message hash
+                currentOwner = ecrecover(
+                    keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", messageHash)),
+                    v - 4,
+                    r,
+                    s
+                );
+            } else {
+                currentOwner = ecrecover(messageHash, v, r, s);
+            }
+            if (currentOwner <= lastOwner || !isOwner[currentOwner]) {
+                return false;
+            }
+            lastOwner = currentOwner;
+        }
+        return true;
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+/// @title Multicall3
+/// @notice Minimal version of Multicall3 (https://github.com/mds1/multicall3) for local testing.
+/// Only implements `aggregate3`, which is the function used by the XNS SDK for batched resolution.
+/// @dev On local networks, the runtime code of this contract is copied to the canonical Multicall3
+/// address `0xcA11bde05977b3631167028862bE2a173976CA11` via `hardhat_setCode`.
+contract Multicall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    /// @notice Aggregates calls, ensuring each returns success if required.
+    /// @param calls An array of Call3 structs.
+    /// @return returnData An array of Result structs.
+    function aggregate3(Call3[] calldata calls) external payable returns (Result[] memory returnData) {
+        uint256 length = calls.length;
+        returnData = new Result[](length);
+        for (uint256 i = 0; i < length; i++) {
+            Call3 calldata call = calls[i];
+            (bool success, bytes memory ret) = call.target.call(call.callData);
+            require(success || call.allowFailure, "Multicall3: call failed");
+            returnData[i] = Result(success, ret);
+        }
+    }
+}
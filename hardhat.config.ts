@@ -26,6 +26,9 @@ import "solidity-docgen";
 // You must also uncomment the subsequent `tenderly` configuration in this file accordingly
 // import "@tenderly/hardhat-tenderly";
 
+// XNS tasks (`npx hardhat help` lists them under `xns:`)
+import "./tasks";
+
 const ethMainnetUrl = vars.get("ETH_MAINNET_URL", "https://rpc.ankr.com/eth");
 // Derive accounts from private keys
 // const accounts = [
@@ -0,0 +1,54 @@
+/**
+ * Deploy Multicall3 to its canonical address on a local Hardhat network
+ *
+ * Multicall3 is already deployed at 0xcA11bde05977b3631167028862bE2a173976CA11 on Ethereum mainnet and
+ * Sepolia. Local networks need their own copy for `XnsClient.resolveMany` and `XnsClient.reverseResolveMany`.
+ *
+ * DEPLOYMENT COMMAND:
+ * `npx hardhat run scripts/deploy/deployMulticall3.ts --network localhost`
+ */
+
+import hre from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { MULTICALL3_ADDRESS } from "../sdk";
+
+// Colour codes for terminal prints
+const RESET = "\x1b[0m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+
+// Networks that support `hardhat_setCode`
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+export default async function main(hre: HardhatRuntimeEnvironment) {
+  const networkName = hre.network.name;
+  if (!LOCAL_NETWORKS.includes(networkName)) {
+    throw new Error(
+      `Multicall3 can only be installed on local networks (${LOCAL_NETWORKS.join(", ")}), got: ${networkName}`,
+    );
+  }
+
+  if ((await hre.ethers.provider.getCode(MULTICALL3_ADDRESS)) !== "0x") {
+    console.log(
+      `${YELLOW}Multicall3 already deployed at ${MULTICALL3_ADDRESS}${RESET}`,
+    );
+    return;
+  }
+
+  // Deploy Multicall3 and copy its code to the canonical address
+  const multicall3 = await hre.ethers.deployContract("Multicall3");
+  await multicall3.waitForDeployment();
+  await hre.ethers.provider.send("hardhat_setCode", [
+    MULTICALL3_ADDRESS,
+    await hre.ethers.provider.getCode(multicall3.target),
+  ]);
+
+  console.log(`Multicall3 deployed to: ${GREEN}${MULTICALL3_ADDRESS}${RESET}`);
+}
+
+main(hre)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,12 +1,20 @@
 /**
- * Script to deploy three MockERC20C contracts (EIP-1271) and batch register XNS names for them
+ * Script to batch register XNS names from an authorization bundle (see `scripts/sdk/bundle.ts`)
+ * The recipients' signatures are collected in the bundle beforehand, so the sponsor never needs the
+ * recipients' keys:
+ * 1. Create the bundle: `npx hardhat xns:bundle:request --namespace xns --names batch1=0x...,batch2=0x... --network sepolia`
+ *    (e.g. for MockERC20C contracts deployed with `scripts/examples/deployMockERC20C.ts`)
+ * 2. Each recipient signs their entry, e.g. a MockERC20C owner with
+ *    `npx hardhat xns:bundle:sign --bundle authorization-bundle.json --recipients <contract> --signer-index <i> --out <file> --network sepolia`
+ * 3. Collect the signed copies: `npx hardhat xns:bundle:ingest --bundle authorization-bundle.json --signed <files> --network sepolia`
+ * 4. Run this script (or `npx hardhat xns:bundle:submit`)
  *
  * USAGE:
  * Run the script with:
  * `npx hardhat run scripts/examples/batchRegisterNameWithAuthorization.ts --network <network_name>`
  *
  * EXAMPLE:
- * To deploy contracts and batch register names on Sepolia:
+ * To batch register names on Sepolia:
  * `npx hardhat run scripts/examples/batchRegisterNameWithAuthorization.ts --network sepolia`
  *
  * REQUIRED SETUP:
@@ -21,11 +29,16 @@
  */
 
 import hre from "hardhat";
-import { formatEther, parseEther } from "ethers";
-import { XNS } from "../../typechain-types";
-import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { formatEther } from "ethers";
 import { XNS_ADDRESS } from "../../constants/addresses";
-import { signRegisterNameAuth } from "../utils/signRegisterNameAuth";
+import {
+  XnsClient,
+  formatXnsName,
+  readAuthorizationBundle,
+  submitAuthorizationBundle,
+  validateAuthorizationBundle,
+} from "../sdk";
+import { getConfirmations } from "../utils/confirmations";
 
 // Colour codes for terminal prints
 const RESET = "\x1b[0m";
@@ -37,31 +50,14 @@ const RED = "\x1b[31m";
                             USER INPUTS
 //////////////////////////////////////////////////////////////*/
 
-// Namespace (all registrations must be in the same namespace)
-const namespace = "xns";
-
-// Array of labels to register (one for each contract)
-const labels = ["batch1", "batch2", "batch3"];
-
-// Array of token names (one for each contract)
-const tokenNames = ["Batch Token 1", "Batch Token 2", "Batch Token 3"];
-
-// Array of token symbols (one for each contract)
-const tokenSymbols = ["BTK1", "BTK2", "BTK3"];
-
-// Initial token supply for each contract
-const initialSupply = parseEther("1000000"); // 1,000,000 tokens
+// Authorization bundle with the recipients' signatures
+const bundlePath = "authorization-bundle.json";
 
 // Sponsor index (who pays for all registrations)
 const sponsorIndex = 0;
 
-// Starting owner index (owners will be signers starting from this index)
-// Each contract owner signs the authorization for their contract
-// For example, if sponsorIndex=0 and ownerStartIndex=1, then:
-// - Contract 1: owner signer[1], gets labels[0]
-// - Contract 2: owner signer[2], gets labels[1]
-// - Contract 3: owner signer[3], gets labels[2]
-const ownerStartIndex = 1;
+// Confirmations to wait for after each batch before its names are checked and reported as safe to share
+const confirmations = getConfirmations(hre.network.name);
 
 async function main() {
   const networkName = hre.network.name;
@@ -74,198 +70,80 @@ async function main() {
     );
   }
 
-  // Get XNS contract instance
-  const xns = await hre.ethers.getContractAt("XNS", contractAddress) as unknown as XNS;
-
-  // Get signers
   const signers = await hre.ethers.getSigners();
   const sponsor = signers[sponsorIndex];
-
-  // Verify we have enough signers for owners
-  if (ownerStartIndex + labels.length > signers.length) {
-    throw new Error(
-      `Not enough signers. Need ${ownerStartIndex + labels.length} signers, but only have ${signers.length}`,
-    );
-  }
-
-  // Verify arrays match
-  if (labels.length !== tokenNames.length || labels.length !== tokenSymbols.length) {
-    throw new Error("labels, tokenNames, and tokenSymbols arrays must have the same length");
-  }
+  const client = new XnsClient(contractAddress, sponsor);
 
   console.log(`\nNetwork: ${GREEN}${networkName}${RESET}`);
   console.log(`XNS contract: ${GREEN}${contractAddress}${RESET}`);
   console.log(`Sponsor (pays fees): ${GREEN}${sponsor.address}${RESET}`);
-  console.log(`Number of contracts to deploy: ${GREEN}${labels.length}${RESET}\n`);
-
-  // Get namespace info to determine price
-  console.log(`Fetching namespace info for "${namespace}"...\n`);
-  const getNamespaceInfo = xns.getFunction("getNamespaceInfo(string)");
-  const [pricePerName, creator, createdAt, isPrivate] = await getNamespaceInfo(namespace);
-
-  console.log(`Namespace: ${GREEN}${namespace}${RESET}`);
-  console.log(`Type: ${GREEN}${isPrivate ? "private" : "public"}${RESET}`);
-  console.log(`Price per name: ${GREEN}${formatEther(pricePerName)} ETH${RESET}`);
-  console.log(`Namespace creator: ${GREEN}${creator}${RESET}\n`);
-
-  // Deploy MockERC20C contracts
-  console.log(`Deploying ${labels.length} MockERC20C contracts (EIP-1271)...\n`);
-  const MockERC20C = await hre.ethers.getContractFactory("MockERC20C");
-  const contracts = [];
+  console.log(`Bundle: ${GREEN}${bundlePath}${RESET}\n`);
 
-  for (let i = 0; i < labels.length; i++) {
-    const ownerIndex = ownerStartIndex + i;
-    const owner = signers[ownerIndex];
-    
-    console.log(`[${i + 1}/${labels.length}] Deploying contract for "${labels[i]}"...`);
-    console.log(`  Token name: ${GREEN}${tokenNames[i]}${RESET}`);
-    console.log(`  Token symbol: ${GREEN}${tokenSymbols[i]}${RESET}`);
-    console.log(`  Contract owner: ${GREEN}${owner.address}${RESET}`);
-
-    const erc20 = await MockERC20C.deploy(
-      tokenNames[i],
-      tokenSymbols[i],
-      owner.address,
-      initialSupply
-    );
-    await erc20.waitForDeployment();
-    const erc20Address = await erc20.getAddress();
-    
-    console.log(`  ${GREEN}✓${RESET} Deployed to: ${GREEN}${erc20Address}${RESET}\n`);
-    contracts.push({ erc20, erc20Address, owner, label: labels[i] });
+  // Check every signature before spending ETH
+  const bundle = readAuthorizationBundle(bundlePath);
+  const validation = await validateAuthorizationBundle(client, bundle);
+  for (const error of validation.errors) {
+    console.log(`${RED}✗ ${error}${RESET}`);
   }
-
-  // Prepare registrations
-  const registerNameAuths = [];
-  const signatures = [];
-
-  console.log(`Preparing ${labels.length} registrations...\n`);
-
-  for (let i = 0; i < contracts.length; i++) {
-    const { erc20Address, owner, label } = contracts[i];
-    const ownerAsSigner = owner as unknown as SignerWithAddress;
-
-    // Check if contract address already has a name
-    const getName = xns.getFunction("getName(address)");
-    const existingName = await getName(erc20Address);
-    if (existingName !== "") {
-      console.log(
-        `${YELLOW}⚠${RESET} Skipping "${label}" - contract ${erc20Address} already has name: ${existingName}`,
-      );
-      continue;
-    }
-
-    // Check if name is already registered
-    const getAddress = xns.getFunction("getAddress(string,string)");
-    const existingOwner = await getAddress(label, namespace);
-    if (existingOwner !== hre.ethers.ZeroAddress) {
-      console.log(
-        `${YELLOW}⚠${RESET} Skipping "${label}" - already registered to ${existingOwner}`,
-      );
-      continue;
+  for (const entry of validation.entries) {
+    const name = formatXnsName(entry.auth.label, entry.auth.namespace);
+    if (entry.status === "valid") {
+      console.log(`  ${GREEN}✓${RESET} ${name} → ${entry.auth.recipient}`);
+    } else if (entry.status === "unsigned") {
+      console.log(`  ${YELLOW}⚠${RESET} ${name} → ${entry.auth.recipient} not signed yet (left out)`);
+    } else {
+      console.log(`  ${RED}✗${RESET} ${name} → ${entry.auth.recipient}: ${entry.errors.join("; ")}`);
+      for (const mismatch of entry.mismatches) {
+        console.log(`      likely cause: ${mismatch.description}`);
+      }
     }
-
-    console.log(`[${i + 1}/${contracts.length}] Preparing "${label}" for ${erc20Address}...`);
-    console.log(`  Contract owner: ${GREEN}${owner.address}${RESET}`);
-
-    // Contract owner signs the EIP-712 message to authorize the registration
-    const signature = await signRegisterNameAuth(
-      xns,
-      ownerAsSigner,
-      erc20Address, // Contract receives the name
-      label,
-      namespace
-    );
-
-    registerNameAuths.push({
-      recipient: erc20Address,
-      label: label,
-      namespace: namespace,
-    });
-    signatures.push(signature);
-    
-    console.log(`  ${GREEN}✓${RESET} Authorization signature obtained\n`);
   }
-
-  if (registerNameAuths.length === 0) {
-    throw new Error("No valid registrations to process (all skipped)");
+  if (
+    validation.errors.length > 0 ||
+    validation.entries.some((entry) => entry.status === "invalid")
+  ) {
+    throw new Error("Authorization bundle has errors; nothing was submitted");
   }
 
-  console.log(`\n${GREEN}✓${RESET} Prepared ${registerNameAuths.length} valid registrations\n`);
-
-  // Calculate total payment needed
-  const totalPayment = pricePerName * BigInt(registerNameAuths.length);
-
-  // Check sponsor balance
   const balance = await hre.ethers.provider.getBalance(sponsor.address);
-  console.log(
-    `Sponsor balance: ${GREEN}${formatEther(balance)} ETH${RESET}`,
-  );
-  console.log(
-    `Total payment required: ${GREEN}${formatEther(totalPayment)} ETH${RESET}\n`,
-  );
-
-  if (balance < totalPayment) {
-    throw new Error(
-      `Insufficient balance. Need ${formatEther(totalPayment)} ETH, but have ${formatEther(balance)} ETH`,
-    );
+  console.log(`\nSponsor balance: ${GREEN}${formatEther(balance)} ETH${RESET}\n`);
+
+  // Batch register names (one transaction per namespace); names or recipients that are already registered
+  // are left out, and the `NameRegistered` events of each receipt show which registrations succeeded
+  console.log(`Batch registering (waiting for ${confirmations} confirmations per batch)...\n`);
+  const submissions = await submitAuthorizationBundle(client, bundle, { confirmations });
+  if (submissions.length === 0) {
+    console.log(`${YELLOW}⚠${RESET} No registrations to process (all names or recipients already registered)\n`);
+    return;
   }
 
-  // Batch register names
-  console.log(`Batch registering ${registerNameAuths.length} names...\n`);
-
-  const batchTx = await xns.connect(sponsor).batchRegisterNameWithAuthorization(
-    registerNameAuths,
-    signatures,
-    { value: totalPayment }
-  );
-
-  console.log(
-    `Transaction hash: ${GREEN}${batchTx.hash}${RESET}\n`,
-  );
-
-  console.log("Waiting for confirmation...\n");
-  const receipt = await batchTx.wait();
-
-  // Get return value (number of successful registrations)
-  // Note: This requires checking the transaction receipt or events
-  // For simplicity, we'll verify registrations individually
-  const getAddress = xns.getFunction("getAddress(string,string)");
-  const getName = xns.getFunction("getName(address)");
-
-  console.log(`\n${GREEN}✓ Batch registration completed!${RESET}\n`);
-
   let successCount = 0;
-  for (let i = 0; i < registerNameAuths.length; i++) {
-    const auth = registerNameAuths[i];
-    const nameOwner = await getAddress(auth.label, auth.namespace);
-    const registeredName = await getName(auth.recipient);
-    if (nameOwner === auth.recipient) {
-      successCount++;
-      const fullName = namespace.toLowerCase() === "x" ? auth.label : `${auth.label}.${auth.namespace}`;
+  for (const submission of submissions) {
+    console.log(`Namespace ${GREEN}${submission.namespace}${RESET}`);
+    console.log(`Transaction hash: ${GREEN}${submission.transactionHash}${RESET}`);
+    for (const registration of submission.registered) {
+      console.log(`  ${GREEN}✓${RESET} ${registration.fullName} → ${registration.owner}`);
+    }
+    for (const auth of submission.alreadyRegistered) {
       console.log(
-        `  ${GREEN}✓${RESET} ${fullName} → ${auth.recipient}`,
+        `  ${YELLOW}⚠${RESET} ${formatXnsName(auth.label, auth.namespace)} skipped (name taken or recipient already has a name)`,
       );
+    }
+    // Share the names only once the batch is confirmed and every name resolves as registered
+    const { confirmation } = submission;
+    if (confirmation?.safeToShare) {
       console.log(
-        `     Registered name for contract: ${GREEN}${registeredName}${RESET}`,
+        `${GREEN}✓ Safe to share${RESET} (${confirmations} confirmations, checked at block ${confirmation.confirmedBlock})`,
       );
+    } else {
+      console.log(`${RED}✗ Not safe to share (${confirmation?.status}), check the names before using them${RESET}`);
     }
+    successCount += submission.registered.length;
+    console.log();
   }
 
-  console.log(`\nSuccessfully registered: ${GREEN}${successCount}${RESET} name(s)\n`);
-
-  // Display contract info
-  console.log(`Contract deployment summary:\n`);
-  for (let i = 0; i < contracts.length; i++) {
-    const { erc20Address, label, owner } = contracts[i];
-    const registeredName = await getName(erc20Address);
-    const fullName = namespace.toLowerCase() === "x" ? label : `${label}.${namespace}`;
-    console.log(`  [${i + 1}] ${GREEN}${tokenSymbols[i]}${RESET}`);
-    console.log(`      Contract: ${GREEN}${erc20Address}${RESET}`);
-    console.log(`      Owner: ${GREEN}${owner.address}${RESET}`);
-    console.log(`      XNS name: ${GREEN}${registeredName || "(not registered)"}${RESET}`);
-    console.log(`      Full name: ${GREEN}${fullName}${RESET}\n`);
-  }
+  console.log(`${GREEN}✓ Batch registration completed!${RESET}`);
+  console.log(`Successfully registered: ${GREEN}${successCount}${RESET} name(s)\n`);
 
   // Check sponsor balance after
   const balanceAfter = await hre.ethers.provider.getBalance(sponsor.address);
@@ -278,4 +156,3 @@ main().catch((error: unknown) => {
   console.error(RED + (error instanceof Error ? error.message : String(error)) + RESET);
   process.exitCode = 1;
 });
-
@@ -0,0 +1,119 @@
+/**
+ * Script to export the EIP-712 RegisterNameAuth typed data as `eth_signTypedData_v4` JSON
+ * The recipient signs the JSON with any wallet (MetaMask, Rabby, hardware wallet, ...) and sends the
+ * signature back; set `signature` below to check it before sponsoring the registration
+ *
+ * USAGE:
+ * Run the script with:
+ * `npx hardhat run scripts/examples/exportTypedData.ts --network <network_name>`
+ *
+ * EXAMPLE:
+ * To export the typed data on Sepolia:
+ * `npx hardhat run scripts/examples/exportTypedData.ts --network sepolia`
+ *
+ * REQUIRED SETUP:
+ * Before running, set these environment variables using hardhat-vars:
+ *
+ * 1. Network Independent Setup:
+ *    - MNEMONIC:          `npx hardhat vars set MNEMONIC`
+ *    - ETHERSCAN_API_KEY: `npx hardhat vars set ETHERSCAN_API_KEY`
+ *
+ * 2. Network Specific Setup:
+ *    - ETH_SEPOLIA_TESTNET_URL: `npx hardhat vars set ETH_SEPOLIA_TESTNET_URL`
+ */
+
+import hre from "hardhat";
+import { XNS_ADDRESS } from "../../constants/addresses";
+import {
+  XnsClient,
+  buildRegisterNameAuthTypedData,
+  checkRegisterNameAuthSignature,
+  formatXnsName,
+  getXnsTypedDataDomain,
+} from "../sdk";
+
+// Colour codes for terminal prints
+const RESET = "\x1b[0m";
+const GREEN = "\x1b[32m";
+const RED = "\x1b[31m";
+const CYAN = "\x1b[36m";
+
+/*//////////////////////////////////////////////////////////////
+                            USER INPUTS
+//////////////////////////////////////////////////////////////*/
+
+// Label to register (e.g., "alice", "bob", "vitalik")
+const label = "example-user";
+
+// Namespace (e.g., "xns", "x" for bare names, "001", etc.)
+const namespace = "xns";
+
+// Recipient address (who will receive the name and has to sign)
+// For EIP-1271 contracts: use the contract address (the contract owner signs)
+const recipient = "0xBAD3814f24c1064d41278aE2eCC03A16bBCE6693";
+
+// Signature returned by the recipient (null = only export the typed data)
+const signature: string | null = null;
+
+async function main() {
+  const networkName = hre.network.name;
+
+  // Get XNS address for the current network
+  const contractAddress = XNS_ADDRESS[networkName];
+  if (!contractAddress) {
+    throw new Error(
+      `XNS contract address not set for network: ${networkName}. Please add address to constants/addresses.ts`,
+    );
+  }
+
+  const client = new XnsClient(contractAddress, hre.ethers.provider);
+  const auth = { recipient, label, namespace };
+
+  console.log(`\nNetwork: ${GREEN}${networkName}${RESET}`);
+  console.log(`XNS contract: ${GREEN}${contractAddress}${RESET}`);
+  console.log(`Recipient: ${GREEN}${recipient}${RESET}`);
+  console.log(
+    `Full name: ${GREEN}${formatXnsName(label, namespace)}${RESET}\n`,
+  );
+
+  const typedData = buildRegisterNameAuthTypedData(
+    await getXnsTypedDataDomain(client),
+    auth,
+  );
+
+  console.log(
+    `${CYAN}═══════════════════════════════════════════════════════════${RESET}`,
+  );
+  console.log(`${CYAN}              eth_signTypedData_v4 PAYLOAD${RESET}`);
+  console.log(
+    `${CYAN}═══════════════════════════════════════════════════════════${RESET}\n`,
+  );
+  console.log(`${GREEN}${JSON.stringify(typedData, null, 2)}${RESET}\n`);
+  console.log(
+    `Send this JSON to the recipient and have them sign it with ${GREEN}${recipient}${RESET}`,
+  );
+  console.log(
+    `(or, for EIP-1271 contracts, with the account the contract accepts signatures from).\n`,
+  );
+
+  if (signature === null) {
+    return;
+  }
+
+  console.log(`Checking signature...\n`);
+  const check = await checkRegisterNameAuthSignature(client, auth, signature);
+  if (!check.isValid) {
+    throw new Error(`Invalid signature: ${check.error}`);
+  }
+  console.log(
+    `${GREEN}✓ Signature is valid for ${formatXnsName(label, namespace)}${RESET}`,
+  );
+  console.log(`Signature: ${GREEN}${check.signature}${RESET}\n`);
+}
+
+main().catch((error: unknown) => {
+  console.error(
+    RED + (error instanceof Error ? error.message : String(error)) + RESET,
+  );
+  process.exitCode = 1;
+});
@@ -26,6 +26,7 @@ import { XNS } from "../../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { XNS_ADDRESS } from "../../constants/addresses";
 import { signRegisterNameAuth } from "../utils/signRegisterNameAuth";
+import { formatXnsName } from "../sdk";
 
 // Colour codes for terminal prints
 const RESET = "\x1b[0m";
@@ -91,7 +92,7 @@ async function main() {
     namespace
   );
 
-  const fullName = namespace.toLowerCase() === "x" ? label : `${label}.${namespace}`;
+  const fullName = formatXnsName(label, namespace);
 
   console.log(`${GREEN}✓ Signature generated!${RESET}\n`);
   console.log(`${CYAN}═══════════════════════════════════════════════════════════${RESET}`);
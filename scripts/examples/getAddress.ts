@@ -22,6 +22,7 @@
 
 import hre from "hardhat";
 import { XNS_ADDRESS } from "../../constants/addresses";
+import { formatXnsName } from "../sdk";
 
 // Colour codes for terminal prints
 const RESET = "\x1b[0m";
@@ -69,7 +70,7 @@ async function main() {
     const getAddressFull = xns.getFunction("getAddress(string)");
     address = await getAddressFull(fullName);
   } else {
-    nameToResolve = namespace.toLowerCase() === "x" ? label : `${label}.${namespace}`;
+    nameToResolve = formatXnsName(label, namespace);
     console.log(`Resolving name: ${GREEN}${nameToResolve}${RESET}`);
     console.log(`  Label: ${GREEN}${label}${RESET}`);
     console.log(`  Namespace: ${GREEN}${namespace}${RESET}\n`);
@@ -28,8 +28,10 @@
  */
 
 import hre from "hardhat";
-import { formatEther, parseEther } from "ethers";
+import { formatEther } from "ethers";
 import { XNS_ADDRESS } from "../../constants/addresses";
+import { XnsClient, formatXnsName, waitForConfirmations } from "../sdk";
+import { getConfirmations } from "../utils/confirmations";
 
 // Colour codes for terminal prints
 const RESET = "\x1b[0m";
@@ -50,6 +52,9 @@ const namespace = "xns";
 // Signer index (0 = account 1, 1 = account 2, 2 = account 3, etc.)
 const signerIndex = 2;
 
+// Confirmations to wait for before the name is checked and reported as safe to share
+const confirmations = getConfirmations(hre.network.name);
+
 async function main() {
   const networkName = hre.network.name;
 
@@ -135,7 +140,7 @@ async function main() {
   }
 
   // Register name (bare names use namespace "x")
-  const fullName = namespace.toLowerCase() === "x" ? label : `${label}.${namespace}`;
+  const fullName = formatXnsName(label, namespace);
   console.log(`Registering name: ${GREEN}${fullName}${RESET}`);
   console.log(`Sending ${GREEN}${formatEther(pricePerName)} ETH${RESET}...\n`);
 
@@ -147,17 +152,36 @@ async function main() {
     `Transaction hash: ${GREEN}${registerTx.hash}${RESET}\n`,
   );
 
-  console.log("Waiting for confirmation...\n");
-  const receipt = await registerTx.wait();
+  console.log(`Waiting for ${confirmations} confirmations...\n`);
+  await registerTx.wait();
 
-  // Verify registration
-  const nameOwner = await getAddress(label, namespace);
-  const registeredName = await getName(signer.address);
+  // Verify registration at the confirmed block
+  const confirmation = await waitForConfirmations(
+    new XnsClient(contractAddress, hre.ethers.provider),
+    registerTx.hash,
+    { confirmations },
+  );
+  if (!confirmation.safeToShare) {
+    throw new Error(
+      `Registration is not safe to share (${confirmation.status}), check the name before using it`,
+    );
+  }
+  const [registration] = confirmation.names;
+  if (!registration) {
+    throw new Error(
+      `No name registration found in transaction ${confirmation.transactionHash}`,
+    );
+  }
+  const nameOwner = registration.resolvedAddress;
+  const registeredName = registration.reverseName;
 
   console.log(`\n${GREEN}✓ Registration successful!${RESET}\n`);
   console.log(`Name: ${GREEN}${fullName}${RESET}`);
   console.log(`Owner: ${GREEN}${nameOwner}${RESET}`);
   console.log(`Registered name for ${signer.address}: ${GREEN}${registeredName}${RESET}\n`);
+  console.log(
+    `${GREEN}✓ Safe to share${RESET} (${confirmations} confirmations, checked at block ${confirmation.confirmedBlock})\n`,
+  );
 
   // Check balance after
   const balanceAfter = await hre.ethers.provider.getBalance(signer.address);
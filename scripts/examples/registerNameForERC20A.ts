@@ -30,6 +30,7 @@
 import hre from "hardhat";
 import { formatEther, parseEther } from "ethers";
 import { XNS_ADDRESS } from "../../constants/addresses";
+import { formatXnsName } from "../sdk";
 
 // Colour codes for terminal prints
 const RESET = "\x1b[0m";
@@ -134,7 +135,7 @@ async function main() {
   console.log(`  Token symbol: ${GREEN}${tokenSymbol}${RESET}`);
   console.log(`  Initial supply: ${GREEN}${formatEther(initialSupply)} ${tokenSymbol}${RESET}`);
   
-  const fullName = namespace.toLowerCase() === "x" ? label : `${label}.${namespace}`;
+  const fullName = formatXnsName(label, namespace);
   console.log(`  XNS name to register: ${GREEN}${fullName}${RESET}`);
   console.log(`  Sending ${GREEN}${formatEther(pricePerName)} ETH${RESET}...\n`);
 
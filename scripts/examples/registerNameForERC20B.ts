@@ -30,6 +30,7 @@
 import hre from "hardhat";
 import { formatEther, parseEther } from "ethers";
 import { XNS_ADDRESS } from "../../constants/addresses";
+import { formatXnsName } from "../sdk";
 
 // Colour codes for terminal prints
 const RESET = "\x1b[0m";
@@ -158,7 +159,7 @@ async function main() {
   }
 
   // Register XNS name for the ERC20 contract
-  const fullName = namespace.toLowerCase() === "x" ? label : `${label}.${namespace}`;
+  const fullName = formatXnsName(label, namespace);
   console.log(`Registering XNS name for contract: ${GREEN}${fullName}${RESET}`);
   console.log(`Sending ${GREEN}${formatEther(pricePerName)} ETH${RESET}...\n`);
 
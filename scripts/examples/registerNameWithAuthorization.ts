@@ -26,6 +26,8 @@ import { XNS } from "../../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { XNS_ADDRESS } from "../../constants/addresses";
 import { signRegisterNameAuth } from "../utils/signRegisterNameAuth";
+import { XnsClient, formatXnsName, waitForConfirmations } from "../sdk";
+import { getConfirmations } from "../utils/confirmations";
 
 // Colour codes for terminal prints
 const RESET = "\x1b[0m";
@@ -50,6 +52,9 @@ const recipientIndex = 1; // Index of signer that will receive the name (must si
 // Sponsor index (who pays for the registration)
 const sponsorIndex = 0; // Index of signer that pays for the registration
 
+// Confirmations to wait for before the name is checked and reported as safe to share
+const confirmations = getConfirmations(hre.network.name);
+
 async function main() {
   const networkName = hre.network.name;
 
@@ -131,7 +136,7 @@ async function main() {
   };
 
   // Register name with authorization
-  const fullName = namespace.toLowerCase() === "x" ? label : `${label}.${namespace}`;
+  const fullName = formatXnsName(label, namespace);
   console.log(`Registering name: ${GREEN}${fullName}${RESET}`);
   console.log(`Recipient: ${GREEN}${recipient.address}${RESET}`);
   console.log(`Sponsor: ${GREEN}${sponsor.address}${RESET}`);
@@ -147,17 +152,36 @@ async function main() {
     `Transaction hash: ${GREEN}${registerTx.hash}${RESET}\n`,
   );
 
-  console.log("Waiting for confirmation...\n");
-  const receipt = await registerTx.wait();
+  console.log(`Waiting for ${confirmations} confirmations...\n`);
+  await registerTx.wait();
 
-  // Verify registration
-  const nameOwner = await getAddress(label, namespace);
-  const registeredName = await getName(recipient.address);
+  // Verify registration at the confirmed block
+  const confirmation = await waitForConfirmations(
+    new XnsClient(contractAddress, hre.ethers.provider),
+    registerTx.hash,
+    { confirmations },
+  );
+  if (!confirmation.safeToShare) {
+    throw new Error(
+      `Registration is not safe to share (${confirmation.status}), check the name before using it`,
+    );
+  }
+  const [registration] = confirmation.names;
+  if (!registration) {
+    throw new Error(
+      `No name registration found in transaction ${confirmation.transactionHash}`,
+    );
+  }
+  const nameOwner = registration.resolvedAddress;
+  const registeredName = registration.reverseName;
 
   console.log(`\n${GREEN}✓ Registration successful!${RESET}\n`);
   console.log(`Name: ${GREEN}${fullName}${RESET}`);
   console.log(`Owner: ${GREEN}${nameOwner}${RESET}`);
   console.log(`Registered name for ${recipient.address}: ${GREEN}${registeredName}${RESET}\n`);
+  console.log(
+    `${GREEN}✓ Safe to share${RESET} (${confirmations} confirmations, checked at block ${confirmation.confirmedBlock})\n`,
+  );
 
   // Check sponsor balance after
   const balanceAfter = await hre.ethers.provider.getBalance(sponsor.address);
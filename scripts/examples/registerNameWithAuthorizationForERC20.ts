@@ -26,6 +26,7 @@ import { XNS } from "../../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { XNS_ADDRESS } from "../../constants/addresses";
 import { signRegisterNameAuth } from "../utils/signRegisterNameAuth";
+import { formatXnsName } from "../sdk";
 
 // Colour codes for terminal prints
 const RESET = "\x1b[0m";
@@ -160,7 +161,7 @@ async function main() {
   };
 
   // Sponsor registers the name for the contract
-  const fullName = namespace.toLowerCase() === "x" ? label : `${label}.${namespace}`;
+  const fullName = formatXnsName(label, namespace);
   console.log(`Sponsor registering XNS name for contract: ${GREEN}${fullName}${RESET}`);
   console.log(`Contract recipient: ${GREEN}${erc20Address}${RESET}`);
   console.log(`Sponsor: ${GREEN}${sponsor.address}${RESET}`);
@@ -0,0 +1,709 @@
+/**
+ * Typed client wrapping every read and write function of the XNS contract
+ * Shared between scripts, tasks and tests
+ */
+
+import {
+  Contract,
+  ContractRunner,
+  ContractTransactionResponse,
+  Overrides,
+  Provider,
+  ZeroAddress,
+  getBigInt,
+  isAddress,
+} from "ethers";
+import XNS_ABI from "../../abis/contracts/src/XNS.sol/XNS.json";
+import { XNS_ADDRESS } from "../../constants/addresses";
+import {
+  NamespaceNotFoundError,
+  XnsErrorContext,
+  XnsRevertError,
+  decodeXnsError,
+} from "./errors";
+import {
+  BatchResult,
+  MulticallCall,
+  MulticallOptions,
+  MulticallResult,
+  multicall,
+} from "./multicall";
+import { ParsedXnsName, parseXnsName } from "./names";
+import { NamespaceInfo, RegisterNameAuth, XnsConstants } from "./types";
+
+/**
+ * Converts a `RegisterNameAuth` object into the tuple expected by the contract ABI
+ * @param auth The `RegisterNameAuth` object
+ * @returns The `[recipient, label, namespace]` tuple
+ */
+export function toRegisterNameAuthTuple(
+  auth: RegisterNameAuth,
+): [string, string, string] {
+  return [auth.recipient, auth.label, auth.namespace];
+}
+
+/**
+ * Returns the `value` override as bigint (for error context)
+ * @param overrides The transaction overrides
+ */
+function providedValue(overrides: Overrides): bigint | undefined {
+  return overrides.value == null ? undefined : getBigInt(overrides.value);
+}
+
+export class XnsClient {
+  readonly address: string;
+  readonly contract: Contract;
+
+  /**
+   * @param address The address of the XNS contract
+   * @param runner The provider (read-only) or signer (read and write) used to interact with XNS
+   */
+  constructor(address: string, runner: ContractRunner) {
+    this.address = address;
+    this.contract = new Contract(address, XNS_ABI, runner);
+  }
+
+  /**
+   * Creates a client for the XNS deployment listed in `constants/addresses.ts`
+   * @param networkName The hardhat network name (e.g. "sepolia", "ethMain")
+   * @param runner The provider or signer used to interact with XNS
+   */
+  static forNetwork(networkName: string, runner: ContractRunner): XnsClient {
+    const address = XNS_ADDRESS[networkName];
+    if (!address) {
+      throw new Error(
+        `XNS contract address not set for network: ${networkName}. Please add address to constants/addresses.ts`,
+      );
+    }
+    return new XnsClient(address, runner);
+  }
+
+  /**
+   * Returns a new client for the same contract using a different provider or signer
+   * @param runner The provider or signer to use
+   */
+  connect(runner: ContractRunner): XnsClient {
+    return new XnsClient(this.address, runner);
+  }
+
+  get runner(): ContractRunner {
+    if (!this.contract.runner) {
+      throw new Error("XnsClient: no runner");
+    }
+    return this.contract.runner;
+  }
+
+  /**
+   * The provider of the runner, used by the SDK functions that read blocks, receipts or code
+   * @throws If the runner has no provider (e.g. a signer that is not connected to one)
+   */
+  get provider(): Provider {
+    if (!this.runner.provider) {
+      throw new Error("XnsClient: the runner has no provider");
+    }
+    return this.runner.provider;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Resolution
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Resolves a name to an address (`getAddress(string,string)`)
+   * @param label The label part of the name
+   * @param namespace The namespace part of the name; empty string or "x" for bare names
+   * @returns The owner address, or the zero address if the name is not registered
+   */
+  async resolve(label: string, namespace: string): Promise<string> {
+    return await this.contract.getFunction("getAddress(string,string)")(
+      label,
+      namespace,
+    );
+  }
+
+  /**
+   * Resolves a full name such as "alice.xns" or "vitalik" to an address (`getAddress(string)`)
+   * @param fullName The full name to resolve
+   * @returns The owner address, or the zero address if the name is not registered or malformed
+   */
+  async resolveFullName(fullName: string): Promise<string> {
+    return await this.contract.getFunction("getAddress(string)")(fullName);
+  }
+
+  /**
+   * Looks up the name of an address (`getName`)
+   * @param address The address to look up
+   * @returns The name (bare names without ".x"), or an empty string if the address has no name
+   */
+  async reverseResolve(address: string): Promise<string> {
+    return await this.contract.getFunction("getName")(address);
+  }
+
+  /**
+   * Resolves many full names (e.g. "alice.xns", "vitalik") with batched `getAddress(string,string)` calls
+   * through Multicall3
+   * @param names The full names to resolve
+   * @param options Multicall3 address, chunk size and block tag
+   * @returns One result per name in input order; the value is the zero address if the name is not registered
+   */
+  async resolveMany(
+    names: string[],
+    options: MulticallOptions = {},
+  ): Promise<BatchResult<string>[]> {
+    const getAddress = this.contract.interface.getFunction(
+      "getAddress(string,string)",
+    )!;
+
+    // Names with an empty namespace (e.g. "alice.") resolve to the zero address, like `getAddress(fullName)`
+    const parsed = names.map((name) => {
+      const result = parseXnsName(name);
+      return result && result.namespace !== "" ? result : null;
+    });
+    const calls: MulticallCall[] = parsed
+      .filter((p): p is ParsedXnsName => p !== null)
+      .map((p) => ({
+        target: this.address,
+        callData: this.contract.interface.encodeFunctionData(getAddress, [
+          p.label,
+          p.namespace,
+        ]),
+      }));
+    const results = await multicall(this.runner, calls, options);
+
+    let next = 0;
+    return names.map((input, i) =>
+      parsed[i] === null
+        ? { input, success: true, value: ZeroAddress }
+        : this.decodeBatchResult(
+            input,
+            results[next++],
+            (data) =>
+              this.contract.interface.decodeFunctionResult(getAddress, data)[0],
+          ),
+    );
+  }
+
+  /**
+   * Looks up the names of many addresses with batched `getName` calls through Multicall3
+   * @param addresses The addresses to look up
+   * @param options Multicall3 address, chunk size and block tag
+   * @returns One result per address in input order; the value is an empty string if the address has no name
+   */
+  async reverseResolveMany(
+    addresses: string[],
+    options: MulticallOptions = {},
+  ): Promise<BatchResult<string>[]> {
+    const getName = this.contract.interface.getFunction("getName")!;
+
+    const calls: MulticallCall[] = addresses
+      .filter((address) => isAddress(address))
+      .map((address) => ({
+        target: this.address,
+        callData: this.contract.interface.encodeFunctionData(getName, [
+          address,
+        ]),
+      }));
+    const results = await multicall(this.runner, calls, options);
+
+    let next = 0;
+    return addresses.map((input) =>
+      !isAddress(input)
+        ? { input, success: false, error: "invalid address" }
+        : this.decodeBatchResult(
+            input,
+            results[next++],
+            (data) =>
+              this.contract.interface.decodeFunctionResult(getName, data)[0],
+          ),
+    );
+  }
+
+  private decodeBatchResult<T>(
+    input: string,
+    result: MulticallResult,
+    decode: (data: string) => T,
+  ): BatchResult<T> {
+    if (!result.success) {
+      return { input, success: false, error: result.error };
+    }
+    try {
+      return { input, success: true, value: decode(result.returnData) };
+    } catch {
+      return {
+        input,
+        success: false,
+        error: `could not decode result: ${result.returnData}`,
+      };
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Namespaces
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Retrieves the namespace metadata; reverts with "XNS: namespace not found" if it does not exist
+   * @param namespace The namespace to query
+   */
+  async getNamespaceInfo(namespace: string): Promise<NamespaceInfo> {
+    return await this.withErrors({ namespace }, async () => {
+      const [pricePerName, owner, createdAt, isPrivate] =
+        await this.contract.getFunction("getNamespaceInfo")(namespace);
+      return { namespace, pricePerName, owner, createdAt, isPrivate };
+    });
+  }
+
+  /**
+   * Same as `getNamespaceInfo` but returns `null` instead of reverting if the namespace does not exist
+   * @param namespace The namespace to query
+   */
+  async findNamespaceInfo(namespace: string): Promise<NamespaceInfo | null> {
+    try {
+      return await this.getNamespaceInfo(namespace);
+    } catch (error) {
+      if (error instanceof NamespaceNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getNamespacePrice(namespace: string): Promise<bigint> {
+    return await this.withErrors({ namespace }, () =>
+      this.contract.getFunction("getNamespacePrice")(namespace),
+    );
+  }
+
+  async isInExclusivityPeriod(namespace: string): Promise<boolean> {
+    return await this.withErrors({ namespace }, () =>
+      this.contract.getFunction("isInExclusivityPeriod")(namespace),
+    );
+  }
+
+  async getPendingNamespaceOwner(namespace: string): Promise<string> {
+    return await this.withErrors({ namespace }, () =>
+      this.contract.getFunction("getPendingNamespaceOwner")(namespace),
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Validation, fees and ownership
+  // ---------------------------------------------------------------------------
+
+  async isValidLabelOrNamespace(labelOrNamespace: string): Promise<boolean> {
+    return await this.contract.getFunction("isValidLabelOrNamespace")(
+      labelOrNamespace,
+    );
+  }
+
+  async isValidSignature(
+    auth: RegisterNameAuth,
+    signature: string,
+  ): Promise<boolean> {
+    return await this.contract.getFunction("isValidSignature")(
+      toRegisterNameAuthTuple(auth),
+      signature,
+    );
+  }
+
+  async getPendingFees(address: string): Promise<bigint> {
+    return await this.contract.getFunction("getPendingFees")(address);
+  }
+
+  async owner(): Promise<string> {
+    return await this.contract.getFunction("owner")();
+  }
+
+  async pendingOwner(): Promise<string> {
+    return await this.contract.getFunction("pendingOwner")();
+  }
+
+  /**
+   * Reads all public constants of the contract in parallel
+   */
+  async getConstants(): Promise<XnsConstants> {
+    const read = (name: string) => this.contract.getFunction(name)();
+    const [
+      deployedAt,
+      publicNamespaceRegistrationFee,
+      privateNamespaceRegistrationFee,
+      exclusivityPeriod,
+      onboardingPeriod,
+      priceStep,
+      publicNamespaceMinPrice,
+      privateNamespaceMinPrice,
+      bareNameNamespace,
+      bareNamePrice,
+      deth,
+    ] = await Promise.all([
+      read("DEPLOYED_AT"),
+      read("PUBLIC_NAMESPACE_REGISTRATION_FEE"),
+      read("PRIVATE_NAMESPACE_REGISTRATION_FEE"),
+      read("EXCLUSIVITY_PERIOD"),
+      read("ONBOARDING_PERIOD"),
+      read("PRICE_STEP"),
+      read("PUBLIC_NAMESPACE_MIN_PRICE"),
+      read("PRIVATE_NAMESPACE_MIN_PRICE"),
+      read("BARE_NAME_NAMESPACE"),
+      read("BARE_NAME_PRICE"),
+      read("DETH"),
+    ]);
+    return {
+      deployedAt,
+      publicNamespaceRegistrationFee,
+      privateNamespaceRegistrationFee,
+      exclusivityPeriod,
+      onboardingPeriod,
+      priceStep,
+      publicNamespaceMinPrice,
+      privateNamespaceMinPrice,
+      bareNameNamespace,
+      bareNamePrice,
+      deth,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Name registration
+  // ---------------------------------------------------------------------------
+  // If `overrides.value` is omitted, the exact price is read from the contract.
+  // All write functions throw typed errors (see `decodeError`) if the transaction reverts.
+
+  async registerName(
+    label: string,
+    namespace: string,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors(
+      { label, namespace, provided: providedValue(overrides) },
+      async () => {
+        const value =
+          overrides.value ?? (await this.getNamespacePrice(namespace));
+        return await this.contract.getFunction("registerName")(
+          label,
+          namespace,
+          { ...overrides, value },
+        );
+      },
+    );
+  }
+
+  async registerNameWithAuthorization(
+    auth: RegisterNameAuth,
+    signature: string,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors(
+      {
+        label: auth.label,
+        namespace: auth.namespace,
+        address: auth.recipient,
+        provided: providedValue(overrides),
+      },
+      async () => {
+        const value =
+          overrides.value ?? (await this.getNamespacePrice(auth.namespace));
+        return await this.contract.getFunction("registerNameWithAuthorization")(
+          toRegisterNameAuthTuple(auth),
+          signature,
+          { ...overrides, value },
+        );
+      },
+    );
+  }
+
+  /**
+   * Batch registration; if `overrides.value` is omitted, `pricePerName * auths.length` is sent
+   * (items skipped on-chain are refunded by the contract)
+   */
+  async batchRegisterNameWithAuthorization(
+    auths: RegisterNameAuth[],
+    signatures: string[],
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    if (auths.length === 0) {
+      throw new Error("XnsClient: no registrations to process");
+    }
+    return await this.withErrors(
+      { namespace: auths[0].namespace, provided: providedValue(overrides) },
+      async () => {
+        const value =
+          overrides.value ??
+          (await this.getNamespacePrice(auths[0].namespace)) *
+            BigInt(auths.length);
+        return await this.contract.getFunction(
+          "batchRegisterNameWithAuthorization",
+        )(auths.map(toRegisterNameAuthTuple), signatures, {
+          ...overrides,
+          value,
+        });
+      },
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Namespace registration
+  // ---------------------------------------------------------------------------
+
+  async registerPublicNamespace(
+    namespace: string,
+    pricePerName: bigint,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors(
+      { namespace, isPrivate: false, provided: providedValue(overrides) },
+      async () => {
+        const value =
+          overrides.value ??
+          (await this.contract.getFunction(
+            "PUBLIC_NAMESPACE_REGISTRATION_FEE",
+          )());
+        return await this.contract.getFunction("registerPublicNamespace")(
+          namespace,
+          pricePerName,
+          { ...overrides, value },
+        );
+      },
+    );
+  }
+
+  async registerPrivateNamespace(
+    namespace: string,
+    pricePerName: bigint,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors(
+      { namespace, isPrivate: true, provided: providedValue(overrides) },
+      async () => {
+        const value =
+          overrides.value ??
+          (await this.contract.getFunction(
+            "PRIVATE_NAMESPACE_REGISTRATION_FEE",
+          )());
+        return await this.contract.getFunction("registerPrivateNamespace")(
+          namespace,
+          pricePerName,
+          { ...overrides, value },
+        );
+      },
+    );
+  }
+
+  /**
+   * Contract owner-only; only available during the onboarding period
+   */
+  async registerPublicNamespaceFor(
+    nsOwner: string,
+    namespace: string,
+    pricePerName: bigint,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors(
+      { namespace, address: nsOwner, isPrivate: false },
+      () =>
+        this.contract.getFunction("registerPublicNamespaceFor")(
+          nsOwner,
+          namespace,
+          pricePerName,
+          overrides,
+        ),
+    );
+  }
+
+  /**
+   * Contract owner-only; only available during the onboarding period
+   */
+  async registerPrivateNamespaceFor(
+    nsOwner: string,
+    namespace: string,
+    pricePerName: bigint,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors(
+      { namespace, address: nsOwner, isPrivate: true },
+      () =>
+        this.contract.getFunction("registerPrivateNamespaceFor")(
+          nsOwner,
+          namespace,
+          pricePerName,
+          overrides,
+        ),
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Fees
+  // ---------------------------------------------------------------------------
+
+  async claimFees(
+    recipient: string,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors({ address: recipient }, () =>
+      this.contract.getFunction("claimFees")(recipient, overrides),
+    );
+  }
+
+  async claimFeesToSelf(
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors({}, () =>
+      this.contract.getFunction("claimFeesToSelf")(overrides),
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Ownership
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Starts a 2-step namespace ownership transfer; pass the zero address to cancel a pending transfer
+   */
+  async transferNamespaceOwnership(
+    namespace: string,
+    newOwner: string,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors({ namespace, address: newOwner }, () =>
+      this.contract.getFunction("transferNamespaceOwnership")(
+        namespace,
+        newOwner,
+        overrides,
+      ),
+    );
+  }
+
+  async acceptNamespaceOwnership(
+    namespace: string,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors({ namespace }, () =>
+      this.contract.getFunction("acceptNamespaceOwnership")(
+        namespace,
+        overrides,
+      ),
+    );
+  }
+
+  async transferOwnership(
+    newOwner: string,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors({ address: newOwner }, () =>
+      this.contract.getFunction("transferOwnership")(newOwner, overrides),
+    );
+  }
+
+  async acceptOwnership(
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return await this.withErrors({}, () =>
+      this.contract.getFunction("acceptOwnership")(overrides),
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Errors
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Decodes an error into a typed XNS error and completes its context with additional reads
+   * (required price or fee, minimum price, end of the exclusivity or onboarding period)
+   * @param error The error thrown by ethers or the hardhat provider
+   * @param context Context known from the call (e.g. label, namespace and provided value)
+   * @returns The typed error, or `undefined` if the error is not an "XNS: ..." revert
+   */
+  async decodeError(
+    error: unknown,
+    context: XnsErrorContext = {},
+  ): Promise<XnsRevertError | undefined> {
+    const decoded = decodeXnsError(error, context);
+    if (!decoded) {
+      return undefined;
+    }
+    try {
+      const details = await this.getErrorDetails(decoded);
+      return Object.keys(details).length > 0
+        ? decodeXnsError(decoded.cause, { ...decoded.context, ...details })
+        : decoded;
+    } catch {
+      // Additional context is best effort
+      return decoded;
+    }
+  }
+
+  private async getErrorDetails(
+    error: XnsRevertError,
+  ): Promise<XnsErrorContext> {
+    const { namespace, isPrivate } = error.context;
+    const read = (name: string): Promise<bigint> =>
+      this.contract.getFunction(name)();
+
+    switch (error.kind) {
+      case "INSUFFICIENT_PAYMENT":
+        return namespace
+          ? { required: await this.getNamespacePrice(namespace) }
+          : {};
+      case "EXCLUSIVITY_PERIOD":
+      case "NOT_NAMESPACE_OWNER": {
+        if (
+          !namespace ||
+          (error.kind === "NOT_NAMESPACE_OWNER" &&
+            error.restriction !== "exclusivity period")
+        ) {
+          return {};
+        }
+        const [info, exclusivityPeriod] = await Promise.all([
+          this.getNamespaceInfo(namespace),
+          read("EXCLUSIVITY_PERIOD"),
+        ]);
+        return { exclusivityEndsAt: info.createdAt + exclusivityPeriod };
+      }
+      case "INSUFFICIENT_NAMESPACE_FEE":
+        return isPrivate === undefined
+          ? {}
+          : {
+              required: await read(
+                isPrivate
+                  ? "PRIVATE_NAMESPACE_REGISTRATION_FEE"
+                  : "PUBLIC_NAMESPACE_REGISTRATION_FEE",
+              ),
+            };
+      case "PRICE_TOO_LOW":
+        return isPrivate === undefined
+          ? {}
+          : {
+              minPrice: await read(
+                isPrivate
+                  ? "PRIVATE_NAMESPACE_MIN_PRICE"
+                  : "PUBLIC_NAMESPACE_MIN_PRICE",
+              ),
+            };
+      case "ONBOARDING_OVER": {
+        const [deployedAt, onboardingPeriod] = await Promise.all([
+          read("DEPLOYED_AT"),
+          read("ONBOARDING_PERIOD"),
+        ]);
+        return { onboardingEndedAt: deployedAt + onboardingPeriod };
+      }
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Runs a contract call and rethrows "XNS: ..." reverts as typed errors
+   * @param context Context known from the call
+   * @param fn The contract call
+   */
+  private async withErrors<T>(
+    context: XnsErrorContext,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw (await this.decodeError(error, context)) ?? error;
+    }
+  }
+}
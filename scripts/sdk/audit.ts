@@ -0,0 +1,240 @@
+/**
+ * Audit of issued `RegisterNameAuth` signatures
+ * Authorizations have no nonce or deadline, so a signature stays usable until the registration becomes
+ * impossible. `auditAuthorizations` reports, for each issued signature, whether a sponsor could still submit it
+ * at the latest block and, if not, what prevents it. All reads are batched through Multicall3 and pinned to one
+ * block.
+ */
+
+import { ZeroAddress, getAddress } from "ethers";
+import { AuthorizationBundle } from "./bundle";
+import { multicall, MulticallCall, MulticallOptions } from "./multicall";
+import { formatXnsName } from "./names";
+import { NamespaceInfo, RegisterNameAuth } from "./types";
+import { getXnsTypedDataDomain } from "./typedData";
+import { validateLabel } from "./validation";
+import { XnsClient, toRegisterNameAuthTuple } from "./XnsClient";
+
+export type AuthorizationBlockerKind =
+  | "ZERO_RECIPIENT"
+  | "INVALID_LABEL"
+  | "NAMESPACE_NOT_FOUND"
+  | "ALREADY_USED"
+  | "RECIPIENT_HAS_NAME"
+  | "NAME_TAKEN"
+  | "INVALID_SIGNATURE";
+
+export interface AuthorizationBlocker {
+  kind: AuthorizationBlockerKind;
+  description: string;
+}
+
+export interface IssuedAuthorization {
+  auth: RegisterNameAuth;
+  signature: string;
+}
+
+export interface AuthorizationAuditEntry extends IssuedAuthorization {
+  // `true` if the signature can still be used to register the name for the recipient
+  executable: boolean;
+  // Who can submit an executable authorization: anyone, or only the namespace owner (private namespace or
+  // exclusivity period); `null` if not executable
+  sponsor: "anyone" | "namespaceOwner" | null;
+  // Everything that prevents the registration; empty if executable
+  blockers: AuthorizationBlocker[];
+  // Current name of the recipient ("" if none)
+  recipientName: string;
+  // Current owner of the name (zero address if not registered)
+  nameOwner: string;
+  // Owner of the namespace (zero address if the namespace does not exist)
+  namespaceOwner: string;
+}
+
+export interface AuthorizationAudit {
+  blockNumber: number;
+  // Block timestamp in seconds
+  timestamp: number;
+  entries: AuthorizationAuditEntry[];
+}
+
+/**
+ * Checks whether issued authorizations could still be submitted
+ * EIP-1271 signatures are checked again because the recipient contract may have changed its signers since.
+ * @param client The XNS client
+ * @param authorizations The issued authorizations (auth and signature)
+ * @param options Multicall3 address and chunk size (the block tag is set to the latest block)
+ */
+export async function auditAuthorizations(
+  client: XnsClient,
+  authorizations: IssuedAuthorization[],
+  options: Omit<MulticallOptions, "blockTag"> = {},
+): Promise<AuthorizationAudit> {
+  const block = await client.provider.getBlock("latest");
+  if (!block) {
+    throw new Error("Could not read the latest block");
+  }
+  const exclusivityPeriod: bigint = await client.contract.getFunction(
+    "EXCLUSIVITY_PERIOD",
+  )({ blockTag: block.number });
+
+  const { interface: xns } = client.contract;
+  const call = (name: string, args: unknown[]): MulticallCall => ({
+    target: client.address,
+    callData: xns.encodeFunctionData(name, args),
+  });
+  const namespaces = [
+    ...new Set(authorizations.map(({ auth }) => auth.namespace)),
+  ];
+  const calls = [
+    ...namespaces.map((namespace) => call("getNamespaceInfo", [namespace])),
+    ...authorizations.flatMap(({ auth, signature }) => [
+      call("getName", [auth.recipient]),
+      call("getAddress(string,string)", [auth.label, auth.namespace]),
+      call("isValidSignature", [toRegisterNameAuthTuple(auth), signature]),
+    ]),
+  ];
+  const results = await multicall(client.runner, calls, {
+    ...options,
+    blockTag: block.number,
+  });
+
+  const decode = (index: number, name: string) => {
+    const result = results[index];
+    if (!result.success) {
+      throw new Error(`Could not read ${name}: ${result.error}`);
+    }
+    return xns.decodeFunctionResult(name, result.returnData);
+  };
+  const namespaceInfos = new Map<
+    string,
+    Pick<NamespaceInfo, "owner" | "createdAt" | "isPrivate"> | null
+  >(
+    namespaces.map((namespace, i) => {
+      const result = results[i];
+      if (!result.success) {
+        // `getNamespaceInfo` reverts with "XNS: namespace not found"
+        return [namespace, null];
+      }
+      const [, owner, createdAt, isPrivate] = decode(i, "getNamespaceInfo");
+      return [namespace, { owner, createdAt, isPrivate }];
+    }),
+  );
+
+  const entries = authorizations.map(({ auth, signature }, i) => {
+    const offset = namespaces.length + i * 3;
+    const recipientName: string = decode(offset, "getName")[0];
+    const nameOwner: string = decode(
+      offset + 1,
+      "getAddress(string,string)",
+    )[0];
+    // A malformed signature can make the recipient contract revert
+    const signatureResult = results[offset + 2];
+    const isValidSignature =
+      signatureResult.success &&
+      decode(offset + 2, "isValidSignature")[0] === true;
+    const namespace = namespaceInfos.get(auth.namespace)!;
+    const fullName = formatXnsName(auth.label, auth.namespace);
+
+    const blockers: AuthorizationBlocker[] = [];
+    if (auth.recipient === ZeroAddress) {
+      blockers.push({
+        kind: "ZERO_RECIPIENT",
+        description: "recipient is the zero address",
+      });
+    }
+    const label = validateLabel(auth.label);
+    if (!label.isValid) {
+      blockers.push({
+        kind: "INVALID_LABEL",
+        description: `invalid label: ${label.errors.map((e) => e.message).join(", ")}`,
+      });
+    }
+    if (namespace === null) {
+      blockers.push({
+        kind: "NAMESPACE_NOT_FOUND",
+        description: `namespace "${auth.namespace}" does not exist`,
+      });
+    }
+    if (
+      nameOwner !== ZeroAddress &&
+      getAddress(nameOwner) === getAddress(auth.recipient)
+    ) {
+      blockers.push({
+        kind: "ALREADY_USED",
+        description: `${fullName} is already registered to the recipient`,
+      });
+    } else {
+      if (recipientName !== "") {
+        blockers.push({
+          kind: "RECIPIENT_HAS_NAME",
+          description: `recipient already has the name ${recipientName}`,
+        });
+      }
+      if (nameOwner !== ZeroAddress) {
+        blockers.push({
+          kind: "NAME_TAKEN",
+          description: `${fullName} is registered to ${nameOwner}`,
+        });
+      }
+    }
+    if (!isValidSignature) {
+      blockers.push({
+        kind: "INVALID_SIGNATURE",
+        description: "signature is not (or no longer) accepted",
+      });
+    }
+
+    const executable = blockers.length === 0;
+    const ownerOnly =
+      namespace !== null &&
+      (namespace.isPrivate ||
+        BigInt(block.timestamp) <= namespace.createdAt + exclusivityPeriod);
+    return {
+      auth,
+      signature,
+      executable,
+      sponsor: executable
+        ? ownerOnly
+          ? ("namespaceOwner" as const)
+          : ("anyone" as const)
+        : null,
+      blockers,
+      recipientName,
+      nameOwner,
+      namespaceOwner: namespace?.owner ?? ZeroAddress,
+    };
+  });
+
+  return { blockNumber: block.number, timestamp: block.timestamp, entries };
+}
+
+/**
+ * Audits the signed entries of authorization bundles (unsigned entries are ignored)
+ * @param client The XNS client of the deployment the bundles were created for
+ * @param bundles The bundles the signatures were collected in
+ */
+export async function auditAuthorizationBundles(
+  client: XnsClient,
+  bundles: AuthorizationBundle[],
+): Promise<AuthorizationAudit> {
+  const domain = await getXnsTypedDataDomain(client);
+  for (const bundle of bundles) {
+    if (
+      bundle.domain.chainId !== domain.chainId ||
+      getAddress(bundle.domain.verifyingContract) !==
+        getAddress(domain.verifyingContract)
+    ) {
+      throw new Error(
+        `Bundle is for XNS ${bundle.domain.verifyingContract} on chain ID ${bundle.domain.chainId}; audit it against that deployment`,
+      );
+    }
+  }
+  return await auditAuthorizations(
+    client,
+    bundles.flatMap((bundle) =>
+      bundle.entries.flatMap(({ auth, signature }) =>
+        signature === null ? [] : [{ auth, signature }],
+      ),
+    ),
+  );
+}
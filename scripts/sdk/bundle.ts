@@ -0,0 +1,512 @@
+/**
+ * Authorization bundles
+ * A versioned JSON file that collects `RegisterNameAuth` requests and the recipients' signatures for a sponsor:
+ * the sponsor creates a bundle of unsigned requests, recipients sign their entries (e.g. via the exported typed
+ * data, see `typedData.ts`), the signed bundles are merged back and the result is submitted with
+ * `batchRegisterNameWithAuthorization`.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import {
+  Signer,
+  ZeroAddress,
+  getAddress,
+  isAddress,
+  isHexString,
+} from "ethers";
+import { ConfirmationResult, waitForConfirmations } from "./confirmations";
+import { DecodedNameRegistered, decodeReceipt } from "./receipts";
+import { RegisterNameAuth } from "./types";
+import {
+  SignRegisterNameAuthOptions,
+  XnsTypedDataDomain,
+  getXnsTypedDataDomain,
+  signRegisterNameAuthTypedData,
+} from "./typedData";
+import {
+  SignatureMismatch,
+  verifyRegisterNameAuthSignature,
+} from "./signatures";
+import { validateLabel } from "./validation";
+import { XnsClient } from "./XnsClient";
+
+export const AUTHORIZATION_BUNDLE_FORMAT = "xns-authorization-bundle";
+export const AUTHORIZATION_BUNDLE_VERSION = 1;
+
+export interface AuthorizationBundleMetadata {
+  // Who requested the signatures (e.g. the sponsor's address or team name)
+  requestedBy: string;
+  // ISO 8601 timestamp
+  createdAt: string;
+  description?: string;
+}
+
+export interface AuthorizationBundleEntry {
+  auth: RegisterNameAuth;
+  // `null` until the recipient has signed
+  signature: string | null;
+  // ISO 8601 timestamp of when the signature was added
+  signedAt?: string;
+}
+
+export interface AuthorizationBundle {
+  format: typeof AUTHORIZATION_BUNDLE_FORMAT;
+  version: typeof AUTHORIZATION_BUNDLE_VERSION;
+  // EIP-712 domain the signatures are made for
+  domain: XnsTypedDataDomain;
+  metadata: AuthorizationBundleMetadata;
+  entries: AuthorizationBundleEntry[];
+}
+
+export interface BundleEntryValidation extends AuthorizationBundleEntry {
+  status: "unsigned" | "valid" | "invalid";
+  // Why the entry cannot be submitted (invalid label, zero recipient, rejected signature)
+  errors: string[];
+  // Mistakes that explain a rejected signature (see `verifyRegisterNameAuthSignature`)
+  mismatches: SignatureMismatch[];
+}
+
+export interface BundleValidation {
+  // `true` if every entry is signed and valid and there are no bundle errors
+  ok: boolean;
+  // Problems of the bundle as a whole (domain of another deployment, duplicate recipients)
+  errors: string[];
+  entries: BundleEntryValidation[];
+}
+
+/**
+ * Returns a string identifying the registration of an entry (recipient, label and namespace)
+ */
+function entryKey(auth: RegisterNameAuth): string {
+  return `${auth.recipient.toLowerCase()}:${auth.label}:${auth.namespace}`;
+}
+
+/**
+ * Creates a bundle of unsigned registration requests
+ * @param domain The EIP-712 domain of the XNS deployment (see `getXnsTypedDataDomain`)
+ * @param auths The registrations to request
+ * @param metadata Who requested the signatures; `createdAt` defaults to now
+ */
+export function createAuthorizationBundle(
+  domain: XnsTypedDataDomain,
+  auths: RegisterNameAuth[],
+  metadata: Omit<AuthorizationBundleMetadata, "createdAt"> & {
+    createdAt?: string;
+  },
+): AuthorizationBundle {
+  return {
+    format: AUTHORIZATION_BUNDLE_FORMAT,
+    version: AUTHORIZATION_BUNDLE_VERSION,
+    domain,
+    metadata: {
+      ...metadata,
+      createdAt: metadata.createdAt ?? new Date().toISOString(),
+    },
+    entries: auths.map((auth) => ({
+      auth: {
+        recipient: getAddress(auth.recipient),
+        label: auth.label,
+        namespace: auth.namespace,
+      },
+      signature: null,
+    })),
+  };
+}
+
+/**
+ * Parses a bundle and checks its structure
+ * @param json The bundle JSON
+ * @throws If the JSON is not an authorization bundle of a supported version
+ */
+export function parseAuthorizationBundle(json: string): AuthorizationBundle {
+  const data = JSON.parse(json);
+  if (data?.format !== AUTHORIZATION_BUNDLE_FORMAT) {
+    throw new Error("Not an XNS authorization bundle");
+  }
+  if (data.version !== AUTHORIZATION_BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported authorization bundle version: ${data.version} (expected ${AUTHORIZATION_BUNDLE_VERSION})`,
+    );
+  }
+
+  const { domain, metadata, entries } = data;
+  if (
+    typeof domain?.name !== "string" ||
+    typeof domain.version !== "string" ||
+    !Number.isInteger(domain.chainId) ||
+    !isAddress(domain.verifyingContract)
+  ) {
+    throw new Error("Invalid authorization bundle: bad domain");
+  }
+  if (
+    typeof metadata?.requestedBy !== "string" ||
+    typeof metadata.createdAt !== "string"
+  ) {
+    throw new Error("Invalid authorization bundle: bad metadata");
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error("Invalid authorization bundle: entries must be an array");
+  }
+  entries.forEach((entry, i) => {
+    if (
+      !isAddress(entry?.auth?.recipient) ||
+      typeof entry.auth.label !== "string" ||
+      typeof entry.auth.namespace !== "string" ||
+      (entry.signature !== null && !isHexString(entry.signature))
+    ) {
+      throw new Error(`Invalid authorization bundle: bad entry ${i}`);
+    }
+  });
+
+  return data as AuthorizationBundle;
+}
+
+/**
+ * Reads a bundle from a JSON file
+ * @param path The file path
+ */
+export function readAuthorizationBundle(path: string): AuthorizationBundle {
+  if (!existsSync(path)) {
+    throw new Error(`Authorization bundle not found: ${path}`);
+  }
+  return parseAuthorizationBundle(readFileSync(path, "utf8"));
+}
+
+/**
+ * Writes a bundle to a JSON file (overwrites existing files)
+ * @param path The file path
+ * @param bundle The bundle
+ */
+export function writeAuthorizationBundle(
+  path: string,
+  bundle: AuthorizationBundle,
+): void {
+  writeFileSync(path, `${JSON.stringify(bundle, null, 2)}\n`);
+}
+
+/**
+ * Merges bundles of the same domain, e.g. the copies recipients returned with their signature
+ * Entries are matched by recipient, label and namespace; a signed entry replaces an unsigned one and entries
+ * missing in `base` are appended. The metadata of `base` is kept.
+ * @param base The bundle to merge into
+ * @param others The bundles to merge
+ * @throws If a bundle is for another domain or an entry has two different signatures
+ */
+export function mergeAuthorizationBundles(
+  base: AuthorizationBundle,
+  ...others: AuthorizationBundle[]
+): AuthorizationBundle {
+  const entries = base.entries.map((entry) => ({ ...entry }));
+  const index = new Map(entries.map((entry) => [entryKey(entry.auth), entry]));
+
+  for (const other of others) {
+    if (
+      other.domain.chainId !== base.domain.chainId ||
+      getAddress(other.domain.verifyingContract) !==
+        getAddress(base.domain.verifyingContract)
+    ) {
+      throw new Error(
+        `Cannot merge authorization bundles of different domains (chain ID ${other.domain.chainId}, ${other.domain.verifyingContract})`,
+      );
+    }
+    for (const entry of other.entries) {
+      const existing = index.get(entryKey(entry.auth));
+      if (!existing) {
+        const added = { ...entry };
+        entries.push(added);
+        index.set(entryKey(entry.auth), added);
+      } else if (entry.signature !== null) {
+        if (
+          existing.signature !== null &&
+          existing.signature.toLowerCase() !== entry.signature.toLowerCase()
+        ) {
+          throw new Error(
+            `Conflicting signatures for ${entry.auth.label}.${entry.auth.namespace} (${entry.auth.recipient})`,
+          );
+        }
+        if (existing.signature === null) {
+          existing.signature = entry.signature;
+          existing.signedAt = entry.signedAt;
+        }
+      }
+    }
+  }
+
+  return { ...base, entries };
+}
+
+/**
+ * Adds a recipient's signature to the matching entry
+ * @param bundle The bundle
+ * @param auth The signed registration
+ * @param signature The signature
+ * @returns A new bundle
+ * @throws If the bundle has no entry for `auth`
+ */
+export function addBundleSignature(
+  bundle: AuthorizationBundle,
+  auth: RegisterNameAuth,
+  signature: string,
+): AuthorizationBundle {
+  const key = entryKey(auth);
+  if (!bundle.entries.some((entry) => entryKey(entry.auth) === key)) {
+    throw new Error(
+      `No entry for ${auth.label}.${auth.namespace} (${auth.recipient}) in the authorization bundle`,
+    );
+  }
+  return {
+    ...bundle,
+    entries: bundle.entries.map((entry) =>
+      entryKey(entry.auth) === key
+        ? { ...entry, signature, signedAt: new Date().toISOString() }
+        : entry,
+    ),
+  };
+}
+
+/**
+ * Signs entries of a bundle with a signer (the recipient, or the account an EIP-1271 recipient accepts)
+ * @param bundle The bundle
+ * @param signer The signer
+ * @param recipients The recipients to sign for; defaults to the signer's own address
+ * @param options The signing scheme of the delegate if the signer is an EIP-7702 delegated account
+ * @returns A new bundle with the signatures added
+ */
+export async function signAuthorizationBundle(
+  bundle: AuthorizationBundle,
+  signer: Signer,
+  recipients?: string[],
+  options: SignRegisterNameAuthOptions = {},
+): Promise<AuthorizationBundle> {
+  const targets = new Set(
+    (recipients ?? [await signer.getAddress()]).map((r) => r.toLowerCase()),
+  );
+  let signed = bundle;
+  for (const { auth } of bundle.entries) {
+    if (!targets.has(auth.recipient.toLowerCase())) {
+      continue;
+    }
+    const signature = await signRegisterNameAuthTypedData(
+      signer,
+      bundle.domain,
+      auth,
+      options,
+    );
+    signed = addBundleSignature(signed, auth, signature);
+  }
+  return signed;
+}
+
+/**
+ * Validates a bundle against an XNS deployment
+ * Signatures are checked for the client's deployment (not the domain stored in the bundle) with
+ * `verifyRegisterNameAuthSignature`, so a rejected signature comes with the likely mistake.
+ * @param client The XNS client of the deployment the bundle will be submitted to
+ * @param bundle The bundle
+ */
+export async function validateAuthorizationBundle(
+  client: XnsClient,
+  bundle: AuthorizationBundle,
+): Promise<BundleValidation> {
+  const domain = await getXnsTypedDataDomain(client);
+  const errors: string[] = [];
+  if (
+    bundle.domain.chainId !== domain.chainId ||
+    getAddress(bundle.domain.verifyingContract) !==
+      getAddress(domain.verifyingContract)
+  ) {
+    errors.push(
+      `bundle is for XNS ${bundle.domain.verifyingContract} on chain ID ${bundle.domain.chainId}, not ${domain.verifyingContract} on chain ID ${domain.chainId}`,
+    );
+  }
+
+  const recipients = new Set<string>();
+  for (const { auth } of bundle.entries) {
+    const recipient = auth.recipient.toLowerCase();
+    if (recipients.has(recipient)) {
+      errors.push(`recipient ${auth.recipient} appears more than once`);
+    }
+    recipients.add(recipient);
+  }
+
+  const entries: BundleEntryValidation[] = [];
+  for (const entry of bundle.entries) {
+    const entryErrors: string[] = [];
+    let mismatches: SignatureMismatch[] = [];
+
+    const label = validateLabel(entry.auth.label);
+    if (!label.isValid) {
+      entryErrors.push(
+        `invalid label: ${label.errors.map((e) => e.message).join(", ")}`,
+      );
+    }
+    if (entry.auth.recipient === ZeroAddress) {
+      entryErrors.push("zero address recipient");
+    }
+    if (entry.signature !== null && entry.auth.recipient !== ZeroAddress) {
+      const verification = await verifyRegisterNameAuthSignature(
+        client,
+        entry.auth,
+        entry.signature,
+      );
+      if (!verification.isValid) {
+        entryErrors.push(verification.error!);
+        mismatches = verification.mismatches;
+      }
+    }
+
+    entries.push({
+      ...entry,
+      status:
+        entryErrors.length > 0
+          ? "invalid"
+          : entry.signature === null
+            ? "unsigned"
+            : "valid",
+      errors: entryErrors,
+      mismatches,
+    });
+  }
+
+  return {
+    ok:
+      errors.length === 0 && entries.every((entry) => entry.status === "valid"),
+    errors,
+    entries,
+  };
+}
+
+/**
+ * Returns the arguments of `batchRegisterNameWithAuthorization` for the signed entries of a bundle, grouped by
+ * namespace (the contract only accepts one namespace per batch)
+ * @param bundle The bundle (validate it first with `validateAuthorizationBundle`)
+ */
+export function getBundleBatches(
+  bundle: AuthorizationBundle,
+): { namespace: string; auths: RegisterNameAuth[]; signatures: string[] }[] {
+  const batches = new Map<
+    string,
+    { namespace: string; auths: RegisterNameAuth[]; signatures: string[] }
+  >();
+  for (const { auth, signature } of bundle.entries) {
+    if (signature === null) {
+      continue;
+    }
+    const batch = batches.get(auth.namespace) ?? {
+      namespace: auth.namespace,
+      auths: [],
+      signatures: [],
+    };
+    batch.auths.push(auth);
+    batch.signatures.push(signature);
+    batches.set(auth.namespace, batch);
+  }
+  return [...batches.values()];
+}
+
+export interface BundleBatch {
+  namespace: string;
+  // Entries that can still be registered, with their signatures
+  auths: RegisterNameAuth[];
+  signatures: string[];
+  // Entries left out because the name or the recipient was already registered
+  alreadyRegistered: RegisterNameAuth[];
+}
+
+/**
+ * Returns the batches `submitAuthorizationBundle` sends: the signed entries of a bundle grouped by namespace, without
+ * the entries whose name or recipient is already registered (e.g. to simulate them with `dryRun`)
+ * @param client The XNS client
+ * @param bundle The bundle (validate it first with `validateAuthorizationBundle`)
+ * @returns One batch per namespace with signed entries; `auths` is empty if none of them can be registered
+ */
+export async function getRegistrableBundleBatches(
+  client: XnsClient,
+  bundle: AuthorizationBundle,
+): Promise<BundleBatch[]> {
+  const batches: BundleBatch[] = [];
+  for (const batch of getBundleBatches(bundle)) {
+    const registrable: BundleBatch = {
+      namespace: batch.namespace,
+      auths: [],
+      signatures: [],
+      alreadyRegistered: [],
+    };
+    for (let i = 0; i < batch.auths.length; i++) {
+      const auth = batch.auths[i];
+      const [owner, name] = await Promise.all([
+        client.resolve(auth.label, auth.namespace),
+        client.reverseResolve(auth.recipient),
+      ]);
+      if (owner !== ZeroAddress || name !== "") {
+        registrable.alreadyRegistered.push(auth);
+      } else {
+        registrable.auths.push(auth);
+        registrable.signatures.push(batch.signatures[i]);
+      }
+    }
+    batches.push(registrable);
+  }
+  return batches;
+}
+
+export interface BundleSubmission {
+  namespace: string;
+  transactionHash: string;
+  // Entries sent in the batch
+  submitted: RegisterNameAuth[];
+  // Entries left out because the name or the recipient was already registered
+  alreadyRegistered: RegisterNameAuth[];
+  // Names registered by the batch (from the decoded receipt)
+  registered: DecodedNameRegistered[];
+  // Verdict of `waitForConfirmations`; `null` unless `confirmations` was given
+  confirmation: ConfirmationResult | null;
+}
+
+export interface SubmitAuthorizationBundleOptions {
+  // Confirmations to wait for after each batch before its names are checked (see `waitForConfirmations`)
+  confirmations?: number;
+}
+
+/**
+ * Submits the signed entries of a bundle with `batchRegisterNameWithAuthorization` (one transaction per namespace)
+ * Entries whose name or recipient is already registered are left out, so the sponsor only sends ETH for names
+ * that can still be registered. Validate the bundle first with `validateAuthorizationBundle`.
+ * @param client The XNS client connected to the sponsor's signer
+ * @param bundle The bundle
+ * @param options The confirmations to wait for after each batch
+ * @returns One submission per namespace; namespaces without registrable entries are not sent
+ */
+export async function submitAuthorizationBundle(
+  client: XnsClient,
+  bundle: AuthorizationBundle,
+  options: SubmitAuthorizationBundleOptions = {},
+): Promise<BundleSubmission[]> {
+  const submissions: BundleSubmission[] = [];
+  for (const batch of await getRegistrableBundleBatches(client, bundle)) {
+    if (batch.auths.length === 0) {
+      continue;
+    }
+
+    const tx = await client.batchRegisterNameWithAuthorization(
+      batch.auths,
+      batch.signatures,
+    );
+    const receipt = await tx.wait();
+    const { nameRegistrations } = await decodeReceipt(client, receipt!);
+    submissions.push({
+      namespace: batch.namespace,
+      transactionHash: tx.hash,
+      submitted: batch.auths,
+      alreadyRegistered: batch.alreadyRegistered,
+      registered: nameRegistrations,
+      confirmation:
+        options.confirmations === undefined
+          ? null
+          : await waitForConfirmations(client, tx.hash, {
+              confirmations: options.confirmations,
+            }),
+    });
+  }
+  return submissions;
+}
@@ -0,0 +1,316 @@
+/**
+ * Immutable-aware resolution cache
+ * XNS names are permanent and non-transferable: once `getAddress` returns a non-zero address (or `getName`
+ * a non-empty name), the result can never change and is cached forever. Negative results are tagged with
+ * the block number they were observed at and invalidated by later `NameRegistered` events (see `sync`).
+ * A registration can still be removed by a block reorganization until it is buried under enough blocks (see
+ * "Block Reorganization Risk" in DEV_NOTES), so lookups and `sync` read at the latest block with the configured
+ * number of confirmations rather than at the latest block.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { Log, ZeroAddress, getAddress, id } from "ethers";
+import { BARE_NAME_NAMESPACE } from "./constants";
+import { formatXnsName, parseXnsName } from "./names";
+import { XnsClient } from "./XnsClient";
+
+// Default maximum block range per `eth_getLogs` request in `sync`
+export const DEFAULT_MAX_BLOCK_RANGE = 10_000;
+
+// Default number of confirmations of the block lookups and `sync` read at
+export const DEFAULT_CACHE_CONFIRMATIONS = 12;
+
+export type CacheEntry =
+  // The address a name resolves to, or the name of an address; never changes
+  | { kind: "registered"; value: string }
+  // Not registered as of `blockNumber`; removed by `sync` if a later `NameRegistered` event matches
+  | { kind: "unregistered"; blockNumber: number };
+
+/**
+ * Storage backend of a `ResolutionCache`; use one store per XNS deployment
+ */
+export interface ResolutionCacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  entries(): [string, CacheEntry][];
+  // Last block whose `NameRegistered` events have been applied by `sync`
+  getSyncedBlock(): number | undefined;
+  setSyncedBlock(blockNumber: number): void;
+}
+
+export class MemoryCacheStore implements ResolutionCacheStore {
+  protected cache = new Map<string, CacheEntry>();
+  protected syncedBlock: number | undefined;
+
+  get(key: string): CacheEntry | undefined {
+    return this.cache.get(key);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.cache.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.cache.delete(key);
+  }
+
+  entries(): [string, CacheEntry][] {
+    return [...this.cache.entries()];
+  }
+
+  getSyncedBlock(): number | undefined {
+    return this.syncedBlock;
+  }
+
+  setSyncedBlock(blockNumber: number): void {
+    this.syncedBlock = blockNumber;
+  }
+}
+
+/**
+ * Memory store that is loaded from and written back to a JSON file on every change
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  readonly path: string;
+
+  /**
+   * @param path The JSON file to persist the cache to (created on the first write)
+   */
+  constructor(path: string) {
+    super();
+    this.path = path;
+    if (existsSync(path)) {
+      const data = JSON.parse(readFileSync(path, "utf8"));
+      this.cache = new Map(Object.entries(data.entries));
+      this.syncedBlock = data.syncedBlock ?? undefined;
+    }
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    super.set(key, entry);
+    this.save();
+  }
+
+  delete(key: string): void {
+    super.delete(key);
+    this.save();
+  }
+
+  setSyncedBlock(blockNumber: number): void {
+    super.setSyncedBlock(blockNumber);
+    this.save();
+  }
+
+  private save(): void {
+    const data = {
+      syncedBlock: this.syncedBlock ?? null,
+      entries: Object.fromEntries(this.cache),
+    };
+    writeFileSync(this.path, JSON.stringify(data, null, 2));
+  }
+}
+
+/**
+ * Returns the cache key of a name, built from the same hashes as the indexed `NameRegistered` topics
+ * @param label The label part of the name
+ * @param namespace The namespace part of the name; empty string or "x" for bare names
+ */
+function nameKey(label: string, namespace: string): string {
+  return `name:${id(label)}:${id(namespace || BARE_NAME_NAMESPACE)}`;
+}
+
+/**
+ * Returns the cache key of an address (checksum-independent)
+ * @param address The address
+ */
+function addressKey(address: string): string {
+  return `address:${address.toLowerCase()}`;
+}
+
+export interface ResolutionCacheOptions {
+  // Number of blocks on top of and including the block read at (1 = the latest block)
+  confirmations?: number;
+}
+
+export class ResolutionCache {
+  readonly client: XnsClient;
+  readonly store: ResolutionCacheStore;
+  readonly confirmations: number;
+
+  /**
+   * @param client The XNS client used on cache misses
+   * @param store The storage backend; defaults to an in-memory store
+   * @param options The confirmation depth; defaults to `DEFAULT_CACHE_CONFIRMATIONS`
+   */
+  constructor(
+    client: XnsClient,
+    store: ResolutionCacheStore = new MemoryCacheStore(),
+    options: ResolutionCacheOptions = {},
+  ) {
+    const confirmations = options.confirmations ?? DEFAULT_CACHE_CONFIRMATIONS;
+    if (!Number.isInteger(confirmations) || confirmations < 1) {
+      throw new Error(
+        `ResolutionCache: invalid number of confirmations ${confirmations}`,
+      );
+    }
+    this.client = client;
+    this.store = store;
+    this.confirmations = confirmations;
+  }
+
+  /**
+   * Returns the latest block with the configured number of confirmations
+   */
+  private async getConfirmedBlockNumber(): Promise<number> {
+    const latest = await this.client.provider.getBlockNumber();
+    return Math.max(latest - this.confirmations + 1, 0);
+  }
+
+  /**
+   * Same as `XnsClient.resolve`, served from the cache if possible
+   * @param label The label part of the name
+   * @param namespace The namespace part of the name; empty string or "x" for bare names
+   * @returns The owner address, or the zero address if the name was not registered (with the configured number of
+   * confirmations) when last observed
+   */
+  async resolve(label: string, namespace: string): Promise<string> {
+    const key = nameKey(label, namespace);
+    const entry = this.store.get(key);
+    if (entry) {
+      return entry.kind === "registered" ? entry.value : ZeroAddress;
+    }
+
+    const blockNumber = await this.getConfirmedBlockNumber();
+    const owner: string = await this.client.contract.getFunction(
+      "getAddress(string,string)",
+    )(label, namespace, { blockTag: blockNumber });
+
+    if (owner === ZeroAddress) {
+      this.store.set(key, { kind: "unregistered", blockNumber });
+    } else {
+      this.store.set(key, { kind: "registered", value: owner });
+      // An address can only ever have this one name
+      this.store.set(addressKey(owner), {
+        kind: "registered",
+        value: formatXnsName(label, namespace),
+      });
+    }
+    return owner;
+  }
+
+  /**
+   * Same as `XnsClient.resolveFullName`, served from the cache if possible
+   * @param fullName The full name to resolve (e.g. "alice.xns" or "vitalik")
+   */
+  async resolveFullName(fullName: string): Promise<string> {
+    const parsed = parseXnsName(fullName);
+    // Names with an empty namespace (e.g. "alice.") never resolve via `getAddress(fullName)`
+    if (!parsed || parsed.namespace === "") {
+      return ZeroAddress;
+    }
+    return await this.resolve(parsed.label, parsed.namespace);
+  }
+
+  /**
+   * Same as `XnsClient.reverseResolve`, served from the cache if possible
+   * @param address The address to look up
+   * @returns The name, or an empty string if the address had no name (with the configured number of confirmations)
+   * when last observed
+   */
+  async reverseResolve(address: string): Promise<string> {
+    const key = addressKey(address);
+    const entry = this.store.get(key);
+    if (entry) {
+      return entry.kind === "registered" ? entry.value : "";
+    }
+
+    const blockNumber = await this.getConfirmedBlockNumber();
+    const name: string = await this.client.contract.getFunction("getName")(
+      address,
+      { blockTag: blockNumber },
+    );
+
+    if (name === "") {
+      this.store.set(key, { kind: "unregistered", blockNumber });
+    } else {
+      this.store.set(key, { kind: "registered", value: name });
+    }
+    return name;
+  }
+
+  /**
+   * Fetches the `NameRegistered` events since the last sync (or since the oldest negative entry) and
+   * removes the negative entries they invalidate. Call periodically (e.g. once per block) to make sure
+   * newly registered names are picked up
+   * @param toBlock The last block to sync; defaults to the latest block with the configured number of confirmations
+   * @param maxBlockRange The maximum block range per `eth_getLogs` request
+   * @returns The number of invalidated entries
+   */
+  async sync(
+    toBlock?: number,
+    maxBlockRange: number = DEFAULT_MAX_BLOCK_RANGE,
+  ): Promise<number> {
+    const provider = this.client.provider;
+    const lastBlock = toBlock ?? (await this.getConfirmedBlockNumber());
+
+    const negativeBlocks = this.store
+      .entries()
+      .flatMap(([, entry]) =>
+        entry.kind === "unregistered" ? [entry.blockNumber] : [],
+      );
+    const syncedBlock =
+      this.store.getSyncedBlock() ??
+      (negativeBlocks.length > 0 ? Math.min(...negativeBlocks) : lastBlock);
+
+    const topic =
+      this.client.contract.interface.getEvent("NameRegistered")!.topicHash;
+    let invalidated = 0;
+    for (
+      let fromBlock = syncedBlock + 1;
+      fromBlock <= lastBlock;
+      fromBlock += maxBlockRange
+    ) {
+      const logs = await provider.getLogs({
+        address: this.client.address,
+        topics: [topic],
+        fromBlock,
+        toBlock: Math.min(fromBlock + maxBlockRange - 1, lastBlock),
+      });
+      for (const log of logs) {
+        invalidated += this.invalidate(log);
+      }
+    }
+
+    if (lastBlock > (this.store.getSyncedBlock() ?? -1)) {
+      this.store.setSyncedBlock(lastBlock);
+    }
+    return invalidated;
+  }
+
+  /**
+   * Removes the negative entries (name and owner address) a `NameRegistered` log invalidates
+   * @param log The raw `NameRegistered` log
+   * @returns The number of invalidated entries
+   */
+  private invalidate(log: Log): number {
+    const [, labelHash, namespaceHash, ownerTopic] = log.topics;
+    const owner = getAddress(`0x${ownerTopic.slice(26)}`);
+
+    let invalidated = 0;
+    for (const key of [
+      `name:${labelHash}:${namespaceHash}`,
+      addressKey(owner),
+    ]) {
+      const entry = this.store.get(key);
+      if (
+        entry?.kind === "unregistered" &&
+        entry.blockNumber < log.blockNumber
+      ) {
+        this.store.delete(key);
+        invalidated++;
+      }
+    }
+    return invalidated;
+  }
+}
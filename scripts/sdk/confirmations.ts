@@ -0,0 +1,187 @@
+/**
+ * Confirmation-depth policy for registrations
+ * A registration that is removed by a block reorganization can be front-run, so a new name should only be shared
+ * once it is buried under enough blocks and resolves as intended (see "Block Reorganization Risk" in DEV_NOTES).
+ * `waitForConfirmations` follows a transaction until it has the requested number of confirmations, noting blocks
+ * it was reorganized out of, and then checks every name it registered with `getAddress` and `getName` at the
+ * confirmed block.
+ */
+
+import { TransactionReceipt, ZeroAddress } from "ethers";
+import { decodeReceipt } from "./receipts";
+import { XnsClient } from "./XnsClient";
+
+// Default milliseconds between polls for new blocks
+export const DEFAULT_CONFIRMATION_POLL_INTERVAL = 4000;
+
+// Default milliseconds after which waiting stops (local networks without automatic mining never confirm)
+export const DEFAULT_CONFIRMATION_TIMEOUT = 15 * 60 * 1000;
+
+export interface ConfirmationPolicy {
+  // Number of blocks on top of and including the transaction's block (1 = mined)
+  confirmations: number;
+  // Milliseconds after which waiting stops with `TIMEOUT` (or `REORGED_OUT`); defaults to
+  // `DEFAULT_CONFIRMATION_TIMEOUT`
+  timeout?: number;
+  // Milliseconds between polls for new blocks
+  pollInterval?: number;
+}
+
+export type ConfirmationStatus =
+  // Confirmed, and every name resolves to its owner and back at the confirmed block
+  | "SAFE_TO_SHARE"
+  // Confirmed, but a name does not resolve as registered at the confirmed block
+  | "NAME_MISMATCH"
+  // Confirmed, but the transaction registered no names (e.g. every item of a batch was skipped)
+  | "NO_NAMES_REGISTERED"
+  | "REVERTED"
+  // Never mined and unknown to the node (dropped or replaced)
+  | "DROPPED"
+  // Mined, then removed by a reorganization and not mined again
+  | "REORGED_OUT"
+  // Not confirmed before the timeout
+  | "TIMEOUT";
+
+export interface ConfirmedName {
+  // As returned by `getName`; `null` if the plaintext could not be recovered
+  name: string | null;
+  owner: string;
+  // `getAddress(name)` at the confirmed block
+  resolvedAddress: string;
+  // `getName(owner)` at the confirmed block
+  reverseName: string;
+  ok: boolean;
+}
+
+export interface ConfirmationResult {
+  transactionHash: string;
+  status: ConfirmationStatus;
+  safeToShare: boolean;
+  // The block of the transaction; `null` if it is not mined
+  blockNumber: number | null;
+  // The block the names were checked at (`blockNumber + confirmations - 1`)
+  confirmedBlock: number | null;
+  confirmations: number;
+  // The blocks the transaction was mined in before a reorganization removed it from them
+  reorgs: { blockNumber: number; blockHash: string }[];
+  // The names registered by the transaction; empty unless the transaction was confirmed
+  names: ConfirmedName[];
+}
+
+/**
+ * Checks the names registered by a transaction at a block
+ */
+async function checkNames(
+  client: XnsClient,
+  receipt: TransactionReceipt,
+  blockTag: number,
+): Promise<ConfirmedName[]> {
+  const { nameRegistrations } = await decodeReceipt(client, receipt);
+  return await Promise.all(
+    nameRegistrations.map(async ({ fullName, owner }) => {
+      const [resolvedAddress, reverseName]: [string, string] =
+        await Promise.all([
+          fullName === null
+            ? ZeroAddress
+            : client.contract.getFunction("getAddress(string)")(fullName, {
+                blockTag,
+              }),
+          client.contract.getFunction("getName")(owner, { blockTag }),
+        ]);
+      return {
+        name: fullName,
+        owner,
+        resolvedAddress,
+        reverseName,
+        ok:
+          fullName !== null &&
+          resolvedAddress === owner &&
+          reverseName === fullName,
+      };
+    }),
+  );
+}
+
+/**
+ * Waits until a transaction has the number of confirmations of a policy and verifies its names at the
+ * confirmed block
+ * @param client The XNS client
+ * @param transactionHash The hash of the registration transaction
+ * @param policy The number of confirmations, timeout and poll interval
+ * @returns The verdict; `safeToShare` is only set for `SAFE_TO_SHARE`
+ */
+export async function waitForConfirmations(
+  client: XnsClient,
+  transactionHash: string,
+  policy: ConfirmationPolicy,
+): Promise<ConfirmationResult> {
+  const provider = client.provider;
+  const pollInterval =
+    policy.pollInterval ?? DEFAULT_CONFIRMATION_POLL_INTERVAL;
+  const deadline =
+    Date.now() + (policy.timeout ?? DEFAULT_CONFIRMATION_TIMEOUT);
+
+  const reorgs: ConfirmationResult["reorgs"] = [];
+  let mined: { blockNumber: number; blockHash: string } | null = null;
+  const result = (
+    status: ConfirmationStatus,
+    confirmedBlock: number | null = null,
+    names: ConfirmedName[] = [],
+  ): ConfirmationResult => ({
+    transactionHash,
+    status,
+    safeToShare: status === "SAFE_TO_SHARE",
+    blockNumber: mined?.blockNumber ?? null,
+    confirmedBlock,
+    confirmations: policy.confirmations,
+    reorgs,
+    names,
+  });
+
+  for (;;) {
+    const receipt = await provider.getTransactionReceipt(transactionHash);
+    if (!receipt) {
+      if (mined) {
+        reorgs.push(mined);
+        mined = null;
+      }
+      if (!(await provider.getTransaction(transactionHash))) {
+        return result(reorgs.length > 0 ? "REORGED_OUT" : "DROPPED");
+      }
+    } else {
+      if (mined && mined.blockHash !== receipt.blockHash) {
+        reorgs.push(mined);
+      }
+      mined = {
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+      };
+      if (receipt.status === 0) {
+        return result("REVERTED");
+      }
+
+      const confirmedBlock = receipt.blockNumber + policy.confirmations - 1;
+      if ((await provider.getBlockNumber()) >= confirmedBlock) {
+        // The receipt may be from before a reorganization that happened in the meantime
+        const block = await provider.getBlock(receipt.blockNumber);
+        if (block?.hash === receipt.blockHash) {
+          const names = await checkNames(client, receipt, confirmedBlock);
+          return result(
+            names.length === 0
+              ? "NO_NAMES_REGISTERED"
+              : names.every((name) => name.ok)
+                ? "SAFE_TO_SHARE"
+                : "NAME_MISMATCH",
+            confirmedBlock,
+            names,
+          );
+        }
+      }
+    }
+
+    if (Date.now() + pollInterval > deadline) {
+      return result(mined || reorgs.length === 0 ? "TIMEOUT" : "REORGED_OUT");
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+}
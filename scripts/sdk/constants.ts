@@ -0,0 +1,13 @@
+/**
+ * Protocol constants mirrored from XNS.sol
+ * Must be kept in sync with the contract
+ */
+
+// Maximum length (in bytes) of a label or namespace
+export const MAX_LABEL_OR_NAMESPACE_LENGTH = 20;
+
+// Namespace that cannot be registered to avoid confusion with ENS
+export const FORBIDDEN_NAMESPACE = "eth";
+
+// Namespace associated with bare names (e.g. "vitalik" = "vitalik.x")
+export const BARE_NAME_NAMESPACE = "x";
@@ -0,0 +1,498 @@
+/**
+ * Dry runs of state-changing XNS functions
+ * A dry run executes the call with `staticCall` and `estimateGas` instead of sending it, and predicts what the
+ * transaction would do: the events it would emit, the amount burned via DETH, the fees credited per address and
+ * the refund. Reverts are thrown as typed errors, like the write functions of `XnsClient`. The call and all
+ * reads are pinned to the latest block.
+ */
+
+import {
+  BlockTag,
+  Overrides,
+  Signer,
+  ZeroAddress,
+  getAddress,
+  getBigInt,
+  id,
+  resolveAddress,
+} from "ethers";
+import { XnsErrorContext } from "./errors";
+import { formatXnsName } from "./names";
+import { splitPayment } from "./quote";
+import { DecodedXnsEvent } from "./receipts";
+import { RegisterNameAuth } from "./types";
+import { XnsClient, toRegisterNameAuthTuple } from "./XnsClient";
+
+export type DryRunCall =
+  | { method: "registerName"; label: string; namespace: string }
+  | {
+      method: "registerNameWithAuthorization";
+      auth: RegisterNameAuth;
+      signature: string;
+    }
+  | {
+      method: "batchRegisterNameWithAuthorization";
+      auths: RegisterNameAuth[];
+      signatures: string[];
+    }
+  | {
+      method: "registerPublicNamespace" | "registerPrivateNamespace";
+      namespace: string;
+      pricePerName: bigint;
+    }
+  | {
+      method: "registerPublicNamespaceFor" | "registerPrivateNamespaceFor";
+      nsOwner: string;
+      namespace: string;
+      pricePerName: bigint;
+    }
+  | { method: "claimFees"; recipient: string }
+  | { method: "claimFeesToSelf" }
+  | {
+      method: "transferNamespaceOwnership";
+      namespace: string;
+      newOwner: string;
+    }
+  | { method: "acceptNamespaceOwnership"; namespace: string }
+  | { method: "transferOwnership"; newOwner: string }
+  | { method: "acceptOwnership" };
+
+// A decoded XNS event without its log position
+type PredictedEvent<T> = T extends unknown
+  ? Omit<T, "blockNumber" | "transactionHash" | "logIndex">
+  : never;
+
+export type PredictedXnsEvent =
+  | PredictedEvent<DecodedXnsEvent>
+  // `Ownable2Step` events of `transferOwnership` and `acceptOwnership`
+  | {
+      event: "OwnershipTransferStarted";
+      previousOwner: string;
+      newOwner: string;
+    }
+  | { event: "OwnershipTransferred"; previousOwner: string; newOwner: string };
+
+export interface FeeCredit {
+  address: string;
+  amount: bigint;
+}
+
+export interface DryRunResult {
+  method: DryRunCall["method"];
+  // The sender of the simulated transaction
+  from: string;
+  // The `msg.value` of the simulated transaction
+  value: bigint;
+  // Block the call and all reads were executed at
+  blockNumber: number;
+  gasEstimate: bigint;
+  // Events the transaction would emit, in log order
+  events: PredictedXnsEvent[];
+  // Amount sent to DETH (credited to `from`)
+  burn: bigint;
+  deth: string;
+  // Pending fees credited per address (the contract owner receives both shares of private namespaces and
+  // namespace registrations as a single credit)
+  feeCredits: FeeCredit[];
+  // Excess `msg.value` returned to `from`
+  refund: bigint;
+  // Return value of `batchRegisterNameWithAuthorization`; `null` for other functions
+  successfulCount: number | null;
+  // Batch items the contract would skip (recipient already has a name or name already registered)
+  skipped: RegisterNameAuth[];
+}
+
+interface EncodedCall {
+  args: unknown[];
+  value: bigint;
+  // Context of the typed error if the call reverts (same as the matching `XnsClient` write function)
+  context: XnsErrorContext;
+}
+
+/**
+ * Returns the sender of the simulated transaction: `overrides.from`, or the address of the client's signer
+ * @param client The XNS client
+ * @param overrides The transaction overrides
+ */
+async function getSender(
+  client: XnsClient,
+  overrides: Overrides,
+): Promise<string> {
+  if (overrides.from != null) {
+    return getAddress(await resolveAddress(overrides.from));
+  }
+  const signer = client.runner as Partial<Signer>;
+  if (typeof signer.getAddress !== "function") {
+    throw new Error(
+      "dryRun: connect the client to a signer or pass `overrides.from`",
+    );
+  }
+  return getAddress(await signer.getAddress());
+}
+
+/**
+ * Returns the arguments and `msg.value` of a call; the value defaults to the exact price like the write
+ * functions of `XnsClient`
+ */
+async function encodeCall(
+  client: XnsClient,
+  call: DryRunCall,
+  overrides: Overrides,
+  blockTag: BlockTag,
+): Promise<EncodedCall> {
+  const provided =
+    overrides.value == null ? undefined : getBigInt(overrides.value);
+  const read = (name: string): Promise<bigint> =>
+    client.contract.getFunction(name)({ blockTag });
+
+  switch (call.method) {
+    case "registerName":
+      return {
+        args: [call.label, call.namespace],
+        value: provided ?? (await client.getNamespacePrice(call.namespace)),
+        context: { label: call.label, namespace: call.namespace, provided },
+      };
+    case "registerNameWithAuthorization":
+      return {
+        args: [toRegisterNameAuthTuple(call.auth), call.signature],
+        value:
+          provided ?? (await client.getNamespacePrice(call.auth.namespace)),
+        context: {
+          label: call.auth.label,
+          namespace: call.auth.namespace,
+          address: call.auth.recipient,
+          provided,
+        },
+      };
+    case "batchRegisterNameWithAuthorization": {
+      if (call.auths.length === 0) {
+        throw new Error("dryRun: no registrations to process");
+      }
+      const namespace = call.auths[0].namespace;
+      return {
+        args: [call.auths.map(toRegisterNameAuthTuple), call.signatures],
+        value:
+          provided ??
+          (await client.getNamespacePrice(namespace)) *
+            BigInt(call.auths.length),
+        context: { namespace, provided },
+      };
+    }
+    case "registerPublicNamespace":
+    case "registerPrivateNamespace": {
+      const isPrivate = call.method === "registerPrivateNamespace";
+      return {
+        args: [call.namespace, call.pricePerName],
+        value:
+          provided ??
+          (await read(
+            isPrivate
+              ? "PRIVATE_NAMESPACE_REGISTRATION_FEE"
+              : "PUBLIC_NAMESPACE_REGISTRATION_FEE",
+          )),
+        context: { namespace: call.namespace, isPrivate, provided },
+      };
+    }
+    case "registerPublicNamespaceFor":
+    case "registerPrivateNamespaceFor":
+      return {
+        args: [call.nsOwner, call.namespace, call.pricePerName],
+        value: provided ?? 0n,
+        context: {
+          namespace: call.namespace,
+          address: call.nsOwner,
+          isPrivate: call.method === "registerPrivateNamespaceFor",
+        },
+      };
+    case "claimFees":
+      return {
+        args: [call.recipient],
+        value: provided ?? 0n,
+        context: { address: call.recipient },
+      };
+    case "transferNamespaceOwnership":
+      return {
+        args: [call.namespace, call.newOwner],
+        value: provided ?? 0n,
+        context: { namespace: call.namespace, address: call.newOwner },
+      };
+    case "acceptNamespaceOwnership":
+      return {
+        args: [call.namespace],
+        value: provided ?? 0n,
+        context: { namespace: call.namespace },
+      };
+    case "transferOwnership":
+      return {
+        args: [call.newOwner],
+        value: provided ?? 0n,
+        context: { address: call.newOwner },
+      };
+    case "claimFeesToSelf":
+    case "acceptOwnership":
+      return { args: [], value: provided ?? 0n, context: {} };
+  }
+}
+
+/**
+ * Predicts a `NameRegistered` event
+ */
+function nameRegistered(auth: RegisterNameAuth): PredictedXnsEvent {
+  return {
+    event: "NameRegistered",
+    label: auth.label,
+    namespace: auth.namespace,
+    fullName: formatXnsName(auth.label, auth.namespace),
+    labelHash: id(auth.label),
+    namespaceHash: id(auth.namespace),
+    owner: getAddress(auth.recipient),
+  };
+}
+
+/**
+ * Credits the two fee shares of a payment, merging them if both go to the same address
+ */
+function creditFees(
+  namespaceOwnerFeeRecipient: string,
+  namespaceOwnerFee: bigint,
+  protocolFeeRecipient: string,
+  protocolFee: bigint,
+): FeeCredit[] {
+  if (namespaceOwnerFeeRecipient === protocolFeeRecipient) {
+    return [
+      {
+        address: protocolFeeRecipient,
+        amount: namespaceOwnerFee + protocolFee,
+      },
+    ];
+  }
+  return [
+    { address: namespaceOwnerFeeRecipient, amount: namespaceOwnerFee },
+    { address: protocolFeeRecipient, amount: protocolFee },
+  ];
+}
+
+/**
+ * Simulates a state-changing XNS call with `staticCall` and `estimateGas` without sending a transaction
+ * Batch items that the contract would skip are determined from the state before the call (including
+ * recipients and names repeated within the batch) and checked against the returned `successfulCount`.
+ * @param client The XNS client, connected to the sender's signer (or pass `overrides.from`)
+ * @param call The function and its arguments
+ * @param overrides Transaction overrides; if `value` is omitted, the exact price is sent like the write
+ * functions of `XnsClient`
+ * @returns The predicted outcome of the transaction
+ * @throws Typed XNS errors (see `errors.ts`) if the call would revert
+ */
+export async function dryRun(
+  client: XnsClient,
+  call: DryRunCall,
+  overrides: Overrides = {},
+): Promise<DryRunResult> {
+  const provider = client.provider;
+  const [from, blockNumber] = await Promise.all([
+    getSender(client, overrides),
+    provider.getBlockNumber(),
+  ]);
+  const { args, value, context } = await encodeCall(
+    client,
+    call,
+    overrides,
+    blockNumber,
+  );
+
+  const fn = client.contract.getFunction(call.method);
+  const tx = { ...overrides, from, value };
+  let returned: unknown;
+  let gasEstimate: bigint;
+  try {
+    returned = await fn.staticCall(...args, { ...tx, blockTag: blockNumber });
+    gasEstimate = await fn.estimateGas(...args, tx);
+  } catch (error) {
+    throw (await client.decodeError(error, context)) ?? error;
+  }
+
+  const read = <T>(name: string, ...readArgs: unknown[]): Promise<T> =>
+    client.contract.getFunction(name)(...readArgs, { blockTag: blockNumber });
+  const [contractOwner, deth] = await Promise.all([
+    read<string>("owner"),
+    read<string>("DETH"),
+  ]);
+
+  const result: DryRunResult = {
+    method: call.method,
+    from,
+    value,
+    blockNumber,
+    gasEstimate,
+    events: [],
+    burn: 0n,
+    deth,
+    feeCredits: [],
+    refund: 0n,
+    successfulCount: null,
+    skipped: [],
+  };
+
+  // Processes a payment like `_processETHPayment`
+  const pay = (required: bigint, namespaceOwnerFeeRecipient: string) => {
+    const split = splitPayment(required);
+    result.burn = split.burn;
+    result.feeCredits = creditFees(
+      namespaceOwnerFeeRecipient,
+      split.namespaceOwnerFee,
+      contractOwner,
+      split.protocolFee,
+    );
+    result.refund = value - required;
+  };
+  // The fee recipient of name registrations in a namespace
+  const namespaceFeeRecipient = async (namespace: string) => {
+    const [pricePerName, owner, , isPrivate] = await read<
+      [bigint, string, bigint, boolean]
+    >("getNamespaceInfo", namespace);
+    return { pricePerName, recipient: isPrivate ? contractOwner : owner };
+  };
+
+  switch (call.method) {
+    case "registerName":
+    case "registerNameWithAuthorization": {
+      const auth =
+        call.method === "registerName"
+          ? { recipient: from, label: call.label, namespace: call.namespace }
+          : call.auth;
+      const ns = await namespaceFeeRecipient(auth.namespace);
+      result.events.push(nameRegistered(auth));
+      pay(ns.pricePerName, ns.recipient);
+      break;
+    }
+    case "batchRegisterNameWithAuthorization": {
+      const successfulCount = Number(returned);
+      const [ns, states] = await Promise.all([
+        namespaceFeeRecipient(call.auths[0].namespace),
+        Promise.all(
+          call.auths.map((auth) =>
+            Promise.all([
+              read<string>("getName", auth.recipient),
+              read<string>(
+                "getAddress(string,string)",
+                auth.label,
+                auth.namespace,
+              ),
+            ]),
+          ),
+        ),
+      ]);
+
+      const recipients = new Set<string>();
+      const names = new Set<string>();
+      for (const [i, auth] of call.auths.entries()) {
+        const [recipientName, nameOwner] = states[i];
+        const recipient = auth.recipient.toLowerCase();
+        const name = formatXnsName(auth.label, auth.namespace);
+        if (
+          recipientName !== "" ||
+          nameOwner !== ZeroAddress ||
+          recipients.has(recipient) ||
+          names.has(name)
+        ) {
+          result.skipped.push(auth);
+          continue;
+        }
+        recipients.add(recipient);
+        names.add(name);
+        result.events.push(nameRegistered(auth));
+      }
+      if (result.events.length !== successfulCount) {
+        throw new Error(
+          `dryRun: predicted ${result.events.length} registration(s) but the call returned ${successfulCount}`,
+        );
+      }
+
+      result.successfulCount = successfulCount;
+      if (successfulCount > 0) {
+        pay(ns.pricePerName * BigInt(successfulCount), ns.recipient);
+      } else {
+        result.refund = value;
+      }
+      break;
+    }
+    case "registerPublicNamespace":
+    case "registerPrivateNamespace": {
+      const isPrivate = call.method === "registerPrivateNamespace";
+      result.events.push({
+        event: "NamespaceRegistered",
+        namespace: call.namespace,
+        namespaceHash: id(call.namespace),
+        pricePerName: call.pricePerName,
+        owner: from,
+        isPrivate,
+      });
+      pay(
+        await read<bigint>(
+          isPrivate
+            ? "PRIVATE_NAMESPACE_REGISTRATION_FEE"
+            : "PUBLIC_NAMESPACE_REGISTRATION_FEE",
+        ),
+        contractOwner,
+      );
+      break;
+    }
+    case "registerPublicNamespaceFor":
+    case "registerPrivateNamespaceFor":
+      result.events.push({
+        event: "NamespaceRegistered",
+        namespace: call.namespace,
+        namespaceHash: id(call.namespace),
+        pricePerName: call.pricePerName,
+        owner: getAddress(call.nsOwner),
+        isPrivate: call.method === "registerPrivateNamespaceFor",
+      });
+      break;
+    case "claimFees":
+    case "claimFeesToSelf":
+      result.events.push({
+        event: "FeesClaimed",
+        recipient:
+          call.method === "claimFees" ? getAddress(call.recipient) : from,
+        amount: await read<bigint>("getPendingFees", from),
+      });
+      break;
+    case "transferNamespaceOwnership": {
+      const [, oldOwner] = await read<[bigint, string]>(
+        "getNamespaceInfo",
+        call.namespace,
+      );
+      result.events.push({
+        event: "NamespaceOwnerTransferStarted",
+        namespace: call.namespace,
+        namespaceHash: id(call.namespace),
+        oldOwner,
+        newOwner: getAddress(call.newOwner),
+      });
+      break;
+    }
+    case "acceptNamespaceOwnership":
+      result.events.push({
+        event: "NamespaceOwnerTransferAccepted",
+        namespace: call.namespace,
+        namespaceHash: id(call.namespace),
+        newOwner: from,
+      });
+      break;
+    case "transferOwnership":
+      result.events.push({
+        event: "OwnershipTransferStarted",
+        previousOwner: contractOwner,
+        newOwner: getAddress(call.newOwner),
+      });
+      break;
+    case "acceptOwnership":
+      result.events.push({
+        event: "OwnershipTransferred",
+        previousOwner: contractOwner,
+        newOwner: from,
+      });
+      break;
+  }
+  return result;
+}
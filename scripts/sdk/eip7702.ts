@@ -0,0 +1,103 @@
+/**
+ * EIP-7702 delegated recipients
+ * An EOA that delegates to an implementation via EIP-7702 has the code `0xef0100 ‖ delegate`. XNS then treats it
+ * like a contract: `SignatureChecker` calls `isValidSignature` (ERC-1271) on the account, which runs the delegate's
+ * code, so a plain ECDSA `RegisterNameAuth` signature is only accepted if the delegate implements it that way.
+ * Most smart account implementations wrap the hash in an EIP-712 message of the account's own domain instead;
+ * `DelegateSigningScheme` describes how to sign for a given delegate.
+ */
+
+import { Provider, Signer, getAddress } from "ethers";
+
+// Code prefix of an EIP-7702 delegation designator (followed by the 20-byte delegate address)
+export const EIP7702_DELEGATION_PREFIX = "0xef0100";
+
+/**
+ * Signs the XNS EIP-712 digest in the format the `isValidSignature` of a delegate implementation expects
+ */
+export interface DelegateSigningScheme {
+  // Name of the delegate implementation (used in messages)
+  name: string;
+  /**
+   * @param signer The signer (usually the delegating account itself)
+   * @param account The delegating account (the recipient)
+   * @param chainId The chain ID
+   * @param digest The XNS EIP-712 digest passed to `isValidSignature`
+   */
+  sign(
+    signer: Signer,
+    account: string,
+    chainId: number,
+    digest: string,
+  ): Promise<string>;
+}
+
+/**
+ * Returns the delegate of an EIP-7702 delegation designator
+ * @param code The account code (`eth_getCode`)
+ * @returns The delegate address, or `null` if `code` is not a delegation designator
+ */
+export function parseDelegationDesignator(code: string): string | null {
+  const normalized = code.toLowerCase();
+  if (
+    normalized.length !== 2 + 23 * 2 ||
+    !normalized.startsWith(EIP7702_DELEGATION_PREFIX)
+  ) {
+    return null;
+  }
+  return getAddress(`0x${normalized.slice(EIP7702_DELEGATION_PREFIX.length)}`);
+}
+
+/**
+ * Returns the EIP-7702 delegate of an account
+ * @param provider The provider
+ * @param address The account
+ * @returns The delegate address, or `null` if the account is not delegated
+ */
+export async function getEip7702Delegate(
+  provider: Provider,
+  address: string,
+): Promise<string | null> {
+  return parseDelegationDesignator(await provider.getCode(address));
+}
+
+/**
+ * Signing scheme of delegates that wrap the hash in an EIP-712 message `<messageType>(bytes32 hash)` of the
+ * account's domain (`name`, `version`, chain ID and the account as verifying contract), e.g.
+ * `createReplaySafeHashScheme("Coinbase Smart Wallet", "1", "CoinbaseSmartWalletMessage")`
+ * @param domainName The EIP-712 domain name of the delegate
+ * @param domainVersion The EIP-712 domain version of the delegate
+ * @param messageType The name of the wrapping struct
+ */
+export function createReplaySafeHashScheme(
+  domainName: string,
+  domainVersion: string,
+  messageType: string,
+): DelegateSigningScheme {
+  return {
+    name: domainName,
+    sign: async (signer, account, chainId, digest) =>
+      await signer.signTypedData(
+        {
+          name: domainName,
+          version: domainVersion,
+          chainId,
+          verifyingContract: account,
+        },
+        { [messageType]: [{ name: "hash", type: "bytes32" }] },
+        { hash: digest },
+      ),
+  };
+}
+
+/**
+ * Returns the error thrown when a delegated recipient would sign a plain ECDSA signature
+ * @param recipient The delegated recipient
+ * @param delegate Its delegate
+ */
+export function delegatedRecipientMessage(
+  recipient: string,
+  delegate: string,
+): string {
+  return `${getAddress(recipient)} is an EIP-7702 delegated account (delegate ${delegate}): XNS checks its signatures with the delegate's isValidSignature (ERC-1271), which does not accept a plain ECDSA signature of the recipient`;
+}
@@ -0,0 +1,339 @@
+/**
+ * Helpers to extract "XNS: ..." revert reasons from errors thrown by ethers and hardhat providers,
+ * and typed error classes for every revert reason of XNS.sol
+ */
+
+import { AbiCoder, dataSlice, formatEther, isError } from "ethers";
+
+// Selector of the standard `Error(string)` revert
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+// Revert message format used by the hardhat network provider
+const HARDHAT_REASON_REGEX = /reverted with reason string '(.*)'/;
+
+/**
+ * Searches an error (and its nested `error`/`info`/`cause` properties) for `Error(string)` revert data
+ * @param error The error to search
+ * @returns The hex revert data, or `undefined` if none was found
+ */
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (depth > 5 || error === null || typeof error !== "object") {
+    return undefined;
+  }
+  const e = error as Record<string, unknown>;
+  if (typeof e.data === "string" && e.data.startsWith(ERROR_STRING_SELECTOR)) {
+    return e.data;
+  }
+  for (const key of ["error", "info", "cause", "data"]) {
+    const data = findRevertData(e[key], depth + 1);
+    if (data) {
+      return data;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extracts the revert reason string from an error thrown by a contract call or transaction
+ * @param error The error thrown by ethers or the hardhat provider
+ * @returns The reason string (e.g. "XNS: namespace not found"), or `undefined` if the error is not a revert with reason
+ */
+export function getRevertReason(error: unknown): string | undefined {
+  if (isError(error, "CALL_EXCEPTION") && error.reason) {
+    return error.reason;
+  }
+
+  const data = findRevertData(error);
+  if (data) {
+    try {
+      return AbiCoder.defaultAbiCoder().decode(
+        ["string"],
+        dataSlice(data, 4),
+      )[0];
+    } catch {
+      // Malformed revert data; fall through to the message-based lookup
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return HARDHAT_REASON_REGEX.exec(message)?.[1];
+}
+
+// -----------------------------------------------------------------------------
+// Typed errors
+// -----------------------------------------------------------------------------
+
+/**
+ * Context attached to typed errors; filled from the call arguments and, where useful, from
+ * additional reads (see `XnsClient.decodeError`)
+ */
+export interface XnsErrorContext {
+  label?: string;
+  namespace?: string;
+  // Recipient of a name or fee claim, or new (namespace) owner
+  address?: string;
+  // Whether the namespace being registered is private
+  isPrivate?: boolean;
+  // Required and provided `msg.value` (wei)
+  required?: bigint;
+  provided?: bigint;
+  // Minimum `pricePerName` (wei) for the namespace type
+  minPrice?: bigint;
+  // Unix timestamps (seconds)
+  exclusivityEndsAt?: bigint;
+  onboardingEndedAt?: bigint;
+}
+
+/**
+ * Formats the context of a typed error for its message
+ * @param context The error context
+ */
+function formatContext(context: XnsErrorContext): string {
+  const parts = Object.entries(context)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (["required", "provided", "minPrice"].includes(key)) {
+        return `${key}: ${formatEther(value)} ETH`;
+      }
+      if (key.endsWith("At")) {
+        return `${key}: ${new Date(Number(value) * 1000).toISOString()}`;
+      }
+      return `${key}: ${value}`;
+    });
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
+
+/**
+ * Base class of all typed "XNS: ..." revert errors; branch on `kind` (or use `instanceof`)
+ */
+export abstract class XnsError extends Error {
+  abstract readonly kind: string;
+  // The raw revert reason (e.g. "XNS: in exclusivity period")
+  readonly reason: string;
+  readonly context: XnsErrorContext;
+  // The original error thrown by ethers or the provider
+  readonly cause: unknown;
+
+  constructor(reason: string, context: XnsErrorContext = {}, cause?: unknown) {
+    super(`${reason}${formatContext(context)}`);
+    this.name = new.target.name;
+    this.reason = reason;
+    this.context = Object.fromEntries(
+      Object.entries(context).filter(([, value]) => value !== undefined),
+    );
+    this.cause = cause;
+  }
+}
+
+export class InvalidLabelError extends XnsError {
+  readonly kind = "INVALID_LABEL";
+}
+
+export class InvalidNamespaceError extends XnsError {
+  readonly kind = "INVALID_NAMESPACE";
+}
+
+export class ForbiddenNamespaceError extends XnsError {
+  readonly kind = "FORBIDDEN_NAMESPACE";
+}
+
+export class NamespaceNotFoundError extends XnsError {
+  readonly kind = "NAMESPACE_NOT_FOUND";
+}
+
+export class NamespaceAlreadyExistsError extends XnsError {
+  readonly kind = "NAMESPACE_ALREADY_EXISTS";
+}
+
+export class OnlyPublicNamespaceError extends XnsError {
+  readonly kind = "ONLY_PUBLIC_NAMESPACE";
+}
+
+export class NamespaceMismatchError extends XnsError {
+  readonly kind = "NAMESPACE_MISMATCH";
+}
+
+export class InsufficientPaymentError extends XnsError {
+  readonly kind = "INSUFFICIENT_PAYMENT";
+}
+
+export class InsufficientNamespaceFeeError extends XnsError {
+  readonly kind = "INSUFFICIENT_NAMESPACE_FEE";
+}
+
+export class PriceTooLowError extends XnsError {
+  readonly kind = "PRICE_TOO_LOW";
+}
+
+export class InvalidPriceStepError extends XnsError {
+  readonly kind = "INVALID_PRICE_STEP";
+}
+
+export class ExclusivityPeriodError extends XnsError {
+  readonly kind = "EXCLUSIVITY_PERIOD";
+}
+
+export class OnboardingOverError extends XnsError {
+  readonly kind = "ONBOARDING_OVER";
+}
+
+export class AddressAlreadyHasNameError extends XnsError {
+  readonly kind = "ADDRESS_ALREADY_HAS_NAME";
+}
+
+export class RecipientAlreadyHasNameError extends XnsError {
+  readonly kind = "RECIPIENT_ALREADY_HAS_NAME";
+}
+
+export class NameAlreadyRegisteredError extends XnsError {
+  readonly kind = "NAME_ALREADY_REGISTERED";
+}
+
+export class ZeroRecipientError extends XnsError {
+  readonly kind = "ZERO_RECIPIENT";
+}
+
+export class ZeroNamespaceOwnerError extends XnsError {
+  readonly kind = "ZERO_NAMESPACE_OWNER";
+}
+
+export class BadAuthorizationError extends XnsError {
+  readonly kind = "BAD_AUTHORIZATION";
+}
+
+export class LengthMismatchError extends XnsError {
+  readonly kind = "LENGTH_MISMATCH";
+}
+
+export class EmptyArrayError extends XnsError {
+  readonly kind = "EMPTY_ARRAY";
+}
+
+export class RefundFailedError extends XnsError {
+  readonly kind = "REFUND_FAILED";
+}
+
+export class NotNamespaceOwnerError extends XnsError {
+  readonly kind = "NOT_NAMESPACE_OWNER";
+
+  // Why only the namespace owner may call: "private" namespace, "exclusivity period", or `undefined`
+  // for namespace ownership transfers
+  get restriction(): "private" | "exclusivity period" | undefined {
+    const match = /\((private|exclusivity period)\)$/.exec(this.reason);
+    return match?.[1] as "private" | "exclusivity period" | undefined;
+  }
+}
+
+export class NotContractOwnerError extends XnsError {
+  readonly kind = "NOT_CONTRACT_OWNER";
+}
+
+export class NoFeesToClaimError extends XnsError {
+  readonly kind = "NO_FEES_TO_CLAIM";
+}
+
+export class FeeTransferFailedError extends XnsError {
+  readonly kind = "FEE_TRANSFER_FAILED";
+}
+
+export class NoPendingOwnerError extends XnsError {
+  readonly kind = "NO_PENDING_OWNER";
+}
+
+export class NotPendingOwnerError extends XnsError {
+  readonly kind = "NOT_PENDING_OWNER";
+}
+
+/**
+ * Discriminated union of all typed "XNS: ..." revert errors
+ */
+export type XnsRevertError =
+  | InvalidLabelError
+  | InvalidNamespaceError
+  | ForbiddenNamespaceError
+  | NamespaceNotFoundError
+  | NamespaceAlreadyExistsError
+  | OnlyPublicNamespaceError
+  | NamespaceMismatchError
+  | InsufficientPaymentError
+  | InsufficientNamespaceFeeError
+  | PriceTooLowError
+  | InvalidPriceStepError
+  | ExclusivityPeriodError
+  | OnboardingOverError
+  | AddressAlreadyHasNameError
+  | RecipientAlreadyHasNameError
+  | NameAlreadyRegisteredError
+  | ZeroRecipientError
+  | ZeroNamespaceOwnerError
+  | BadAuthorizationError
+  | LengthMismatchError
+  | EmptyArrayError
+  | RefundFailedError
+  | NotNamespaceOwnerError
+  | NotContractOwnerError
+  | NoFeesToClaimError
+  | FeeTransferFailedError
+  | NoPendingOwnerError
+  | NotPendingOwnerError;
+
+export type XnsErrorKind = XnsRevertError["kind"];
+
+type XnsErrorClass = new (
+  reason: string,
+  context?: XnsErrorContext,
+  cause?: unknown,
+) => XnsRevertError;
+
+// Every revert reason used in XNS.sol
+export const XNS_REVERT_REASONS: Record<string, XnsErrorClass> = {
+  "XNS: invalid label": InvalidLabelError,
+  "XNS: invalid namespace": InvalidNamespaceError,
+  "XNS: 'eth' namespace forbidden": ForbiddenNamespaceError,
+  "XNS: namespace not found": NamespaceNotFoundError,
+  "XNS: namespace already exists": NamespaceAlreadyExistsError,
+  "XNS: only for public namespaces": OnlyPublicNamespaceError,
+  "XNS: namespace mismatch": NamespaceMismatchError,
+  "XNS: insufficient payment": InsufficientPaymentError,
+  "XNS: insufficient namespace fee": InsufficientNamespaceFeeError,
+  "XNS: pricePerName too low": PriceTooLowError,
+  "XNS: price not multiple of 0.001 ETH": InvalidPriceStepError,
+  "XNS: in exclusivity period": ExclusivityPeriodError,
+  "XNS: onboarding over": OnboardingOverError,
+  "XNS: address already has a name": AddressAlreadyHasNameError,
+  "XNS: recipient already has a name": RecipientAlreadyHasNameError,
+  "XNS: name already registered": NameAlreadyRegisteredError,
+  "XNS: 0x recipient": ZeroRecipientError,
+  "XNS: zero recipient": ZeroRecipientError,
+  "XNS: 0x nsOwner": ZeroNamespaceOwnerError,
+  "XNS: bad authorization": BadAuthorizationError,
+  "XNS: length mismatch": LengthMismatchError,
+  "XNS: empty array": EmptyArrayError,
+  "XNS: refund failed": RefundFailedError,
+  "XNS: not namespace owner": NotNamespaceOwnerError,
+  "XNS: not namespace owner (private)": NotNamespaceOwnerError,
+  "XNS: not namespace owner (exclusivity period)": NotNamespaceOwnerError,
+  "XNS: not contract owner": NotContractOwnerError,
+  "XNS: no fees to claim": NoFeesToClaimError,
+  "XNS: fee transfer failed": FeeTransferFailedError,
+  "XNS: no pending owner": NoPendingOwnerError,
+  "XNS: not pending owner": NotPendingOwnerError,
+};
+
+/**
+ * Decodes an error thrown by a contract call or transaction into a typed XNS error
+ * @param error The error thrown by ethers or the hardhat provider
+ * @param context Context to attach (e.g. the namespace and provided value of the call)
+ * @returns The typed error, or `undefined` if the error is not an "XNS: ..." revert
+ */
+export function decodeXnsError(
+  error: unknown,
+  context: XnsErrorContext = {},
+): XnsRevertError | undefined {
+  if (error instanceof XnsError) {
+    return error as XnsRevertError;
+  }
+  const reason = getRevertReason(error);
+  const ErrorClass = reason ? XNS_REVERT_REASONS[reason] : undefined;
+  return ErrorClass ? new ErrorClass(reason!, context, error) : undefined;
+}
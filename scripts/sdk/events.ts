@@ -0,0 +1,203 @@
+/**
+ * Queries of XNS events with plaintext labels and namespaces
+ * Logs are fetched with `eth_getLogs` in block ranges. Event type and namespace are filtered by topic on the
+ * node, the owner filter is applied after decoding. Plaintext is recovered from the calldata of each
+ * transaction (see `receipts.ts`).
+ */
+
+import { Log, getAddress, id } from "ethers";
+import { DEFAULT_MAX_BLOCK_RANGE } from "./cache";
+import {
+  DecodedXnsEvent,
+  decodeXnsLogs,
+  getCalldataStrings,
+  recoverRegisteredNames,
+} from "./receipts";
+import { XnsClient } from "./XnsClient";
+
+export const XNS_EVENT_NAMES = [
+  "NameRegistered",
+  "NamespaceRegistered",
+  "FeesClaimed",
+  "NamespaceOwnerTransferStarted",
+  "NamespaceOwnerTransferAccepted",
+] as const;
+
+export type XnsEventName = (typeof XNS_EVENT_NAMES)[number];
+
+// Events whose first indexed parameter is the namespace
+const NAMESPACE_EVENTS: XnsEventName[] = [
+  "NameRegistered",
+  "NamespaceRegistered",
+  "NamespaceOwnerTransferStarted",
+  "NamespaceOwnerTransferAccepted",
+];
+
+export interface XnsEventFilter {
+  // Event types to include; defaults to all
+  events?: XnsEventName[];
+  // Only events of this namespace (excludes `FeesClaimed`)
+  namespace?: string;
+  // Only events involving this address (owner, fee recipient, old or new namespace owner)
+  owner?: string;
+}
+
+export interface FetchXnsEventsOptions {
+  fromBlock: number;
+  // Defaults to the latest block
+  toBlock?: number;
+  filter?: XnsEventFilter;
+  // The maximum block range per `eth_getLogs` request
+  maxBlockRange?: number;
+}
+
+/**
+ * Returns the addresses an event involves
+ */
+function eventAddresses(event: DecodedXnsEvent): string[] {
+  switch (event.event) {
+    case "NameRegistered":
+    case "NamespaceRegistered":
+      return [event.owner];
+    case "FeesClaimed":
+      return [event.recipient];
+    case "NamespaceOwnerTransferStarted":
+      return [event.oldOwner, event.newOwner];
+    case "NamespaceOwnerTransferAccepted":
+      return [event.newOwner];
+  }
+}
+
+/**
+ * Checks a decoded event against a filter
+ * @param event The decoded event
+ * @param filter The filter
+ */
+export function matchesXnsEventFilter(
+  event: DecodedXnsEvent,
+  filter: XnsEventFilter,
+): boolean {
+  if (filter.events && !filter.events.includes(event.event)) {
+    return false;
+  }
+  if (filter.namespace !== undefined) {
+    if (
+      event.event === "FeesClaimed" ||
+      event.namespaceHash !== id(filter.namespace)
+    ) {
+      return false;
+    }
+  }
+  if (filter.owner !== undefined) {
+    const owner = getAddress(filter.owner);
+    return eventAddresses(event).some((address) => address === owner);
+  }
+  return true;
+}
+
+/**
+ * Fetches and decodes the XNS events of a block range
+ * @param client The XNS client
+ * @param options The block range and the filter
+ * @returns The matching events in log order; label and namespace are `null` if their plaintext could not be
+ * recovered
+ */
+export async function fetchXnsEvents(
+  client: XnsClient,
+  options: FetchXnsEventsOptions,
+): Promise<DecodedXnsEvent[]> {
+  const provider = client.provider;
+  const filter = options.filter ?? {};
+  const maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+
+  const names = (filter.events ?? [...XNS_EVENT_NAMES]).filter(
+    (name) => filter.namespace === undefined || NAMESPACE_EVENTS.includes(name),
+  );
+  if (names.length === 0) {
+    return [];
+  }
+  // The namespace is the first indexed parameter of all namespace events except `NameRegistered` (label first)
+  const topicHash = (name: XnsEventName) =>
+    client.contract.interface.getEvent(name)!.topicHash;
+  const topicFilters: (string | string[] | null)[][] = [];
+  if (filter.namespace === undefined) {
+    topicFilters.push([names.map(topicHash)]);
+  } else {
+    const namespaceHash = id(filter.namespace);
+    const others = names.filter((name) => name !== "NameRegistered");
+    if (others.length < names.length) {
+      topicFilters.push([topicHash("NameRegistered"), null, namespaceHash]);
+    }
+    if (others.length > 0) {
+      topicFilters.push([others.map(topicHash), namespaceHash]);
+    }
+  }
+
+  const events: DecodedXnsEvent[] = [];
+  for (
+    let fromBlock = options.fromBlock;
+    fromBlock <= toBlock;
+    fromBlock += maxBlockRange
+  ) {
+    const logs: Log[] = [];
+    for (const topics of topicFilters) {
+      logs.push(
+        ...(await provider.getLogs({
+          address: client.address,
+          topics,
+          fromBlock,
+          toBlock: Math.min(fromBlock + maxBlockRange - 1, toBlock),
+        })),
+      );
+    }
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    // Decode the logs of each transaction with the strings of its calldata
+    const hashes = [...new Set(logs.map((log) => log.transactionHash))];
+    for (const hash of hashes) {
+      const tx = await provider.getTransaction(hash);
+      const candidates =
+        tx && tx.to?.toLowerCase() === client.address.toLowerCase()
+          ? getCalldataStrings(client, tx.data)
+          : [];
+      const decoded = decodeXnsLogs(
+        client,
+        logs.filter((log) => log.transactionHash === hash),
+        filter.namespace === undefined
+          ? candidates
+          : [...candidates, filter.namespace],
+      );
+      await recoverRegisteredNames(client, decoded);
+      events.push(
+        ...decoded.filter((event) => matchesXnsEventFilter(event, filter)),
+      );
+    }
+  }
+  return events;
+}
+
+/**
+ * Returns the block the XNS contract was deployed in (the first block whose timestamp is at least
+ * `DEPLOYED_AT`), found by binary search over block timestamps
+ * @param client The XNS client
+ */
+export async function findDeploymentBlock(client: XnsClient): Promise<number> {
+  const provider = client.provider;
+  const [{ deployedAt }, latest] = await Promise.all([
+    client.getConstants(),
+    provider.getBlockNumber(),
+  ]);
+  let low = 0;
+  let high = latest;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const block = await provider.getBlock(mid);
+    if (BigInt(block!.timestamp) < deployedAt) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,29 @@
+/**
+ * XNS SDK entry point
+ * Import from "scripts/sdk" instead of the individual modules
+ */
+
+export * from "./types";
+export * from "./constants";
+export * from "./errors";
+export * from "./validation";
+export * from "./names";
+export * from "./normalize";
+export * from "./transliterate";
+export * from "./multicall";
+export * from "./cache";
+export * from "./preflight";
+export * from "./quote";
+export * from "./receipts";
+export * from "./dryRun";
+export * from "./confirmations";
+export * from "./events";
+export * from "./whois";
+export * from "./typedData";
+export * from "./eip7702";
+export * from "./signatures";
+export * from "./bundle";
+export * from "./ledger";
+export * from "./safe";
+export * from "./audit";
+export * from "./XnsClient";
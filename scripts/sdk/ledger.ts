@@ -0,0 +1,140 @@
+/**
+ * Ledger hardware-wallet signer
+ * Wraps the signer of a Ledger account, e.g. one of the `ledgerAccounts` that `@nomicfoundation/hardhat-ledger`
+ * forwards to the device, so that `RegisterNameAuth` typed data, messages and registration transactions can be
+ * compared with the device screen: before every request, `onPrompt` receives the values the device will show.
+ */
+
+import {
+  AbstractSigner,
+  Provider,
+  Signer,
+  TransactionRequest,
+  TransactionResponse,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  formatEther,
+  getBigInt,
+  hexlify,
+  resolveAddress,
+} from "ethers";
+
+export interface LedgerPrompt {
+  kind: "typedData" | "transaction" | "message";
+  // What the device shows, line by line
+  lines: string[];
+}
+
+export interface LedgerSignerOptions {
+  // Called before the device asks for confirmation
+  onPrompt?: (prompt: LedgerPrompt) => void;
+}
+
+/**
+ * Renders EIP-712 typed data the way it is confirmed on a Ledger: the domain and message fields (clear signing)
+ * followed by the domain and message hashes (shown instead of the fields when blind signing)
+ * @param domain The EIP-712 domain
+ * @param types The types (without `EIP712Domain`)
+ * @param value The message
+ */
+export function renderTypedDataForLedger(
+  domain: TypedDataDomain,
+  types: Record<string, TypedDataField[]>,
+  value: Record<string, unknown>,
+): string[] {
+  const primaryType = TypedDataEncoder.getPrimaryType(types);
+  return [
+    `Domain: ${domain.name} (version ${domain.version}, chain ID ${domain.chainId})`,
+    `Verifying contract: ${domain.verifyingContract}`,
+    `Message: ${primaryType}`,
+    ...types[primaryType].map(
+      ({ name }) => `  ${name}: ${String(value[name])}`,
+    ),
+    `Domain hash: ${TypedDataEncoder.hashDomain(domain)}`,
+    `Message hash: ${TypedDataEncoder.hashStruct(primaryType, types, value)}`,
+  ];
+}
+
+export class LedgerSigner extends AbstractSigner {
+  readonly signer: Signer;
+  readonly onPrompt?: (prompt: LedgerPrompt) => void;
+
+  /**
+   * @param signer The signer of the Ledger account (e.g. `await hre.ethers.getSigner(ledgerAccount)`)
+   * @param options The confirmation callback
+   */
+  constructor(signer: Signer, options: LedgerSignerOptions = {}) {
+    super(signer.provider);
+    this.signer = signer;
+    this.onPrompt = options.onPrompt;
+  }
+
+  connect(provider: Provider | null): LedgerSigner {
+    return new LedgerSigner(this.signer.connect(provider), {
+      onPrompt: this.onPrompt,
+    });
+  }
+
+  async getAddress(): Promise<string> {
+    return await this.signer.getAddress();
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    await this.promptTransaction(tx);
+    return await this.signer.signTransaction(tx);
+  }
+
+  // The device signs for the provider (`eth_sendTransaction`), so sending is not split into signing and broadcasting
+  async sendTransaction(tx: TransactionRequest): Promise<TransactionResponse> {
+    await this.promptTransaction(tx);
+    return await this.signer.sendTransaction(tx);
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    this.onPrompt?.({
+      kind: "message",
+      lines: [
+        typeof message === "string"
+          ? `Message: ${message}`
+          : `Message: ${hexlify(message)}`,
+      ],
+    });
+    return await this.signer.signMessage(message);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>,
+  ): Promise<string> {
+    this.onPrompt?.({
+      kind: "typedData",
+      lines: renderTypedDataForLedger(domain, types, value),
+    });
+    return await this.signer.signTypedData(domain, types, value);
+  }
+
+  /**
+   * Reports the recipient, amount, calldata and chain of a transaction before the device shows them
+   */
+  private async promptTransaction(tx: TransactionRequest): Promise<void> {
+    if (!this.onPrompt) {
+      return;
+    }
+    const to = tx.to ? await resolveAddress(tx.to, this.provider) : null;
+    const data = tx.data ? hexlify(tx.data) : "0x";
+    const chainId =
+      tx.chainId ??
+      (this.provider ? (await this.provider.getNetwork()).chainId : null);
+    this.onPrompt({
+      kind: "transaction",
+      lines: [
+        `To: ${to ?? "(contract creation)"}`,
+        `Amount: ${formatEther(getBigInt(tx.value ?? 0))} ETH`,
+        `Data: ${data === "0x" ? "none" : `${data.slice(0, 10)}… (${(data.length - 2) / 2} bytes)`}`,
+        `Chain ID: ${chainId}`,
+      ],
+    });
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Batched read calls through Multicall3 (`aggregate3`)
+ * Used by `XnsClient.resolveMany` and `XnsClient.reverseResolveMany` to resolve hundreds of names
+ * with a handful of `eth_call`s instead of one per name
+ */
+
+import { BlockTag, Contract, ContractRunner, dataLength } from "ethers";
+import MULTICALL3_ABI from "../../abis/contracts/src/mocks/Multicall3.sol/Multicall3.json";
+import { getRevertReason } from "./errors";
+
+// Canonical Multicall3 address (identical on Ethereum mainnet, Sepolia and most other chains)
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+// Default maximum calldata size of a single `aggregate3` call (well below common RPC request limits)
+export const DEFAULT_MAX_CALLDATA_BYTES = 64 * 1024;
+
+// ABI encoding overhead of `aggregate3(Call3[])`: selector, array offset and array length
+const AGGREGATE3_BASE_BYTES = 4 + 32 + 32;
+
+// ABI encoding overhead per `Call3`: element offset, target, allowFailure, callData offset and length
+const CALL3_BASE_BYTES = 5 * 32;
+
+export interface MulticallOptions {
+  // Multicall3 deployment to use; defaults to `MULTICALL3_ADDRESS`
+  multicallAddress?: string;
+  // Calls are split into several `aggregate3` calls if their encoded size exceeds this limit
+  maxCalldataBytes?: number;
+  // Block to execute the calls at; defaults to "latest"
+  blockTag?: BlockTag;
+}
+
+export interface MulticallCall {
+  target: string;
+  callData: string;
+}
+
+export type MulticallResult =
+  { success: true; returnData: string } | { success: false; error: string };
+
+/**
+ * Result of a batched read; failures are reported per item instead of failing the whole batch
+ */
+export type BatchResult<T> =
+  | { input: string; success: true; value: T }
+  | { input: string; success: false; error: string };
+
+/**
+ * Returns the number of bytes a call adds to the encoded `aggregate3` calldata
+ * @param call The call to measure
+ */
+function encodedSize(call: MulticallCall): number {
+  return CALL3_BASE_BYTES + Math.ceil(dataLength(call.callData) / 32) * 32;
+}
+
+/**
+ * Splits calls into chunks whose encoded `aggregate3` calldata does not exceed `maxCalldataBytes`
+ * (a single call exceeding the limit is sent on its own)
+ * @param calls The calls to split
+ * @param maxCalldataBytes The maximum calldata size per chunk
+ */
+function chunkCalls(
+  calls: MulticallCall[],
+  maxCalldataBytes: number,
+): MulticallCall[][] {
+  const chunks: MulticallCall[][] = [];
+  let chunk: MulticallCall[] = [];
+  let size = AGGREGATE3_BASE_BYTES;
+
+  for (const call of calls) {
+    const callSize = encodedSize(call);
+    if (chunk.length > 0 && size + callSize > maxCalldataBytes) {
+      chunks.push(chunk);
+      chunk = [];
+      size = AGGREGATE3_BASE_BYTES;
+    }
+    chunk.push(call);
+    size += callSize;
+  }
+  if (chunk.length > 0) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+/**
+ * Executes read calls through Multicall3 `aggregate3` with `allowFailure = true`
+ * @param runner The provider or signer used to send the `eth_call`s
+ * @param calls The calls to execute
+ * @param options Multicall3 address, chunk size and block tag
+ * @returns One result per call in input order; reverted calls and failed chunks are reported per item
+ */
+export async function multicall(
+  runner: ContractRunner,
+  calls: MulticallCall[],
+  options: MulticallOptions = {},
+): Promise<MulticallResult[]> {
+  const multicall3 = new Contract(
+    options.multicallAddress ?? MULTICALL3_ADDRESS,
+    MULTICALL3_ABI,
+    runner,
+  );
+  const aggregate3 = multicall3.getFunction("aggregate3");
+  const overrides = options.blockTag ? { blockTag: options.blockTag } : {};
+
+  const results: MulticallResult[] = [];
+  for (const chunk of chunkCalls(
+    calls,
+    options.maxCalldataBytes ?? DEFAULT_MAX_CALLDATA_BYTES,
+  )) {
+    try {
+      const returned: [boolean, string][] = await aggregate3.staticCall(
+        chunk.map((call) => [call.target, true, call.callData]),
+        overrides,
+      );
+      for (const [success, returnData] of returned) {
+        results.push(
+          success
+            ? { success, returnData }
+            : {
+                success,
+                error: getRevertReason({ data: returnData }) ?? "call reverted",
+              },
+        );
+      }
+    } catch (error) {
+      const message =
+        getRevertReason(error) ??
+        (error instanceof Error ? error.message : String(error));
+      results.push(
+        ...chunk.map((): MulticallResult => ({
+          success: false,
+          error: message,
+        })),
+      );
+    }
+  }
+  return results;
+}
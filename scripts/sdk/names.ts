@@ -0,0 +1,76 @@
+/**
+ * Full-name parsing and formatting
+ * Mirrors `getAddress(string fullName)` (splitting) and `getName(address)` (formatting) in XNS.sol
+ */
+
+import { BARE_NAME_NAMESPACE } from "./constants";
+import { isValidLabelOrNamespace } from "./validation";
+
+export interface ParsedXnsName {
+  label: string;
+  namespace: string;
+  // Whether the name lives in the bare name namespace "x"
+  isBare: boolean;
+}
+
+/**
+ * Splits a full name exactly like `getAddress(string fullName)` does:
+ * - The name is split on the **last** '.' ("a.b.c" -> label "a.b", namespace "c")
+ * - A name without '.' is a bare name in namespace "x" ("alice" -> label "alice", namespace "x")
+ * - Everything else is kept verbatim, so "alice." yields an empty namespace and ".xns" an empty label
+ *   (both can never be registered and resolve to `address(0)`)
+ *
+ * Note that `getAddress(label, "")` resolves a bare name, so an empty namespace returned here must not
+ * be passed on to `getAddress(string,string)`.
+ * @param fullName The full name to parse
+ * @returns The label and namespace that XNS looks up, or `null` for an empty string
+ * (`getAddress("")` returns `address(0)` without lookup)
+ */
+export function parseXnsName(fullName: string): ParsedXnsName | null {
+  if (fullName.length === 0) {
+    return null;
+  }
+
+  const dotIndex = fullName.lastIndexOf(".");
+  if (dotIndex === -1) {
+    return { label: fullName, namespace: BARE_NAME_NAMESPACE, isBare: true };
+  }
+
+  const label = fullName.slice(0, dotIndex);
+  const namespace = fullName.slice(dotIndex + 1);
+  return { label, namespace, isBare: namespace === BARE_NAME_NAMESPACE };
+}
+
+/**
+ * Formats a name like `getName(address)` does: bare names (namespace "x") are returned without
+ * the ".x" suffix, all other names as "label.namespace"
+ *
+ * An empty namespace is also treated as bare, matching `getAddress(label, "")`.
+ * @param label The label part of the name
+ * @param namespace The namespace part of the name
+ */
+export function formatXnsName(label: string, namespace: string): string {
+  if (namespace === BARE_NAME_NAMESPACE || namespace === "") {
+    return label;
+  }
+  return `${label}.${namespace}`;
+}
+
+/**
+ * Returns the canonical form of a full name, i.e. the string `getName` would return for its owner
+ * ("alice.x" -> "alice", "bob.xns" -> "bob.xns")
+ * @param fullName The full name to canonicalize
+ * @returns The canonical name, or `null` if the name can never be registered (empty, invalid label
+ * or namespace, e.g. "a.b.c", "alice." or "Alice.xns")
+ */
+export function canonicalizeXnsName(fullName: string): string | null {
+  const parsed = parseXnsName(fullName);
+  if (
+    !parsed ||
+    !isValidLabelOrNamespace(parsed.label) ||
+    !isValidLabelOrNamespace(parsed.namespace)
+  ) {
+    return null;
+  }
+  return formatXnsName(parsed.label, parsed.namespace);
+}
@@ -0,0 +1,190 @@
+/**
+ * Input normalization for labels, namespaces and full names
+ * Suggests a canonical name for common input mistakes ("Alice.XNS ", "alice_xns", "@alice") instead of
+ * letting the registration revert with "XNS: invalid label"; every applied transformation is reported
+ * so that callers can ask for confirmation before registering
+ */
+
+import { formatXnsName, parseXnsName } from "./names";
+import {
+  ValidationResult,
+  validateLabel,
+  validateNamespace,
+} from "./validation";
+
+export type TransformationKind =
+  | "TRIM"
+  | "LOWERCASE"
+  | "STRIP_PREFIX"
+  | "REPLACE_SEPARATORS"
+  | "COLLAPSE_HYPHENS"
+  | "STRIP_EDGE_HYPHENS";
+
+export interface Transformation {
+  kind: TransformationKind;
+  before: string;
+  after: string;
+  description: string;
+}
+
+export interface NormalizationResult {
+  input: string;
+  // Normalized value; `null` if it still fails validation (see `validation.errors`)
+  normalized: string | null;
+  transformations: Transformation[];
+  validation: ValidationResult;
+}
+
+export interface NameNormalizationResult {
+  input: string;
+  // Canonical full name as returned by `getName`; `null` if the label or namespace is still invalid
+  normalized: string | null;
+  label: NormalizationResult;
+  namespace: NormalizationResult;
+  // All transformations in the order they were applied (whole name first, then label and namespace)
+  transformations: Transformation[];
+}
+
+interface Step {
+  kind: TransformationKind;
+  description: string;
+  apply: (value: string) => string;
+}
+
+// Prefixes users commonly paste along with a name
+const PREFIXES = ["xns://", "xns:", "@"];
+
+const TRIM: Step = {
+  kind: "TRIM",
+  description: "removed surrounding whitespace",
+  apply: (value) => value.trim(),
+};
+
+const LOWERCASE: Step = {
+  kind: "LOWERCASE",
+  description: "converted to lowercase",
+  apply: (value) => value.toLowerCase(),
+};
+
+const STRIP_PREFIX: Step = {
+  kind: "STRIP_PREFIX",
+  description: `removed prefix (${PREFIXES.map((p) => `"${p}"`).join(", ")})`,
+  apply: (value) => {
+    const prefix = PREFIXES.find((p) => value.startsWith(p));
+    return prefix ? value.slice(prefix.length) : value;
+  },
+};
+
+const REPLACE_SEPARATORS: Step = {
+  kind: "REPLACE_SEPARATORS",
+  description: "replaced underscores and spaces with '-'",
+  apply: (value) => value.replace(/[_\s]+/g, "-"),
+};
+
+const COLLAPSE_HYPHENS: Step = {
+  kind: "COLLAPSE_HYPHENS",
+  description: "collapsed consecutive hyphens",
+  apply: (value) => value.replace(/-{2,}/g, "-"),
+};
+
+const STRIP_EDGE_HYPHENS: Step = {
+  kind: "STRIP_EDGE_HYPHENS",
+  description: "removed leading and trailing hyphens",
+  apply: (value) => value.replace(/^-+|-+$/g, ""),
+};
+
+// Steps applied to the whole input before a full name is split into label and namespace
+const NAME_STEPS = [TRIM, LOWERCASE, STRIP_PREFIX];
+
+// Steps applied to a single label or namespace
+const PART_STEPS = [
+  ...NAME_STEPS,
+  REPLACE_SEPARATORS,
+  COLLAPSE_HYPHENS,
+  STRIP_EDGE_HYPHENS,
+];
+
+function applySteps(
+  value: string,
+  steps: Step[],
+): { value: string; transformations: Transformation[] } {
+  const transformations: Transformation[] = [];
+  for (const step of steps) {
+    const after = step.apply(value);
+    if (after !== value) {
+      transformations.push({
+        kind: step.kind,
+        before: value,
+        after,
+        description: step.description,
+      });
+      value = after;
+    }
+  }
+  return { value, transformations };
+}
+
+function normalizePart(
+  input: string,
+  validate: (value: string) => ValidationResult,
+): NormalizationResult {
+  const { value, transformations } = applySteps(input, PART_STEPS);
+  const validation = validate(value);
+  return {
+    input,
+    normalized: validation.isValid ? value : null,
+    transformations,
+    validation,
+  };
+}
+
+/**
+ * Normalizes a label: trims, lowercases, strips common prefixes ("@", "xns:"), replaces underscores and
+ * spaces with hyphens, collapses "--" and removes leading/trailing hyphens
+ * @param input The raw user input
+ * @returns The normalized label (guaranteed to pass `isValidLabelOrNamespace`), or `null` with the
+ * remaining validation errors (e.g. non-ASCII characters or too long)
+ */
+export function normalizeLabel(input: string): NormalizationResult {
+  return normalizePart(input, validateLabel);
+}
+
+/**
+ * Same as `normalizeLabel` for namespaces (additionally rejects "eth")
+ * @param input The raw user input
+ */
+export function normalizeNamespace(input: string): NormalizationResult {
+  return normalizePart(input, validateNamespace);
+}
+
+/**
+ * Normalizes a full name such as "Alice.XNS " or "@bob", splitting it like `getAddress(string fullName)`
+ * and normalizing label and namespace separately
+ * @param input The raw user input
+ * @returns The canonical name (as `getName` would return it), or `null` if the label or namespace is
+ * still invalid after normalization
+ */
+export function normalizeXnsName(input: string): NameNormalizationResult {
+  const whole = applySteps(input, NAME_STEPS);
+  const parsed = parseXnsName(whole.value) ?? { label: "", namespace: "" };
+
+  const label = normalizeLabel(parsed.label);
+  const namespace = normalizeNamespace(parsed.namespace);
+
+  const normalized =
+    label.normalized !== null && namespace.normalized !== null
+      ? formatXnsName(label.normalized, namespace.normalized)
+      : null;
+
+  return {
+    input,
+    normalized,
+    label,
+    namespace,
+    transformations: [
+      ...whole.transformations,
+      ...label.transformations,
+      ...namespace.transformations,
+    ],
+  };
+}
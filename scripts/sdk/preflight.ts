@@ -0,0 +1,158 @@
+/**
+ * Registration preflight
+ * Evaluates every `require` of `registerName` / `registerNameWithAuthorization` against the current chain
+ * state and reports all failing preconditions at once, instead of only the first one a transaction reverts with
+ */
+
+import { ZeroAddress, isAddress } from "ethers";
+import { XNS_REVERT_REASONS, XnsErrorContext, XnsRevertError } from "./errors";
+import { NamespaceInfo } from "./types";
+import { validateLabel } from "./validation";
+import { XnsClient } from "./XnsClient";
+
+export interface PreflightParams {
+  label: string;
+  namespace: string;
+  // The sender of the transaction (pays for the registration)
+  payer: string;
+  // The address receiving the name; defaults to `payer`
+  recipient?: string;
+  // The `msg.value` to send; defaults to the namespace price
+  value?: bigint;
+  // The recipient's EIP-712 `RegisterNameAuth` signature; if set, `registerNameWithAuthorization` is checked
+  signature?: string;
+}
+
+export interface PreflightResult {
+  ok: boolean;
+  method: "registerName" | "registerNameWithAuthorization";
+  // Every failing precondition in the order of the `require` statements in XNS.sol
+  failures: XnsRevertError[];
+  // `null` if the namespace does not exist
+  namespaceInfo: NamespaceInfo | null;
+}
+
+/**
+ * Checks all preconditions of a name registration without sending a transaction
+ * Without `signature`, `registerName` is checked (`recipient` must equal `payer`); with `signature`,
+ * `registerNameWithAuthorization` is checked. The exclusivity period is evaluated at the latest block.
+ * @param client The XNS client
+ * @param params The registration to check
+ * @returns All failing preconditions as typed errors (see `errors.ts`); `ok` if there are none
+ */
+export async function preflightRegistration(
+  client: XnsClient,
+  params: PreflightParams,
+): Promise<PreflightResult> {
+  const { label, namespace, payer, signature } = params;
+  const recipient = params.recipient ?? payer;
+  const method =
+    signature === undefined ? "registerName" : "registerNameWithAuthorization";
+  if (
+    method === "registerName" &&
+    recipient.toLowerCase() !== payer.toLowerCase()
+  ) {
+    throw new Error(
+      "preflightRegistration: `registerName` registers for the payer; pass a signature to register for another recipient",
+    );
+  }
+  // An invalid recipient cannot be encoded and is reported like the zero address
+  const hasRecipient = isAddress(recipient) && recipient !== ZeroAddress;
+
+  const [namespaceInfo, exclusivityPeriod, block, existingName, owner, sigOk] =
+    await Promise.all([
+      client.findNamespaceInfo(namespace),
+      client.contract.getFunction("EXCLUSIVITY_PERIOD")() as Promise<bigint>,
+      client.provider.getBlock("latest"),
+      hasRecipient ? client.reverseResolve(recipient) : Promise.resolve(""),
+      // `resolve(label, "")` would look up the bare name `label.x`, but the empty namespace does not exist
+      namespace === ""
+        ? Promise.resolve(ZeroAddress)
+        : client.resolve(label, namespace),
+      signature === undefined || !hasRecipient
+        ? Promise.resolve(false)
+        : client
+            .isValidSignature({ recipient, label, namespace }, signature)
+            .catch(() => false),
+    ]);
+
+  const value = params.value ?? namespaceInfo?.pricePerName ?? 0n;
+  const context: XnsErrorContext = {
+    label,
+    namespace,
+    address: recipient,
+    provided: value,
+  };
+  const failures: XnsRevertError[] = [];
+  const fail = (reason: string, extra: XnsErrorContext = {}) =>
+    failures.push(
+      new XNS_REVERT_REASONS[reason](reason, { ...context, ...extra }),
+    );
+
+  const exclusivityEndsAt = namespaceInfo
+    ? namespaceInfo.createdAt + exclusivityPeriod
+    : undefined;
+  const inExclusivityPeriod =
+    exclusivityEndsAt !== undefined &&
+    BigInt(block!.timestamp) <= exclusivityEndsAt;
+  const isNamespaceOwner =
+    namespaceInfo?.owner.toLowerCase() === payer.toLowerCase();
+
+  if (!validateLabel(label).isValid) {
+    fail("XNS: invalid label");
+  }
+
+  if (method === "registerName") {
+    if (!namespaceInfo) {
+      fail("XNS: namespace not found");
+    } else {
+      if (namespaceInfo.isPrivate) {
+        fail("XNS: only for public namespaces");
+      }
+      if (value < namespaceInfo.pricePerName) {
+        fail("XNS: insufficient payment", {
+          required: namespaceInfo.pricePerName,
+        });
+      }
+      if (inExclusivityPeriod) {
+        fail("XNS: in exclusivity period", { exclusivityEndsAt });
+      }
+    }
+    if (existingName !== "") {
+      fail("XNS: address already has a name");
+    }
+  } else {
+    if (!hasRecipient) {
+      fail("XNS: 0x recipient");
+    }
+    if (!namespaceInfo) {
+      fail("XNS: namespace not found");
+    } else {
+      if (value < namespaceInfo.pricePerName) {
+        fail("XNS: insufficient payment", {
+          required: namespaceInfo.pricePerName,
+        });
+      }
+      if (namespaceInfo.isPrivate && !isNamespaceOwner) {
+        fail("XNS: not namespace owner (private)");
+      } else if (inExclusivityPeriod && !isNamespaceOwner) {
+        fail("XNS: not namespace owner (exclusivity period)", {
+          exclusivityEndsAt,
+        });
+      }
+    }
+    if (existingName !== "") {
+      fail("XNS: recipient already has a name");
+    }
+  }
+
+  if (owner !== ZeroAddress) {
+    fail("XNS: name already registered");
+  }
+
+  if (method === "registerNameWithAuthorization" && !sigOk) {
+    fail("XNS: bad authorization");
+  }
+
+  return { ok: failures.length === 0, method, failures, namespaceInfo };
+}
@@ -0,0 +1,117 @@
+/**
+ * Price quotes with the burn and fee split of `_processETHPayment`
+ * 80% of the required amount is burned via DETH (credited to the payer), 10% is credited to the namespace
+ * owner (the contract owner for private namespaces and namespace registrations) and the remainder to the
+ * contract owner. Any excess `msg.value` is refunded.
+ */
+
+import {
+  InsufficientNamespaceFeeError,
+  InsufficientPaymentError,
+} from "./errors";
+import { XnsClient } from "./XnsClient";
+
+export type QuoteRequest =
+  // `registerName`, `registerNameWithAuthorization` or `batchRegisterNameWithAuthorization` (`count` > 1)
+  | { type: "name"; namespace: string; count?: number; value?: bigint }
+  // `registerPublicNamespace` or `registerPrivateNamespace`
+  | { type: "namespace"; isPrivate: boolean; value?: bigint };
+
+export interface PaymentSplit {
+  // 80% (rounded down), burned via DETH and credited to the payer
+  burn: bigint;
+  // 10% (rounded down)
+  namespaceOwnerFee: bigint;
+  // Remainder (10% plus the rounding remainder of the other two shares)
+  protocolFee: bigint;
+  // Wei the protocol fee receives in addition to 10% because `burn` and `namespaceOwnerFee` are rounded
+  // down (always 0 for prices that are multiples of 0.001 ETH)
+  roundingRemainder: bigint;
+}
+
+export interface Quote extends PaymentSplit {
+  // Exact `msg.value` required
+  required: bigint;
+  // `msg.value` the quote is for (defaults to `required`)
+  value: bigint;
+  // Excess refunded to the payer
+  refund: bigint;
+  namespaceOwnerFeeRecipient: string;
+  protocolFeeRecipient: string;
+}
+
+/**
+ * Splits a required amount exactly like `_processETHPayment` (integer division, rounding down)
+ * @param required The required amount (wei)
+ */
+export function splitPayment(required: bigint): PaymentSplit {
+  const burn = (required * 80n) / 100n;
+  const namespaceOwnerFee = (required * 10n) / 100n;
+  const protocolFee = required - burn - namespaceOwnerFee;
+  return {
+    burn,
+    namespaceOwnerFee,
+    protocolFee,
+    roundingRemainder: protocolFee - namespaceOwnerFee,
+  };
+}
+
+/**
+ * Quotes a name or namespace registration
+ * For batch registrations, the split is computed on `pricePerName * count` (as done by the contract), which
+ * can differ by a few wei from the sum of single quotes. Items skipped on-chain are refunded in addition.
+ * @param client The XNS client
+ * @param request The registration to quote; `value` is the `msg.value` to send (defaults to the exact price)
+ * @returns The required `msg.value`, the split between burn and fees, their recipients and the refund
+ * @throws `InsufficientPaymentError` / `InsufficientNamespaceFeeError` if `value` is below the required amount
+ */
+export async function quote(
+  client: XnsClient,
+  request: QuoteRequest,
+): Promise<Quote> {
+  const contractOwner = await client.owner();
+
+  let required: bigint;
+  let namespaceOwnerFeeRecipient: string;
+  if (request.type === "name") {
+    const count = request.count ?? 1;
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`quote: invalid count: ${count}`);
+    }
+    const info = await client.getNamespaceInfo(request.namespace);
+    required = info.pricePerName * BigInt(count);
+    namespaceOwnerFeeRecipient = info.isPrivate ? contractOwner : info.owner;
+
+    if (request.value !== undefined && request.value < required) {
+      throw new InsufficientPaymentError("XNS: insufficient payment", {
+        namespace: request.namespace,
+        required,
+        provided: request.value,
+      });
+    }
+  } else {
+    required = await client.contract.getFunction(
+      request.isPrivate
+        ? "PRIVATE_NAMESPACE_REGISTRATION_FEE"
+        : "PUBLIC_NAMESPACE_REGISTRATION_FEE",
+    )();
+    namespaceOwnerFeeRecipient = contractOwner;
+
+    if (request.value !== undefined && request.value < required) {
+      throw new InsufficientNamespaceFeeError(
+        "XNS: insufficient namespace fee",
+        { isPrivate: request.isPrivate, required, provided: request.value },
+      );
+    }
+  }
+
+  const value = request.value ?? required;
+  return {
+    required,
+    value,
+    refund: value - required,
+    ...splitPayment(required),
+    namespaceOwnerFeeRecipient,
+    protocolFeeRecipient: contractOwner,
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Receipt and log decoder
+ * `NameRegistered` and `NamespaceRegistered` index their strings, so logs only carry keccak256 hashes.
+ * The plaintext is recovered by matching the hashes against the strings in the transaction's calldata
+ * (`registerName`, `registerNameWithAuthorization`, `batchRegisterNameWithAuthorization`, namespace
+ * registration and ownership functions) and, for names, against `getName(owner)` as a fallback.
+ */
+
+import { Log, Result, TransactionReceipt, getAddress, id } from "ethers";
+import { BARE_NAME_NAMESPACE } from "./constants";
+import { formatXnsName, parseXnsName } from "./names";
+import { XnsClient } from "./XnsClient";
+
+export interface DecodedNameRegistered {
+  event: "NameRegistered";
+  // `null` if the plaintext could not be recovered
+  label: string | null;
+  namespace: string | null;
+  // As returned by `getName` (bare names without ".x"); `null` if label or namespace is unknown
+  fullName: string | null;
+  labelHash: string;
+  namespaceHash: string;
+  owner: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface DecodedNamespaceRegistered {
+  event: "NamespaceRegistered";
+  // `null` if the plaintext could not be recovered
+  namespace: string | null;
+  namespaceHash: string;
+  pricePerName: bigint;
+  owner: string;
+  isPrivate: boolean;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface DecodedFeesClaimed {
+  event: "FeesClaimed";
+  recipient: string;
+  amount: bigint;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface DecodedNamespaceOwnerTransferStarted {
+  event: "NamespaceOwnerTransferStarted";
+  // `null` if the plaintext could not be recovered
+  namespace: string | null;
+  namespaceHash: string;
+  oldOwner: string;
+  // The zero address if a pending transfer was cancelled
+  newOwner: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface DecodedNamespaceOwnerTransferAccepted {
+  event: "NamespaceOwnerTransferAccepted";
+  // `null` if the plaintext could not be recovered
+  namespace: string | null;
+  namespaceHash: string;
+  newOwner: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type DecodedXnsEvent =
+  | DecodedNameRegistered
+  | DecodedNamespaceRegistered
+  | DecodedFeesClaimed
+  | DecodedNamespaceOwnerTransferStarted
+  | DecodedNamespaceOwnerTransferAccepted;
+
+export interface DecodedReceipt {
+  transactionHash: string;
+  blockNumber: number;
+  // Events in log order
+  events: DecodedXnsEvent[];
+  nameRegistrations: DecodedNameRegistered[];
+  namespaceRegistrations: DecodedNamespaceRegistered[];
+}
+
+/**
+ * Collects all strings contained in decoded calldata arguments (including tuples and arrays)
+ * @param value The decoded arguments
+ */
+function collectStrings(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value) || value instanceof Result) {
+    return [...value].flatMap(collectStrings);
+  }
+  return [];
+}
+
+/**
+ * Returns the strings passed to an XNS function call, or an empty list if `data` is not an XNS call
+ * @param client The XNS client
+ * @param data The transaction calldata
+ */
+export function getCalldataStrings(client: XnsClient, data: string): string[] {
+  try {
+    const parsed = client.contract.interface.parseTransaction({ data });
+    return parsed ? collectStrings(parsed.args) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Decodes the `NameRegistered`, `NamespaceRegistered`, `FeesClaimed` and namespace ownership transfer logs
+ * emitted by XNS (other logs, e.g. of `Ownable2Step`, are ignored)
+ * @param client The XNS client
+ * @param logs The logs to decode
+ * @param candidates Plaintext candidates (e.g. the strings of the transaction calldata); the bare name
+ * namespace "x" is always included
+ * @returns The decoded events in input order; label and namespace are `null` if no candidate matches
+ */
+export function decodeXnsLogs(
+  client: XnsClient,
+  logs: readonly Log[],
+  candidates: string[] = [],
+): DecodedXnsEvent[] {
+  const plaintext = new Map<string, string>();
+  for (const candidate of [BARE_NAME_NAMESPACE, ...candidates]) {
+    plaintext.set(id(candidate), candidate);
+  }
+  const lookup = (hash: string) => plaintext.get(hash) ?? null;
+
+  const events: DecodedXnsEvent[] = [];
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== client.address.toLowerCase()) {
+      continue;
+    }
+    const parsed = client.contract.interface.parseLog(log);
+    const location = {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+
+    if (parsed?.name === "NameRegistered") {
+      const [, labelHash, namespaceHash, ownerTopic] = log.topics;
+      const label = lookup(labelHash);
+      const namespace = lookup(namespaceHash);
+      events.push({
+        event: "NameRegistered",
+        label,
+        namespace,
+        fullName:
+          label !== null && namespace !== null
+            ? formatXnsName(label, namespace)
+            : null,
+        labelHash,
+        namespaceHash,
+        owner: getAddress(`0x${ownerTopic.slice(26)}`),
+        ...location,
+      });
+    } else if (parsed?.name === "NamespaceRegistered") {
+      const namespaceHash = log.topics[1];
+      events.push({
+        event: "NamespaceRegistered",
+        namespace: lookup(namespaceHash),
+        namespaceHash,
+        pricePerName: parsed.args[1],
+        owner: parsed.args[2],
+        isPrivate: parsed.args[3],
+        ...location,
+      });
+    } else if (parsed?.name === "FeesClaimed") {
+      events.push({
+        event: "FeesClaimed",
+        recipient: parsed.args[0],
+        amount: parsed.args[1],
+        ...location,
+      });
+    } else if (parsed?.name === "NamespaceOwnerTransferStarted") {
+      const namespaceHash = log.topics[1];
+      events.push({
+        event: "NamespaceOwnerTransferStarted",
+        namespace: lookup(namespaceHash),
+        namespaceHash,
+        oldOwner: parsed.args[1],
+        newOwner: parsed.args[2],
+        ...location,
+      });
+    } else if (parsed?.name === "NamespaceOwnerTransferAccepted") {
+      const namespaceHash = log.topics[1];
+      events.push({
+        event: "NamespaceOwnerTransferAccepted",
+        namespace: lookup(namespaceHash),
+        namespaceHash,
+        newOwner: parsed.args[1],
+        ...location,
+      });
+    }
+  }
+  return events;
+}
+
+/**
+ * Recovers label and namespace of decoded `NameRegistered` events without plaintext via `getName(owner)`,
+ * which never changes once set (e.g. for registrations through another contract)
+ * @param client The XNS client
+ * @param events The decoded events; updated in place
+ */
+export async function recoverRegisteredNames(
+  client: XnsClient,
+  events: DecodedXnsEvent[],
+): Promise<void> {
+  for (const event of events) {
+    if (event.event !== "NameRegistered" || event.fullName !== null) {
+      continue;
+    }
+    const parsed = parseXnsName(await client.reverseResolve(event.owner));
+    if (
+      parsed &&
+      id(parsed.label) === event.labelHash &&
+      id(parsed.namespace) === event.namespaceHash
+    ) {
+      event.label = parsed.label;
+      event.namespace = parsed.namespace;
+      event.fullName = formatXnsName(parsed.label, parsed.namespace);
+    }
+  }
+}
+
+/**
+ * Decodes the XNS events of a transaction with plaintext labels and namespaces
+ * Strings are recovered from the transaction calldata if it calls XNS directly; names that are still
+ * unknown (e.g. registrations through another contract) are recovered via `getName(owner)`, which never
+ * changes once set
+ * @param client The XNS client
+ * @param receiptOrHash The transaction receipt or hash
+ * @param candidates Additional plaintext candidates (e.g. namespaces registered through another contract)
+ */
+export async function decodeReceipt(
+  client: XnsClient,
+  receiptOrHash: TransactionReceipt | string,
+  candidates: string[] = [],
+): Promise<DecodedReceipt> {
+  const provider = client.provider;
+  const receipt =
+    typeof receiptOrHash === "string"
+      ? await provider.getTransactionReceipt(receiptOrHash)
+      : receiptOrHash;
+  if (!receipt) {
+    throw new Error(`decodeReceipt: transaction not found: ${receiptOrHash}`);
+  }
+
+  const tx = await provider.getTransaction(receipt.hash);
+  const calldataStrings =
+    tx && tx.to?.toLowerCase() === client.address.toLowerCase()
+      ? getCalldataStrings(client, tx.data)
+      : [];
+
+  const events = decodeXnsLogs(client, receipt.logs, [
+    ...calldataStrings,
+    ...candidates,
+  ]);
+  await recoverRegisteredNames(client, events);
+
+  return {
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    events,
+    nameRegistrations: events.filter(
+      (e): e is DecodedNameRegistered => e.event === "NameRegistered",
+    ),
+    namespaceRegistrations: events.filter(
+      (e): e is DecodedNamespaceRegistered => e.event === "NamespaceRegistered",
+    ),
+  };
+}
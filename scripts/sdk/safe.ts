@@ -0,0 +1,340 @@
+/**
+ * `RegisterNameAuth` signatures for Safe multisig recipients
+ * A Safe validates ERC-1271 signatures with its `CompatibilityFallbackHandler`: the hash passed to
+ * `isValidSignature` (here the XNS EIP-712 digest) is wrapped in an EIP-712 `SafeMessage(bytes message)` of the
+ * Safe's own domain, and `threshold` owners must sign that message. Their 65-byte signatures are concatenated in
+ * ascending order of the owner addresses. Supports Safe v1.3.0 and later (domain without name and version).
+ */
+
+import {
+  AbiCoder,
+  Contract,
+  Provider,
+  Signer,
+  TypedDataEncoder,
+  concat,
+  dataLength,
+  dataSlice,
+  getAddress,
+  getBytes,
+  hashMessage,
+  isHexString,
+  recoverAddress,
+} from "ethers";
+import { RegisterNameAuth } from "./types";
+import { getXnsTypedDataDomain } from "./typedData";
+import { hashRegisterNameAuth } from "./signatures";
+import { XnsClient } from "./XnsClient";
+
+export const SAFE_MESSAGE_TYPES = {
+  SafeMessage: [{ name: "message", type: "bytes" }],
+};
+
+const safeAbi = [
+  "function getOwners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+];
+
+export interface SafeInfo {
+  address: string;
+  chainId: number;
+  owners: string[];
+  threshold: number;
+}
+
+export interface SafeMessageDomain {
+  chainId: number;
+  verifyingContract: string;
+}
+
+/**
+ * `eth_signTypedData_v4` payload of a `SafeMessage` (serialize with `JSON.stringify`)
+ */
+export interface SafeMessageTypedData {
+  types: {
+    EIP712Domain: { name: string; type: string }[];
+    SafeMessage: { name: string; type: string }[];
+  };
+  primaryType: "SafeMessage";
+  domain: SafeMessageDomain;
+  message: { message: string };
+}
+
+export interface SafeOwnerSignature {
+  owner: string;
+  signature: string;
+}
+
+export interface SafeSignatureCheck {
+  isValid: boolean;
+  // Owners whose signature was found, in signature order
+  signers: string[];
+  // Number of additional owner signatures needed (0 if enough owners signed)
+  missing: number;
+  // Why the signature is rejected; `undefined` if valid
+  error?: string;
+}
+
+/**
+ * Reads the owners and threshold of a Safe
+ * @param provider The provider
+ * @param address The Safe address
+ */
+export async function getSafeInfo(
+  provider: Provider,
+  address: string,
+): Promise<SafeInfo> {
+  const safe = new Contract(address, safeAbi, provider);
+  const [owners, threshold, { chainId }] = await Promise.all([
+    safe.getFunction("getOwners")() as Promise<string[]>,
+    safe.getFunction("getThreshold")() as Promise<bigint>,
+    provider.getNetwork(),
+  ]);
+  return {
+    address: getAddress(address),
+    chainId: Number(chainId),
+    owners: owners.map((owner) => getAddress(owner)),
+    threshold: Number(threshold),
+  };
+}
+
+/**
+ * Returns the XNS digest that `isValidSignature` passes to the Safe for `auth`
+ * @param client The XNS client
+ * @param auth The registration (with the Safe as recipient)
+ */
+export async function getSafeRegisterNameAuthDigest(
+  client: XnsClient,
+  auth: RegisterNameAuth,
+): Promise<string> {
+  return hashRegisterNameAuth(await getXnsTypedDataDomain(client), auth);
+}
+
+/**
+ * Builds the `eth_signTypedData_v4` payload the owners sign (also shown by the Safe{Wallet} interface)
+ * @param safe The Safe
+ * @param digest The XNS digest (see `getSafeRegisterNameAuthDigest`)
+ */
+export function buildSafeMessageTypedData(
+  safe: Pick<SafeInfo, "address" | "chainId">,
+  digest: string,
+): SafeMessageTypedData {
+  return {
+    types: {
+      EIP712Domain: [
+        { name: "chainId", type: "uint256" },
+        { name: "verifyingContract", type: "address" },
+      ],
+      SafeMessage: [...SAFE_MESSAGE_TYPES.SafeMessage],
+    },
+    primaryType: "SafeMessage",
+    domain: { chainId: safe.chainId, verifyingContract: safe.address },
+    // `CompatibilityFallbackHandler.isValidSignature(bytes32,bytes)` wraps `abi.encode(hash)`
+    message: {
+      message: AbiCoder.defaultAbiCoder().encode(["bytes32"], [digest]),
+    },
+  };
+}
+
+/**
+ * Computes the hash the owners sign (`getMessageHash` of the Safe's fallback handler)
+ * @param safe The Safe
+ * @param digest The XNS digest
+ */
+export function hashSafeMessage(
+  safe: Pick<SafeInfo, "address" | "chainId">,
+  digest: string,
+): string {
+  const { domain, message } = buildSafeMessageTypedData(safe, digest);
+  return TypedDataEncoder.hash(domain, SAFE_MESSAGE_TYPES, message);
+}
+
+/**
+ * Signs the `SafeMessage` of a registration with an owner of the Safe
+ * @param client The XNS client
+ * @param safe The Safe (see `getSafeInfo`)
+ * @param auth The registration (with the Safe as recipient)
+ * @param signer An owner of the Safe
+ */
+export async function signSafeRegisterNameAuth(
+  client: XnsClient,
+  safe: SafeInfo,
+  auth: RegisterNameAuth,
+  signer: Signer,
+): Promise<SafeOwnerSignature> {
+  const owner = getAddress(await signer.getAddress());
+  if (!safe.owners.includes(owner)) {
+    throw new Error(`${owner} is not an owner of Safe ${safe.address}`);
+  }
+  const { domain, message } = buildSafeMessageTypedData(
+    safe,
+    await getSafeRegisterNameAuthDigest(client, auth),
+  );
+  return {
+    owner,
+    signature: await signer.signTypedData(domain, SAFE_MESSAGE_TYPES, message),
+  };
+}
+
+/**
+ * Recovers the owner of a single owner signature, e.g. one returned from another wallet
+ * Accepts EIP-712 signatures (`v` 27/28) and `eth_sign` signatures of the Safe message hash (`v` 31/32).
+ * @param safe The Safe
+ * @param digest The XNS digest
+ * @param signature The 65-byte owner signature
+ */
+export function recoverSafeOwnerSignature(
+  safe: SafeInfo,
+  digest: string,
+  signature: string,
+): SafeOwnerSignature {
+  if (!isHexString(signature) || dataLength(signature) !== 65) {
+    throw new Error("Invalid owner signature: expected 65 bytes");
+  }
+  const owner = recoverSafeSigner(hashSafeMessage(safe, digest), signature);
+  if (owner === null) {
+    throw new Error("Invalid owner signature: signer not recoverable");
+  }
+  if (!safe.owners.includes(owner)) {
+    throw new Error(
+      `Owner signature was made by ${owner}, not by an owner of Safe ${safe.address}`,
+    );
+  }
+  return { owner, signature };
+}
+
+/**
+ * Concatenates owner signatures in the order the Safe expects (ascending owner address)
+ * @param safe The Safe
+ * @param signatures The owner signatures (at least `threshold`, one per owner)
+ */
+export function encodeSafeSignatures(
+  safe: SafeInfo,
+  signatures: SafeOwnerSignature[],
+): string {
+  const byOwner = new Map<string, SafeOwnerSignature>();
+  for (const signature of signatures) {
+    const owner = getAddress(signature.owner);
+    if (!safe.owners.includes(owner)) {
+      throw new Error(`${owner} is not an owner of Safe ${safe.address}`);
+    }
+    const existing = byOwner.get(owner);
+    if (existing && existing.signature !== signature.signature) {
+      throw new Error(`Conflicting signatures of owner ${owner}`);
+    }
+    byOwner.set(owner, { owner, signature: signature.signature });
+  }
+  if (byOwner.size < safe.threshold) {
+    throw new Error(
+      `Safe ${safe.address} needs ${safe.threshold} owner signatures, got ${byOwner.size}`,
+    );
+  }
+  const sorted = [...byOwner.values()].sort((a, b) =>
+    BigInt(a.owner) < BigInt(b.owner) ? -1 : 1,
+  );
+  return concat(sorted.map(({ signature }) => signature));
+}
+
+/**
+ * Signs a registration with owners of the Safe until the threshold is reached and returns the Safe signature
+ * @param client The XNS client
+ * @param auth The registration (with the Safe as recipient)
+ * @param signers Owners of the Safe; signers beyond the threshold are not asked to sign
+ */
+export async function collectSafeSignatures(
+  client: XnsClient,
+  auth: RegisterNameAuth,
+  signers: Signer[],
+): Promise<{
+  safe: SafeInfo;
+  signatures: SafeOwnerSignature[];
+  signature: string;
+}> {
+  const safe = await getSafeInfo(client.provider, auth.recipient);
+  const signatures: SafeOwnerSignature[] = [];
+  for (const signer of signers) {
+    if (signatures.length === safe.threshold) {
+      break;
+    }
+    signatures.push(await signSafeRegisterNameAuth(client, safe, auth, signer));
+  }
+  return {
+    safe,
+    signatures,
+    signature: encodeSafeSignatures(safe, signatures),
+  };
+}
+
+/**
+ * Checks a Safe signature before sponsoring: lists the owners that signed and confirms the signature with
+ * the contract's `isValidSignature` (which calls the Safe)
+ * @param client The XNS client
+ * @param auth The registration (with the Safe as recipient)
+ * @param signature The concatenated owner signatures
+ */
+export async function checkSafeRegisterNameAuthSignature(
+  client: XnsClient,
+  auth: RegisterNameAuth,
+  signature: string,
+): Promise<SafeSignatureCheck> {
+  const safe = await getSafeInfo(client.provider, auth.recipient);
+  const messageHash = hashSafeMessage(
+    safe,
+    await getSafeRegisterNameAuthDigest(client, auth),
+  );
+
+  const signers: string[] = [];
+  let error: string | undefined;
+  const length = isHexString(signature) ? dataLength(signature) : 0;
+  for (let offset = 0; offset + 65 <= length; offset += 65) {
+    const owner = recoverSafeSigner(
+      messageHash,
+      dataSlice(signature, offset, offset + 65),
+    );
+    if (owner === null || !safe.owners.includes(owner)) {
+      error ??= `signature ${offset / 65 + 1} is not made by an owner`;
+      continue;
+    }
+    if (signers.length > 0 && BigInt(owner) <= BigInt(signers.at(-1)!)) {
+      error ??= "owner signatures are not sorted by owner address";
+    }
+    signers.push(owner);
+  }
+  const missing = Math.max(0, safe.threshold - new Set(signers).size);
+  if (missing > 0) {
+    error ??= `${missing} more owner signature(s) needed (threshold ${safe.threshold})`;
+  }
+
+  const isValid = await client.isValidSignature(auth, signature);
+  if (!isValid) {
+    error ??= "the Safe does not accept the signature (ERC-1271)";
+  }
+  return { isValid, signers, missing, error: isValid ? undefined : error };
+}
+
+/**
+ * Recovers the signer of a 65-byte owner signature like `checkNSignatures` (`v` > 30: `eth_sign`)
+ * @returns The signer, or `null` for contract signatures, approved hashes and unrecoverable signatures
+ */
+function recoverSafeSigner(
+  messageHash: string,
+  signature: string,
+): string | null {
+  const v = getBytes(signature)[64];
+  if (v < 27) {
+    return null;
+  }
+  const ethSign = v > 30;
+  try {
+    return recoverAddress(
+      ethSign ? hashMessage(getBytes(messageHash)) : messageHash,
+      {
+        r: dataSlice(signature, 0, 32),
+        s: dataSlice(signature, 32, 64),
+        v: ethSign ? v - 4 : v,
+      },
+    );
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,380 @@
+/**
+ * Off-chain `RegisterNameAuth` signature verifier
+ * Mirrors `_isValidSignature` (OpenZeppelin `SignatureChecker`): ECDSA recovery for recipients without code,
+ * an ERC-1271 `isValidSignature` eth_call for recipients with code (including EIP-7702 delegated accounts).
+ * If the signature is rejected, the likely mistakes (wrong chain ID or contract, wrong signer, label/namespace
+ * casing, unnormalized signature encodings, plain ECDSA for a delegated account) are tried and the ones that
+ * explain the signature are reported.
+ */
+
+import {
+  Interface,
+  Signature,
+  TypedDataEncoder,
+  dataLength,
+  dataSlice,
+  getAddress,
+  getBytes,
+  isHexString,
+  recoverAddress,
+  zeroPadBytes,
+} from "ethers";
+import { XNS_ADDRESS } from "../../constants/addresses";
+import {
+  delegatedRecipientMessage,
+  parseDelegationDesignator,
+} from "./eip7702";
+import { RegisterNameAuth } from "./types";
+import {
+  REGISTER_NAME_AUTH_TYPES,
+  XnsTypedDataDomain,
+  getXnsTypedDataDomain,
+} from "./typedData";
+import { XnsClient } from "./XnsClient";
+
+// Half the order of secp256k1; ECDSA.sol rejects signatures with a larger `s`
+const SECP256K1_HALF_N =
+  0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0n;
+
+// Chain IDs tried when looking for a wrong chain ID (in addition to `options.chainIds`)
+const DEFAULT_CHAIN_IDS = [1, 11155111, 31337];
+
+const ERC1271_MAGIC_VALUE = "0x1626ba7e";
+
+const erc1271 = new Interface([
+  "function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)",
+]);
+
+export type SignatureMismatchKind =
+  | "WRONG_CHAIN_ID"
+  | "WRONG_VERIFYING_CONTRACT"
+  | "CASING"
+  | "UNNORMALIZED_V"
+  | "COMPACT_SIGNATURE"
+  | "EIP7702_DELEGATED"
+  | "WRONG_SIGNER";
+
+export interface SignatureMismatch {
+  kind: SignatureMismatchKind;
+  description: string;
+  // Domain and message the signature was made for (the expected ones for `WRONG_SIGNER`)
+  domain: XnsTypedDataDomain;
+  auth: RegisterNameAuth;
+  // Encoding of the same signature the contract accepts (`UNNORMALIZED_V` and `COMPACT_SIGNATURE` only)
+  fixedSignature?: string;
+}
+
+export interface SignatureVerification {
+  isValid: boolean;
+  // "contract" if the recipient has code and "delegated" if it is an EIP-7702 delegated account (ERC-1271 check
+  // for both), "EOA" otherwise (ECDSA check)
+  recipientType: "EOA" | "contract" | "delegated";
+  // The EIP-7702 delegate of a "delegated" recipient
+  delegate?: string;
+  // Address recovered via ECDSA from the expected digest; `null` if the signature is not a valid ECDSA signature
+  recoveredSigner: string | null;
+  // Why the signature is rejected; `undefined` if valid
+  error?: string;
+  // Mistakes that explain the signature; empty if valid or if no tried mistake matches
+  mismatches: SignatureMismatch[];
+}
+
+export interface VerifySignatureOptions {
+  // Additional chain IDs to try (mainnet, Sepolia and Hardhat are always tried)
+  chainIds?: number[];
+  // Additional XNS addresses to try (the addresses in `constants/addresses.ts` are always tried)
+  verifyingContracts?: string[];
+}
+
+/**
+ * Computes the EIP-712 digest the contract verifies (`_hashTypedDataV4(_getRegisterNameAuthHash(...))`)
+ * @param domain The EIP-712 domain
+ * @param auth The registration
+ */
+export function hashRegisterNameAuth(
+  domain: XnsTypedDataDomain,
+  auth: RegisterNameAuth,
+): string {
+  return TypedDataEncoder.hash(domain, REGISTER_NAME_AUTH_TYPES, auth);
+}
+
+/**
+ * Recovers the signer like `ECDSA.tryRecover(bytes32, bytes)` (65-byte signatures, `v` 27/28, low `s`)
+ * @returns The signer, or an error if the contract would not accept the encoding
+ */
+function tryRecover(
+  digest: string,
+  signature: string,
+): { signer: string | null; error?: string } {
+  if (dataLength(signature) !== 65) {
+    return {
+      signer: null,
+      error: `invalid signature length: ${dataLength(signature)} bytes (expected 65)`,
+    };
+  }
+  const s = dataSlice(signature, 32, 64);
+  const v = getBytes(signature)[64];
+  if (BigInt(s) > SECP256K1_HALF_N) {
+    return { signer: null, error: "invalid signature: non-canonical (high) s" };
+  }
+  if (v !== 27 && v !== 28) {
+    return {
+      signer: null,
+      error: `invalid signature: v is ${v} (expected 27 or 28)`,
+    };
+  }
+  try {
+    return {
+      signer: recoverAddress(digest, {
+        r: dataSlice(signature, 0, 32),
+        s,
+        v,
+      }),
+    };
+  } catch {
+    return { signer: null, error: "invalid signature: signer not recoverable" };
+  }
+}
+
+/**
+ * Converts signature encodings that wallets produce but `ECDSA.sol` rejects (`v` of 0/1, 64-byte EIP-2098
+ * compact signatures) into the 65-byte encoding
+ * @returns The 65-byte signature, or `null` if `signature` is in neither encoding
+ */
+function normalizeSignature(
+  signature: string,
+): { kind: "UNNORMALIZED_V" | "COMPACT_SIGNATURE"; signature: string } | null {
+  const length = dataLength(signature);
+  if (length === 65 && getBytes(signature)[64] <= 1) {
+    const v = getBytes(signature)[64] + 27;
+    return {
+      kind: "UNNORMALIZED_V",
+      signature: `${dataSlice(signature, 0, 64)}${v.toString(16)}`,
+    };
+  }
+  if (length === 64) {
+    try {
+      return {
+        kind: "COMPACT_SIGNATURE",
+        signature: Signature.from(signature).serialized,
+      };
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Casing and whitespace variants of a label or namespace a signer may have used instead
+ */
+function casingVariants(value: string): string[] {
+  return [
+    ...new Set([
+      value.toLowerCase(),
+      value.toUpperCase(),
+      value.trim(),
+      value.trim().toLowerCase(),
+    ]),
+  ].filter((variant) => variant !== value);
+}
+
+/**
+ * Verifies a `RegisterNameAuth` signature off-chain exactly like the contract and, if it is rejected,
+ * explains why
+ * Tried mistakes: another chain ID (`WRONG_CHAIN_ID`), another XNS deployment (`WRONG_VERIFYING_CONTRACT`),
+ * different label/namespace casing or whitespace (`CASING`), `v` of 0/1 (`UNNORMALIZED_V`), 64-byte compact
+ * signatures (`COMPACT_SIGNATURE`), a plain ECDSA signature of an EIP-7702 delegated recipient
+ * (`EIP7702_DELEGATED`). If none of them matches, a signature from an account other than the recipient is
+ * reported as `WRONG_SIGNER`.
+ * @param client The XNS client
+ * @param auth The registration the signature should authorize
+ * @param signature The signature
+ * @param options Additional chain IDs and XNS addresses to try
+ */
+export async function verifyRegisterNameAuthSignature(
+  client: XnsClient,
+  auth: RegisterNameAuth,
+  signature: string,
+  options: VerifySignatureOptions = {},
+): Promise<SignatureVerification> {
+  const provider = client.provider;
+  const [domain, code] = await Promise.all([
+    getXnsTypedDataDomain(client),
+    provider.getCode(auth.recipient),
+  ]);
+  const delegate = parseDelegationDesignator(code);
+  const recipientType =
+    code === "0x" ? "EOA" : delegate !== null ? "delegated" : "contract";
+  const delegateField = delegate !== null ? { delegate } : {};
+
+  if (!isHexString(signature)) {
+    return {
+      isValid: false,
+      recipientType,
+      ...delegateField,
+      recoveredSigner: null,
+      error: "signature is not a hex string",
+      mismatches: [],
+    };
+  }
+
+  // `SignatureChecker.isValidSignatureNow` for a given digest and signature
+  const isValidFor = async (digest: string, sig: string) => {
+    if (recipientType === "EOA") {
+      const { signer } = tryRecover(digest, sig);
+      return signer !== null && signer === getAddress(auth.recipient);
+    }
+    try {
+      const result = await provider.call({
+        to: auth.recipient,
+        data: erc1271.encodeFunctionData("isValidSignature", [digest, sig]),
+      });
+      return (
+        dataLength(result) >= 32 &&
+        dataSlice(result, 0, 32) === zeroPadBytes(ERC1271_MAGIC_VALUE, 32)
+      );
+    } catch {
+      return false;
+    }
+  };
+
+  const digest = hashRegisterNameAuth(domain, auth);
+  const recovered = tryRecover(digest, signature);
+  if (await isValidFor(digest, signature)) {
+    return {
+      isValid: true,
+      recipientType,
+      ...delegateField,
+      recoveredSigner: recovered.signer,
+      mismatches: [],
+    };
+  }
+
+  const signedByRecipient = recovered.signer === getAddress(auth.recipient);
+  const error =
+    recipientType === "contract"
+      ? "recipient contract does not accept the signature (ERC-1271)"
+      : recipientType === "delegated"
+        ? signedByRecipient
+          ? delegatedRecipientMessage(auth.recipient, delegate!)
+          : "recipient's EIP-7702 delegate does not accept the signature (ERC-1271)"
+        : (recovered.error ??
+          `signature was made by ${recovered.signer}, not by the recipient`);
+  const mismatches: SignatureMismatch[] = [];
+
+  // Plain ECDSA signature of a delegated recipient (valid if the account had no code)
+  if (recipientType === "delegated" && signedByRecipient) {
+    mismatches.push({
+      kind: "EIP7702_DELEGATED",
+      description: `plain ECDSA signature of the recipient, which is delegated to ${delegate} via EIP-7702; sign with the delegate's EIP-1271 scheme instead`,
+      domain,
+      auth,
+    });
+  }
+
+  // Wrong domain: other chain IDs and other XNS deployments
+  const networkOf = (address: string) =>
+    Object.keys(XNS_ADDRESS).find(
+      (network) => XNS_ADDRESS[network].toLowerCase() === address.toLowerCase(),
+    );
+  const chainIds = [
+    ...new Set([
+      domain.chainId,
+      ...DEFAULT_CHAIN_IDS,
+      ...(options.chainIds ?? []),
+    ]),
+  ];
+  const contracts = [
+    ...new Set(
+      [
+        domain.verifyingContract,
+        ...Object.values(XNS_ADDRESS),
+        ...(options.verifyingContracts ?? []),
+      ].map((address) => getAddress(address)),
+    ),
+  ];
+  for (const verifyingContract of contracts) {
+    for (const chainId of chainIds) {
+      const candidate = { ...domain, chainId, verifyingContract };
+      const sameContract =
+        verifyingContract === getAddress(domain.verifyingContract);
+      if (sameContract && chainId === domain.chainId) {
+        continue;
+      }
+      if (
+        !(await isValidFor(hashRegisterNameAuth(candidate, auth), signature))
+      ) {
+        continue;
+      }
+      const network = networkOf(verifyingContract);
+      mismatches.push({
+        kind: sameContract ? "WRONG_CHAIN_ID" : "WRONG_VERIFYING_CONTRACT",
+        description: sameContract
+          ? `signed for chain ID ${chainId} instead of ${domain.chainId}`
+          : `signed for the XNS contract ${verifyingContract}${network ? ` (${network})` : ""} on chain ID ${chainId} instead of ${domain.verifyingContract} on chain ID ${domain.chainId}`,
+        domain: candidate,
+        auth,
+      });
+    }
+  }
+
+  // Label or namespace signed with different casing or whitespace
+  for (const label of [auth.label, ...casingVariants(auth.label)]) {
+    for (const namespace of [
+      auth.namespace,
+      ...casingVariants(auth.namespace),
+    ]) {
+      if (label === auth.label && namespace === auth.namespace) {
+        continue;
+      }
+      const candidate = { recipient: auth.recipient, label, namespace };
+      if (
+        await isValidFor(hashRegisterNameAuth(domain, candidate), signature)
+      ) {
+        mismatches.push({
+          kind: "CASING",
+          description: `signed for label "${label}" and namespace "${namespace}" instead of "${auth.label}" and "${auth.namespace}"`,
+          domain,
+          auth: candidate,
+        });
+      }
+    }
+  }
+
+  // Encodings the contract does not accept
+  const normalized = normalizeSignature(signature);
+  if (normalized && (await isValidFor(digest, normalized.signature))) {
+    mismatches.push({
+      kind: normalized.kind,
+      description:
+        normalized.kind === "UNNORMALIZED_V"
+          ? "signature uses v = 0/1 instead of 27/28"
+          : "signature uses the 64-byte compact encoding (EIP-2098) instead of 65 bytes",
+      domain,
+      auth,
+      fixedSignature: normalized.signature,
+    });
+  }
+
+  if (mismatches.length === 0 && recovered.signer !== null) {
+    mismatches.push({
+      kind: "WRONG_SIGNER",
+      description:
+        recipientType !== "EOA"
+          ? `signed by ${recovered.signer}, which the recipient contract does not accept`
+          : `signed by ${recovered.signer} instead of the recipient ${getAddress(auth.recipient)}`,
+      domain,
+      auth,
+    });
+  }
+
+  return {
+    isValid: false,
+    recipientType,
+    ...delegateField,
+    recoveredSigner: recovered.signer,
+    error,
+    mismatches,
+  };
+}
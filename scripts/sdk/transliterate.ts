@@ -0,0 +1,225 @@
+/**
+ * Unicode transliteration for non-ASCII names
+ * XNS only accepts [a-z0-9-] and forbids "--", so punycode ("xn--") can never be registered. This module
+ * maps common Latin-extended, Greek and Cyrillic input to deterministic ASCII candidates
+ * ("müller" -> "mueller", "josé" -> "jose", "Ødegaard" -> "odegaard")
+ */
+
+import { ZeroAddress } from "ethers";
+import { normalizeLabel } from "./normalize";
+import { ValidationResult } from "./validation";
+import { XnsClient } from "./XnsClient";
+
+export interface TransliterationCandidate {
+  label: string;
+  validation: ValidationResult;
+}
+
+export interface TransliterationResult {
+  input: string;
+  // Candidates in order of preference; empty if any character could not be mapped
+  candidates: TransliterationCandidate[];
+  // Characters without ASCII mapping (e.g. CJK characters or emojis)
+  unmappable: { char: string; index: number }[];
+}
+
+export interface CandidateAvailability extends TransliterationCandidate {
+  // `null` if the candidate is not a valid label
+  available: boolean | null;
+  owner: string | null;
+}
+
+// Maximum number of candidates returned for inputs with several ambiguous characters
+const MAX_CANDIDATES = 8;
+
+// Characters with more than one common ASCII spelling (preferred spelling first) or without
+// a Unicode decomposition into an ASCII base letter
+const LATIN: Record<string, string[]> = {
+  ä: ["ae", "a"],
+  ö: ["oe", "o"],
+  ü: ["ue", "u"],
+  ß: ["ss"],
+  ø: ["o", "oe"],
+  å: ["a", "aa"],
+  æ: ["ae"],
+  œ: ["oe"],
+  ł: ["l"],
+  đ: ["d"],
+  ð: ["d"],
+  þ: ["th"],
+  ħ: ["h"],
+  ı: ["i"],
+  ŋ: ["ng"],
+  ĸ: ["k"],
+};
+
+const GREEK: Record<string, string[]> = {
+  α: ["a"],
+  β: ["v", "b"],
+  γ: ["g"],
+  δ: ["d"],
+  ε: ["e"],
+  ζ: ["z"],
+  η: ["i", "e"],
+  θ: ["th"],
+  ι: ["i"],
+  κ: ["k"],
+  λ: ["l"],
+  μ: ["m"],
+  ν: ["n"],
+  ξ: ["x", "ks"],
+  ο: ["o"],
+  π: ["p"],
+  ρ: ["r"],
+  σ: ["s"],
+  ς: ["s"],
+  τ: ["t"],
+  υ: ["y", "u"],
+  φ: ["f", "ph"],
+  χ: ["ch", "x"],
+  ψ: ["ps"],
+  ω: ["o"],
+};
+
+const CYRILLIC: Record<string, string[]> = {
+  а: ["a"],
+  б: ["b"],
+  в: ["v"],
+  г: ["g"],
+  ґ: ["g"],
+  д: ["d"],
+  е: ["e"],
+  ё: ["e", "yo"],
+  є: ["ye"],
+  ж: ["zh"],
+  з: ["z"],
+  и: ["i"],
+  і: ["i"],
+  ї: ["yi"],
+  й: ["y", "i"],
+  к: ["k"],
+  л: ["l"],
+  м: ["m"],
+  н: ["n"],
+  о: ["o"],
+  п: ["p"],
+  р: ["r"],
+  с: ["s"],
+  т: ["t"],
+  у: ["u"],
+  ф: ["f"],
+  х: ["kh", "h"],
+  ц: ["ts"],
+  ч: ["ch"],
+  ш: ["sh"],
+  щ: ["shch"],
+  ъ: [""],
+  ы: ["y"],
+  ь: [""],
+  э: ["e"],
+  ю: ["yu"],
+  я: ["ya"],
+};
+
+const TABLE: Record<string, string[]> = { ...LATIN, ...GREEK, ...CYRILLIC };
+
+// Characters passed through unchanged (separators are handled by `normalizeLabel`)
+const PASSTHROUGH = /^[a-z0-9\-_ .@]$/;
+
+/**
+ * Returns the ASCII options for a single (lowercase) character, or `null` if it cannot be mapped
+ * @param char The character to map
+ */
+function mapChar(char: string): string[] | null {
+  if (PASSTHROUGH.test(char)) {
+    return [char];
+  }
+  if (TABLE[char]) {
+    return TABLE[char];
+  }
+
+  // Strip diacritics (é -> e, ñ -> n, č -> c, ά -> α) and retry
+  const base = char.normalize("NFD").replace(/\p{M}/gu, "");
+  if (base !== char && base.length > 0) {
+    const options = Array.from(base).map(mapChar);
+    if (options.every((o) => o !== null)) {
+      return [options.map((o) => o![0]).join("")];
+    }
+  }
+  return null;
+}
+
+/**
+ * Transliterates a name into deterministic ASCII label candidates
+ * @param input The raw user input (e.g. "Müller", "José", "Ødegaard", "Андрей")
+ * @returns Up to 8 candidates (preferred spelling first), each normalized and validated like
+ * `normalizeLabel`; no candidates if a character cannot be mapped
+ */
+export function transliterate(input: string): TransliterationResult {
+  const chars = Array.from(input.normalize("NFC").toLowerCase());
+  const unmappable: { char: string; index: number }[] = [];
+  const options: string[][] = [];
+
+  chars.forEach((char, index) => {
+    const mapped = mapChar(char);
+    if (mapped === null) {
+      unmappable.push({ char, index });
+    } else {
+      options.push(mapped);
+    }
+  });
+
+  if (unmappable.length > 0) {
+    return { input, candidates: [], unmappable };
+  }
+
+  // Cartesian product in order of preference, capped at `MAX_CANDIDATES`
+  let spellings = [""];
+  for (const option of options) {
+    spellings = spellings
+      .flatMap((prefix) => option.map((o) => prefix + o))
+      .slice(0, MAX_CANDIDATES);
+  }
+
+  const candidates: TransliterationCandidate[] = [];
+  for (const spelling of spellings) {
+    const { validation } = normalizeLabel(spelling);
+    if (!candidates.some((c) => c.label === validation.value)) {
+      candidates.push({ label: validation.value, validation });
+    }
+  }
+
+  return { input, candidates, unmappable };
+}
+
+/**
+ * Transliterates a name and checks each valid candidate for availability via `getAddress(label, namespace)`
+ * @param client The XNS client
+ * @param input The raw user input
+ * @param namespace The namespace to check availability in
+ */
+export async function checkTransliterationCandidates(
+  client: XnsClient,
+  input: string,
+  namespace: string,
+): Promise<
+  Omit<TransliterationResult, "candidates"> & {
+    candidates: CandidateAvailability[];
+  }
+> {
+  const result = transliterate(input);
+  const candidates = await Promise.all(
+    result.candidates.map(async (candidate): Promise<CandidateAvailability> => {
+      if (!candidate.validation.isValid) {
+        return { ...candidate, available: null, owner: null };
+      }
+      const owner = await client.resolve(candidate.label, namespace);
+      return {
+        ...candidate,
+        available: owner === ZeroAddress,
+        owner: owner === ZeroAddress ? null : owner,
+      };
+    }),
+  );
+  return { ...result, candidates };
+}
@@ -0,0 +1,229 @@
+/**
+ * EIP-712 typed data for `RegisterNameAuth`
+ * Builds the complete `eth_signTypedData_v4` payload so that recipients can sign with any wallet
+ * (MetaMask, Rabby, hardware wallets, ...) and checks the signature they paste back before a sponsor
+ * spends ETH on `registerNameWithAuthorization`
+ */
+
+import {
+  Signer,
+  TypedDataEncoder,
+  dataLength,
+  getAddress,
+  isAddress,
+  isHexString,
+} from "ethers";
+import {
+  DelegateSigningScheme,
+  delegatedRecipientMessage,
+  getEip7702Delegate,
+  parseDelegationDesignator,
+} from "./eip7702";
+import { RegisterNameAuth } from "./types";
+import { XnsClient } from "./XnsClient";
+
+// EIP-712 domain of XNS.sol (`EIP712("XNS", "1")`)
+export const EIP712_DOMAIN_NAME = "XNS";
+export const EIP712_DOMAIN_VERSION = "1";
+
+export const REGISTER_NAME_AUTH_TYPES = {
+  RegisterNameAuth: [
+    { name: "recipient", type: "address" },
+    { name: "label", type: "string" },
+    { name: "namespace", type: "string" },
+  ],
+};
+
+export interface XnsTypedDataDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+/**
+ * `eth_signTypedData_v4` payload (serialize with `JSON.stringify`)
+ */
+export interface RegisterNameAuthTypedData {
+  types: {
+    EIP712Domain: { name: string; type: string }[];
+    RegisterNameAuth: { name: string; type: string }[];
+  };
+  primaryType: "RegisterNameAuth";
+  domain: XnsTypedDataDomain;
+  message: RegisterNameAuth;
+}
+
+export interface SignatureCheck {
+  // Normalized signature (trimmed, "0x"-prefixed); `null` if it is not a hex string
+  signature: string | null;
+  isValid: boolean;
+  // Why the signature was rejected
+  error?: string;
+}
+
+export interface SignRegisterNameAuthOptions {
+  // Signing scheme of the recipient's EIP-7702 delegate; required if the signer is a delegated recipient
+  delegateScheme?: DelegateSigningScheme;
+}
+
+/**
+ * Reads the EIP-712 domain of an XNS deployment
+ * @param client The XNS client
+ */
+export async function getXnsTypedDataDomain(
+  client: XnsClient,
+): Promise<XnsTypedDataDomain> {
+  const { chainId } = await client.provider.getNetwork();
+  return {
+    name: EIP712_DOMAIN_NAME,
+    version: EIP712_DOMAIN_VERSION,
+    chainId: Number(chainId),
+    verifyingContract: client.address,
+  };
+}
+
+/**
+ * Builds the `eth_signTypedData_v4` payload for a `RegisterNameAuth`
+ * @param domain The EIP-712 domain (see `getXnsTypedDataDomain`)
+ * @param auth The registration to authorize
+ */
+export function buildRegisterNameAuthTypedData(
+  domain: XnsTypedDataDomain,
+  auth: RegisterNameAuth,
+): RegisterNameAuthTypedData {
+  return {
+    types: {
+      EIP712Domain: [
+        { name: "name", type: "string" },
+        { name: "version", type: "string" },
+        { name: "chainId", type: "uint256" },
+        { name: "verifyingContract", type: "address" },
+      ],
+      ...REGISTER_NAME_AUTH_TYPES,
+    },
+    primaryType: "RegisterNameAuth",
+    domain,
+    message: {
+      recipient: auth.recipient,
+      label: auth.label,
+      namespace: auth.namespace,
+    },
+  };
+}
+
+/**
+ * Parses and checks a `RegisterNameAuth` typed-data JSON (e.g. one returned by a recipient)
+ * @param json The JSON string
+ * @throws If the JSON is not a `RegisterNameAuth` payload of the XNS domain
+ */
+export function parseRegisterNameAuthTypedData(
+  json: string,
+): RegisterNameAuthTypedData {
+  const data = JSON.parse(json);
+  const domain = data?.domain;
+  const message = data?.message;
+  if (
+    data?.primaryType !== "RegisterNameAuth" ||
+    domain?.name !== EIP712_DOMAIN_NAME ||
+    domain?.version !== EIP712_DOMAIN_VERSION ||
+    !isAddress(domain?.verifyingContract) ||
+    !isAddress(message?.recipient) ||
+    typeof message?.label !== "string" ||
+    typeof message?.namespace !== "string"
+  ) {
+    throw new Error("Invalid RegisterNameAuth typed data");
+  }
+  return buildRegisterNameAuthTypedData(
+    {
+      name: domain.name,
+      version: domain.version,
+      chainId: Number(domain.chainId),
+      verifyingContract: domain.verifyingContract,
+    },
+    message,
+  );
+}
+
+/**
+ * Checks a signature pasted back by a recipient before it is used in `registerNameWithAuthorization`
+ * Signatures of EOAs must be 65 bytes; the final check is the contract's `isValidSignature`, which also
+ * covers EIP-1271 contract recipients and EIP-7702 delegated accounts
+ * @param client The XNS client
+ * @param auth The registration the signature should authorize
+ * @param signature The signature as pasted by the recipient
+ */
+export async function checkRegisterNameAuthSignature(
+  client: XnsClient,
+  auth: RegisterNameAuth,
+  signature: string,
+): Promise<SignatureCheck> {
+  let normalized = signature.trim();
+  if (!normalized.startsWith("0x")) {
+    normalized = `0x${normalized}`;
+  }
+  if (!isHexString(normalized)) {
+    return { signature: null, isValid: false, error: "not a hex string" };
+  }
+
+  const code = await client.provider.getCode(auth.recipient);
+  if (code === "0x" && dataLength(normalized) !== 65) {
+    return {
+      signature: normalized,
+      isValid: false,
+      error: `expected 65 bytes for an EOA recipient, got ${dataLength(normalized)}`,
+    };
+  }
+
+  if (!(await client.isValidSignature(auth, normalized))) {
+    const delegate = parseDelegationDesignator(code);
+    return {
+      signature: normalized,
+      isValid: false,
+      error:
+        delegate !== null
+          ? delegatedRecipientMessage(auth.recipient, delegate)
+          : "signature does not authorize this registration (wrong signer, message, chain or contract)",
+    };
+  }
+  return { signature: normalized, isValid: true };
+}
+
+/**
+ * Signs a `RegisterNameAuth`, routing the signature through the delegate's signing scheme if the recipient is an
+ * EIP-7702 delegated account
+ * Without a provider on the signer, the recipient cannot be checked and a plain EIP-712 signature is returned.
+ * @param signer The signer
+ * @param domain The EIP-712 domain
+ * @param auth The registration to authorize
+ * @param options The delegate's signing scheme
+ * @throws If the signer is a delegated recipient and no `delegateScheme` is given
+ */
+export async function signRegisterNameAuthTypedData(
+  signer: Signer,
+  domain: XnsTypedDataDomain,
+  auth: RegisterNameAuth,
+  options: SignRegisterNameAuthOptions = {},
+): Promise<string> {
+  const delegate = signer.provider
+    ? await getEip7702Delegate(signer.provider, auth.recipient)
+    : null;
+  if (delegate === null) {
+    return await signer.signTypedData(domain, REGISTER_NAME_AUTH_TYPES, auth);
+  }
+  if (options.delegateScheme) {
+    return await options.delegateScheme.sign(
+      signer,
+      getAddress(auth.recipient),
+      domain.chainId,
+      TypedDataEncoder.hash(domain, REGISTER_NAME_AUTH_TYPES, auth),
+    );
+  }
+  if (getAddress(await signer.getAddress()) === getAddress(auth.recipient)) {
+    throw new Error(
+      `${delegatedRecipientMessage(auth.recipient, delegate)}; pass the signing scheme of the delegate`,
+    );
+  }
+  // Another key of the account (e.g. a session key) signs the plain typed data
+  return await signer.signTypedData(domain, REGISTER_NAME_AUTH_TYPES, auth);
+}
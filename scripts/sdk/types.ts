@@ -0,0 +1,41 @@
+/**
+ * Types shared across the XNS SDK
+ */
+
+/**
+ * Argument for `registerNameWithAuthorization` and `batchRegisterNameWithAuthorization`
+ * (mirrors the `RegisterNameAuth` struct in XNS.sol)
+ */
+export interface RegisterNameAuth {
+  recipient: string;
+  label: string;
+  namespace: string;
+}
+
+/**
+ * Namespace metadata as returned by `getNamespaceInfo`
+ */
+export interface NamespaceInfo {
+  namespace: string;
+  pricePerName: bigint;
+  owner: string;
+  createdAt: bigint;
+  isPrivate: boolean;
+}
+
+/**
+ * Protocol constants as read from the deployed contract
+ */
+export interface XnsConstants {
+  deployedAt: bigint;
+  publicNamespaceRegistrationFee: bigint;
+  privateNamespaceRegistrationFee: bigint;
+  exclusivityPeriod: bigint;
+  onboardingPeriod: bigint;
+  priceStep: bigint;
+  publicNamespaceMinPrice: bigint;
+  privateNamespaceMinPrice: bigint;
+  bareNameNamespace: string;
+  bareNamePrice: bigint;
+  deth: string;
+}
@@ -0,0 +1,138 @@
+/**
+ * Off-chain label and namespace validation
+ * Reproduces `_isValidLabelOrNamespace` and the "eth" namespace ban of `_registerNamespace` in XNS.sol,
+ * but reports every failing rule instead of a single bool
+ */
+
+import { toUtf8Bytes } from "ethers";
+import {
+  FORBIDDEN_NAMESPACE,
+  MAX_LABEL_OR_NAMESPACE_LENGTH,
+} from "./constants";
+
+export type ValidationErrorCode =
+  | "EMPTY"
+  | "TOO_LONG"
+  | "INVALID_CHAR"
+  | "LEADING_HYPHEN"
+  | "TRAILING_HYPHEN"
+  | "CONSECUTIVE_HYPHENS"
+  | "FORBIDDEN_NAMESPACE";
+
+export interface ValidationError {
+  code: ValidationErrorCode;
+  message: string;
+  // Character index the error refers to (`INVALID_CHAR` and `CONSECUTIVE_HYPHENS` only)
+  index?: number;
+  // Offending character (`INVALID_CHAR` only)
+  char?: string;
+}
+
+export interface ValidationResult {
+  value: string;
+  isValid: boolean;
+  errors: ValidationError[];
+}
+
+function isAllowedChar(char: string): boolean {
+  return (
+    (char >= "a" && char <= "z") || (char >= "0" && char <= "9") || char === "-"
+  );
+}
+
+/**
+ * Validates a string against the rules shared by labels and namespaces:
+ * - Must be 1–20 characters long (counted in UTF-8 bytes, as on-chain)
+ * - Must consist only of [a-z0-9-]
+ * - Cannot start or end with '-'
+ * - Cannot contain consecutive hyphens ('--')
+ * @param value The label or namespace to validate
+ * @returns All failing rules; `isValid` matches the result of `isValidLabelOrNamespace` on-chain
+ */
+export function validateLabelOrNamespace(value: string): ValidationResult {
+  const errors: ValidationError[] = [];
+  const length = toUtf8Bytes(value).length;
+
+  if (length === 0) {
+    errors.push({ code: "EMPTY", message: "must not be empty" });
+    return { value, isValid: false, errors };
+  }
+  if (length > MAX_LABEL_OR_NAMESPACE_LENGTH) {
+    errors.push({
+      code: "TOO_LONG",
+      message: `must be at most ${MAX_LABEL_OR_NAMESPACE_LENGTH} characters long (got ${length})`,
+    });
+  }
+
+  // Iterate over code points so that the reported index matches what the user sees
+  const chars = Array.from(value);
+  chars.forEach((char, index) => {
+    if (!isAllowedChar(char)) {
+      errors.push({
+        code: "INVALID_CHAR",
+        message: `invalid character ${JSON.stringify(char)} at index ${index} (only a-z, 0-9 and '-' are allowed)`,
+        index,
+        char,
+      });
+    } else if (char === "-" && index > 0 && chars[index - 1] === "-") {
+      errors.push({
+        code: "CONSECUTIVE_HYPHENS",
+        message: `consecutive hyphens at index ${index - 1}`,
+        index: index - 1,
+      });
+    }
+  });
+
+  if (chars[0] === "-") {
+    errors.push({ code: "LEADING_HYPHEN", message: "must not start with '-'" });
+  }
+  if (chars[chars.length - 1] === "-") {
+    errors.push({ code: "TRAILING_HYPHEN", message: "must not end with '-'" });
+  }
+
+  return { value, isValid: errors.length === 0, errors };
+}
+
+/**
+ * Validates a label (same rules as `validateLabelOrNamespace`)
+ * @param label The label to validate
+ */
+export function validateLabel(label: string): ValidationResult {
+  return validateLabelOrNamespace(label);
+}
+
+/**
+ * Validates a namespace for registration; in addition to the shared rules, "eth" is forbidden
+ * @param namespace The namespace to validate
+ */
+export function validateNamespace(namespace: string): ValidationResult {
+  const result = validateLabelOrNamespace(namespace);
+  if (namespace === FORBIDDEN_NAMESPACE) {
+    result.errors.push({
+      code: "FORBIDDEN_NAMESPACE",
+      message: `"${FORBIDDEN_NAMESPACE}" is forbidden as namespace to avoid confusion with ENS`,
+    });
+    result.isValid = false;
+  }
+  return result;
+}
+
+/**
+ * Boolean equivalent of `isValidLabelOrNamespace` in XNS.sol, without an RPC round-trip
+ * @param value The label or namespace to check
+ */
+export function isValidLabelOrNamespace(value: string): boolean {
+  return validateLabelOrNamespace(value).isValid;
+}
+
+/**
+ * Formats the errors of a validation result into a single human-readable line
+ * @param result The validation result
+ * @param subject What was validated (e.g. "label", "namespace")
+ */
+export function formatValidationErrors(
+  result: ValidationResult,
+  subject = "label",
+): string {
+  return `Invalid ${subject} "${result.value}": ${result.errors.map((e) => e.message).join("; ")}`;
+}
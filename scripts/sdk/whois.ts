@@ -0,0 +1,244 @@
+/**
+ * Combined report on a name or an address
+ * Collects forward and reverse resolution, the namespace of the name, pending fees, the namespaces the address
+ * owns or is the pending owner of, its DETH burn credit and whether it is a contract that implements ERC-1271.
+ * Namespaces cannot be enumerated on-chain: the namespaces of an address are taken from its namespace events
+ * (see `events.ts`) and checked against the current state.
+ */
+
+import {
+  Contract,
+  Interface,
+  Provider,
+  ZeroAddress,
+  ZeroHash,
+  dataLength,
+  dataSlice,
+  getAddress,
+  getBigInt,
+  id,
+  isAddress,
+  isHexString,
+} from "ethers";
+import IDETH_ABI from "../../abis/contracts/src/interfaces/IDETH.sol/IDETH.json";
+import { BARE_NAME_NAMESPACE } from "./constants";
+import { parseDelegationDesignator } from "./eip7702";
+import { fetchXnsEvents, findDeploymentBlock } from "./events";
+import { canonicalizeXnsName, parseXnsName } from "./names";
+import { NamespaceInfo } from "./types";
+import { XnsClient } from "./XnsClient";
+
+const erc1271 = new Interface([
+  "function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)",
+]);
+
+export interface WhoisNamespace {
+  info: NamespaceInfo;
+  inExclusivityPeriod: boolean;
+  // Timestamp at which the exclusivity period ends (`createdAt + EXCLUSIVITY_PERIOD`)
+  exclusivityEndsAt: bigint;
+  // The zero address if no transfer is pending
+  pendingOwner: string;
+}
+
+export interface WhoisAccount {
+  address: string;
+  // Empty string if the address has no name
+  name: string;
+  pendingFees: bigint;
+  // ETH burned via DETH and credited to the address (`DETH.burned`)
+  burned: bigint;
+  accountType: "EOA" | "contract" | "delegated";
+  // EIP-7702 delegate if `accountType` is "delegated"
+  delegate: string | null;
+  // Whether the account answers ERC-1271 `isValidSignature` (XNS checks signatures of accounts with code this way)
+  isErc1271: boolean;
+  // Namespaces owned by the address
+  namespaces: NamespaceInfo[];
+  // Namespaces whose pending owner is the address
+  pendingNamespaces: NamespaceInfo[];
+  // Namespaces in the events of the address whose plaintext could not be recovered (keccak256 hashes)
+  unknownNamespaceHashes: string[];
+}
+
+export interface WhoisReport {
+  query: string;
+  // The queried name (canonical form), or the name of the queried address; `null` if none
+  name: string | null;
+  // The queried address, or the address the queried name resolves to; `null` if the name is not registered
+  address: string | null;
+  // The namespace of `name`; `null` if there is no name or the namespace does not exist
+  namespace: WhoisNamespace | null;
+  // `null` if `address` is `null`
+  account: WhoisAccount | null;
+}
+
+export interface WhoisOptions {
+  // First block searched for namespace events; defaults to the deployment block (`findDeploymentBlock`)
+  fromBlock?: number;
+  // The maximum block range per `eth_getLogs` request
+  maxBlockRange?: number;
+}
+
+/**
+ * Checks whether an account implements ERC-1271: `isValidSignature` returns a `bytes4` or reverts with
+ * an error (e.g. for the empty signature it is called with), while accounts without it revert without data
+ */
+async function isErc1271Account(
+  provider: Provider,
+  address: string,
+): Promise<boolean> {
+  try {
+    const result = await provider.call({
+      to: address,
+      data: erc1271.encodeFunctionData("isValidSignature", [ZeroHash, "0x"]),
+    });
+    return (
+      dataLength(result) === 32 && getBigInt(dataSlice(result, 4, 32)) === 0n
+    );
+  } catch (error) {
+    // ethers' `CALL_EXCEPTION` and Hardhat's in-process errors both carry the revert data in `data`
+    const data = (error as { data?: unknown }).data;
+    if (typeof data === "string" && isHexString(data)) {
+      return dataLength(data) > 0;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads a namespace, its exclusivity status and its pending owner
+ * @returns `null` if the namespace does not exist
+ */
+async function getWhoisNamespace(
+  client: XnsClient,
+  namespace: string,
+  exclusivityPeriod: bigint,
+): Promise<WhoisNamespace | null> {
+  const info = await client.findNamespaceInfo(namespace);
+  if (!info) {
+    return null;
+  }
+  const [inExclusivityPeriod, pendingOwner] = await Promise.all([
+    client.isInExclusivityPeriod(namespace),
+    client.getPendingNamespaceOwner(namespace),
+  ]);
+  return {
+    info,
+    inExclusivityPeriod,
+    exclusivityEndsAt: info.createdAt + exclusivityPeriod,
+    pendingOwner,
+  };
+}
+
+/**
+ * Reads everything XNS knows about an address
+ */
+async function getWhoisAccount(
+  client: XnsClient,
+  address: string,
+  deth: string,
+  exclusivityPeriod: bigint,
+  options: WhoisOptions,
+): Promise<WhoisAccount> {
+  const provider = client.provider;
+  const [name, pendingFees, burned, code, fromBlock] = await Promise.all([
+    client.reverseResolve(address),
+    client.getPendingFees(address),
+    new Contract(deth, IDETH_ABI, provider).getFunction("burned")(
+      address,
+    ) as Promise<bigint>,
+    provider.getCode(address),
+    options.fromBlock ?? findDeploymentBlock(client),
+  ]);
+  const delegate = parseDelegationDesignator(code);
+
+  // Candidate namespaces; the bare name namespace is registered in the constructor, whose calldata has no strings
+  const events = await fetchXnsEvents(client, {
+    fromBlock,
+    maxBlockRange: options.maxBlockRange,
+    filter: {
+      events: [
+        "NamespaceRegistered",
+        "NamespaceOwnerTransferStarted",
+        "NamespaceOwnerTransferAccepted",
+      ],
+      owner: address,
+    },
+  });
+  const candidates = new Set([BARE_NAME_NAMESPACE]);
+  const unknownNamespaceHashes = new Set<string>();
+  for (const event of events) {
+    if (event.event === "FeesClaimed") {
+      continue;
+    }
+    if (event.namespace !== null) {
+      candidates.add(event.namespace);
+    } else if (event.namespaceHash !== id(BARE_NAME_NAMESPACE)) {
+      unknownNamespaceHashes.add(event.namespaceHash);
+    }
+  }
+
+  const namespaces: NamespaceInfo[] = [];
+  const pendingNamespaces: NamespaceInfo[] = [];
+  for (const namespace of candidates) {
+    const state = await getWhoisNamespace(client, namespace, exclusivityPeriod);
+    if (state?.info.owner === address) {
+      namespaces.push(state.info);
+    }
+    if (state?.pendingOwner === address) {
+      pendingNamespaces.push(state.info);
+    }
+  }
+
+  return {
+    address,
+    name,
+    pendingFees,
+    burned,
+    accountType:
+      code === "0x" ? "EOA" : delegate !== null ? "delegated" : "contract",
+    delegate,
+    isErc1271: code !== "0x" && (await isErc1271Account(provider, address)),
+    namespaces,
+    pendingNamespaces,
+    unknownNamespaceHashes: [...unknownNamespaceHashes],
+  };
+}
+
+/**
+ * Reports what XNS knows about a name or an address
+ * @param client The XNS client
+ * @param query A full name (e.g. "alice.xns", or "vitalik" for bare names) or an address
+ * @param options The block range searched for namespace events
+ * @returns The report; for a name that is not registered, only the name and its namespace
+ */
+export async function whois(
+  client: XnsClient,
+  query: string,
+  options: WhoisOptions = {},
+): Promise<WhoisReport> {
+  const { exclusivityPeriod, deth } = await client.getConstants();
+
+  let name: string | null;
+  let address: string | null;
+  if (isAddress(query)) {
+    address = getAddress(query);
+    name = (await client.reverseResolve(address)) || null;
+  } else {
+    name = canonicalizeXnsName(query) ?? query;
+    const resolved = await client.resolveFullName(query);
+    address = resolved === ZeroAddress ? null : resolved;
+  }
+
+  const parsed = name === null ? null : parseXnsName(name);
+  const [namespace, account] = await Promise.all([
+    parsed
+      ? getWhoisNamespace(client, parsed.namespace, exclusivityPeriod)
+      : null,
+    address === null
+      ? null
+      : getWhoisAccount(client, address, deth, exclusivityPeriod, options),
+  ]);
+  return { query, name, address, namespace, account };
+}
@@ -0,0 +1,14 @@
+/**
+ * Confirmation depth of the example registration scripts
+ * Shared between scripts
+ */
+
+/**
+ * Returns the confirmations to wait for before a registration is checked and reported as safe to share
+ * (see "Block Reorganization Risk" in docs/DEV_NOTES.md)
+ * @param networkName The Hardhat network name
+ * @returns 1 on the local networks, which only mine a block per transaction and would never reach more; 3 otherwise
+ */
+export function getConfirmations(networkName: string): number {
+  return ["hardhat", "localhost"].includes(networkName) ? 1 : 3;
+}
@@ -4,26 +4,33 @@
  */
 
 import { ethers } from "hardhat";
+import { Signer } from "ethers";
 import { XNS } from "../../typechain-types";
-import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  SignRegisterNameAuthOptions,
+  signRegisterNameAuthTypedData,
+} from "../sdk";
 
 /**
  * Signs a RegisterNameAuth struct using EIP-712 for use in registerNameWithAuthorization
  * @param xns The XNS contract instance
- * @param signer The signer that will authorize the registration
+ * @param signer The signer that will authorize the registration (a software account or a `LedgerSigner`)
  * @param recipient The address that will receive the name (must match signer for EOA, or be the contract for EIP-1271)
  * @param label The label part of the name
  * @param namespace The namespace part of the name
- * @returns The EIP-712 signature
+ * @param options The signing scheme of the delegate if the recipient is an EIP-7702 delegated account
+ * @returns The EIP-712 signature (or the delegate's EIP-1271 signature for EIP-7702 delegated recipients)
  */
 export async function signRegisterNameAuth(
   xns: XNS,
-  signer: SignerWithAddress,
+  signer: Signer,
   recipient: string,
   label: string,
-  namespace: string
+  namespace: string,
+  options: SignRegisterNameAuthOptions = {}
 ): Promise<string> {
-  const chainId = (await ethers.provider.getNetwork()).chainId;
+  const chainId = (await (signer.provider ?? ethers.provider).getNetwork())
+    .chainId;
   const domain = {
     name: "XNS",
     version: "1",
@@ -31,20 +38,11 @@ export async function signRegisterNameAuth(
     verifyingContract: await xns.getAddress(),
   };
 
-  const types = {
-    RegisterNameAuth: [
-      { name: "recipient", type: "address" },
-      { name: "label", type: "string" },
-      { name: "namespace", type: "string" },
-    ],
-  };
-
   const value = {
     recipient: recipient,
     label: label,
     namespace: namespace,
   };
 
-  return await signer.signTypedData(domain, types, value);
+  return await signRegisterNameAuthTypedData(signer, domain, value, options);
 }
-
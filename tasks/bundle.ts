@@ -0,0 +1,472 @@
+/**
+ * Tasks for collecting recipient signatures in authorization bundles (see `scripts/sdk/bundle.ts`)
+ *
+ * WORKFLOW:
+ * 1. The sponsor creates a bundle of unsigned requests:
+ *    `npx hardhat xns:bundle:request --namespace xns --names alice=0x...,bob=0x... --out bundle.json --network sepolia`
+ * 2. Each recipient signs their entry, either with a configured account:
+ *    `npx hardhat xns:bundle:sign --bundle bundle.json --signer-index 0 --out alice.json --network sepolia`
+ *    or with any wallet using the typed data written by `--typed-data-dir` in step 1
+ * 3. The sponsor ingests the signed bundles (or raw signatures) and checks them:
+ *    `npx hardhat xns:bundle:ingest --bundle bundle.json --signed alice.json,bob.json --network sepolia`
+ * 4. The sponsor submits the signed entries with `batchRegisterNameWithAuthorization` (`--dry-run` simulates them,
+ *    `--confirmations` waits for each batch before reporting its names as safe to share):
+ *    `npx hardhat xns:bundle:submit --bundle bundle.json --sponsor-index 0 --network sepolia`
+ *
+ * `xns:bundle:sign` and `xns:bundle:submit` accept `--ledger` (and `--ledger-account`) to sign or pay with a Ledger account of the network.
+ *
+ * Signatures never expire, so issued bundles can be audited later for signatures that are still executable:
+ *    `npx hardhat xns:bundle:audit --bundles bundle.json,old-bundle.json --network sepolia`
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { task, types } from "hardhat/config";
+import { formatEther, isAddress } from "ethers";
+import {
+  AuthorizationBundle,
+  BundleValidation,
+  DelegateSigningScheme,
+  DryRunResult,
+  addBundleSignature,
+  auditAuthorizationBundles,
+  buildRegisterNameAuthTypedData,
+  createAuthorizationBundle,
+  createReplaySafeHashScheme,
+  dryRun,
+  formatXnsName,
+  getRegistrableBundleBatches,
+  getXnsTypedDataDomain,
+  mergeAuthorizationBundles,
+  readAuthorizationBundle,
+  signAuthorizationBundle,
+  submitAuthorizationBundle,
+  validateAuthorizationBundle,
+  writeAuthorizationBundle,
+} from "../scripts/sdk";
+import {
+  GREEN,
+  RED,
+  RESET,
+  TaskError,
+  TaskLogger,
+  YELLOW,
+  addressType,
+  confirmRegistration,
+  confirmationsType,
+  getSigner,
+  getTaskSigner,
+  getXnsClient,
+  printDryRun,
+  splitList,
+  withJsonOutput,
+} from "./utils";
+
+/**
+ * Prints the status of every entry of a validated bundle
+ */
+function printValidation(validation: BundleValidation, log: TaskLogger): void {
+  for (const error of validation.errors) {
+    log(`${RED}✗ ${error}${RESET}`);
+  }
+  for (const entry of validation.entries) {
+    const name = formatXnsName(entry.auth.label, entry.auth.namespace);
+    if (entry.status === "valid") {
+      log(`  ${GREEN}✓${RESET} ${name} → ${entry.auth.recipient}`);
+    } else if (entry.status === "unsigned") {
+      log(
+        `  ${YELLOW}…${RESET} ${name} → ${entry.auth.recipient} (not signed yet)`,
+      );
+    } else {
+      log(`  ${RED}✗${RESET} ${name} → ${entry.auth.recipient}`);
+      for (const error of entry.errors) {
+        log(`      ${RED}${error}${RESET}`);
+      }
+      for (const mismatch of entry.mismatches) {
+        log(`      ${YELLOW}likely cause: ${mismatch.description}${RESET}`);
+      }
+    }
+  }
+}
+
+task(
+  "xns:bundle:request",
+  "Creates an authorization bundle of unsigned registration requests",
+)
+  .addParam("namespace", "Namespace of the names")
+  .addParam("names", "Comma-separated `label=recipient` pairs")
+  .addOptionalParam("out", "Bundle file to write", "authorization-bundle.json")
+  .addOptionalParam(
+    "requestedBy",
+    "Who requests the signatures (defaults to the first account)",
+  )
+  .addOptionalParam("description", "Description stored in the bundle metadata")
+  .addOptionalParam(
+    "typedDataDir",
+    "Directory to write the `eth_signTypedData_v4` JSON of every request to",
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:bundle:request", async (args, hre, log) => {
+      const client = getXnsClient(hre, args.xns);
+      const auths = splitList(args.names).map((pair) => {
+        const [label, recipient] = pair.split("=").map((part) => part.trim());
+        if (!label || !isAddress(recipient)) {
+          throw new TaskError(
+            "INVALID_ARGUMENT",
+            `Invalid \`label=recipient\` pair: ${pair}`,
+          );
+        }
+        return { recipient, label, namespace: args.namespace };
+      });
+      if (auths.length === 0) {
+        throw new TaskError("INVALID_ARGUMENT", "No names given");
+      }
+
+      const domain = await getXnsTypedDataDomain(client);
+      const bundle = createAuthorizationBundle(domain, auths, {
+        requestedBy: args.requestedBy ?? (await getSigner(hre, 0)).address,
+        description: args.description,
+      });
+      writeAuthorizationBundle(args.out, bundle);
+      log(
+        `${GREEN}✓${RESET} Wrote ${auths.length} request(s) to ${GREEN}${args.out}${RESET}`,
+      );
+
+      const typedDataFiles: string[] = [];
+      if (args.typedDataDir) {
+        mkdirSync(args.typedDataDir, { recursive: true });
+        for (const { auth } of bundle.entries) {
+          const path = join(
+            args.typedDataDir,
+            `${formatXnsName(auth.label, auth.namespace)}.json`,
+          );
+          writeFileSync(
+            path,
+            `${JSON.stringify(buildRegisterNameAuthTypedData(domain, auth), null, 2)}\n`,
+          );
+          log(`  Typed data for ${auth.recipient}: ${GREEN}${path}${RESET}`);
+          typedDataFiles.push(path);
+        }
+      }
+      return { out: args.out, bundle, typedDataFiles };
+    }),
+  );
+
+task(
+  "xns:bundle:sign",
+  "Signs the entries of an authorization bundle with a configured account",
+)
+  .addParam("bundle", "Bundle file")
+  .addOptionalParam("signerIndex", "Index of the signing account", 0, types.int)
+  .addFlag("ledger", "Sign with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam(
+    "recipients",
+    "Comma-separated recipients to sign for (defaults to the signer; use the contract address for EIP-1271 recipients)",
+  )
+  .addOptionalParam(
+    "delegateScheme",
+    "For EIP-7702 delegated signers: the EIP-712 wrapping of the delegate's isValidSignature as `name,version,MessageType` (e.g. `Coinbase Smart Wallet,1,CoinbaseSmartWalletMessage`)",
+  )
+  .addOptionalParam("out", "Bundle file to write (defaults to `--bundle`)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:bundle:sign", async (args, hre, log) => {
+      let delegateScheme: DelegateSigningScheme | undefined;
+      if (args.delegateScheme) {
+        const parts = splitList(args.delegateScheme);
+        if (parts.length !== 3) {
+          throw new TaskError(
+            "INVALID_ARGUMENT",
+            "`--delegate-scheme` must be `name,version,MessageType`",
+          );
+        }
+        delegateScheme = createReplaySafeHashScheme(
+          parts[0],
+          parts[1],
+          parts[2],
+        );
+      }
+      const signer = await getTaskSigner(
+        hre,
+        {
+          index: args.signerIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const signerAddress = await signer.getAddress();
+      const bundle = readAuthorizationBundle(args.bundle);
+      const recipients = args.recipients
+        ? splitList(args.recipients)
+        : undefined;
+
+      const signed = await signAuthorizationBundle(bundle, signer, recipients, {
+        delegateScheme,
+      });
+      const count = signed.entries.filter(
+        (entry, i) => entry.signature !== bundle.entries[i].signature,
+      ).length;
+      if (count === 0) {
+        throw new TaskError(
+          "NOTHING_TO_SIGN",
+          `No entries for ${recipients?.join(", ") ?? signerAddress} in ${args.bundle}`,
+        );
+      }
+      writeAuthorizationBundle(args.out ?? args.bundle, signed);
+      log(
+        `${GREEN}✓${RESET} Signed ${count} entr${count === 1 ? "y" : "ies"} with ${signerAddress} → ${GREEN}${args.out ?? args.bundle}${RESET}`,
+      );
+      return { out: args.out ?? args.bundle, signer: signerAddress, count };
+    }),
+  );
+
+task(
+  "xns:bundle:ingest",
+  "Adds returned signatures to an authorization bundle after checking them",
+)
+  .addParam("bundle", "Bundle file")
+  .addOptionalParam(
+    "signed",
+    "Comma-separated signed bundle files returned by recipients",
+  )
+  .addOptionalParam(
+    "recipient",
+    "Recipient of a raw signature (use with `--signature`)",
+  )
+  .addOptionalParam("signature", "Raw signature returned by `--recipient`")
+  .addOptionalParam("out", "Bundle file to write (defaults to `--bundle`)")
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:bundle:ingest", async (args, hre, log) => {
+      const client = getXnsClient(hre, args.xns);
+      let bundle: AuthorizationBundle = readAuthorizationBundle(args.bundle);
+
+      if (args.signed) {
+        bundle = mergeAuthorizationBundles(
+          bundle,
+          ...splitList(args.signed).map(readAuthorizationBundle),
+        );
+      }
+      if (args.recipient !== undefined || args.signature !== undefined) {
+        if (!args.recipient || !args.signature) {
+          throw new TaskError(
+            "INVALID_ARGUMENT",
+            "`--recipient` and `--signature` must be used together",
+          );
+        }
+        const matches = bundle.entries.filter(
+          (entry) =>
+            entry.auth.recipient.toLowerCase() === args.recipient.toLowerCase(),
+        );
+        if (matches.length !== 1) {
+          throw new TaskError(
+            "INVALID_ARGUMENT",
+            `Expected exactly one entry for ${args.recipient}, found ${matches.length}`,
+          );
+        }
+        bundle = addBundleSignature(bundle, matches[0].auth, args.signature);
+      }
+
+      const validation = await validateAuthorizationBundle(client, bundle);
+      printValidation(validation, log);
+      if (
+        validation.errors.length > 0 ||
+        validation.entries.some((entry) => entry.status === "invalid")
+      ) {
+        throw new TaskError(
+          "INVALID_BUNDLE",
+          "Bundle not updated: fix the errors above first",
+          validation,
+        );
+      }
+
+      writeAuthorizationBundle(args.out ?? args.bundle, bundle);
+      const signedCount = validation.entries.filter(
+        (entry) => entry.status === "valid",
+      ).length;
+      log(
+        `\n${GREEN}✓${RESET} ${signedCount}/${validation.entries.length} entries signed → ${GREEN}${args.out ?? args.bundle}${RESET}`,
+      );
+      return { out: args.out ?? args.bundle, validation };
+    }),
+  );
+
+task(
+  "xns:bundle:submit",
+  "Registers the signed entries of an authorization bundle via batchRegisterNameWithAuthorization",
+)
+  .addParam("bundle", "Bundle file")
+  .addOptionalParam("sponsorIndex", "Index of the paying account", 0, types.int)
+  .addFlag("ledger", "Pay with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Confirmations to wait for after each batch before checking the names and reporting whether they are safe to share",
+    1,
+    confirmationsType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag(
+    "dryRun",
+    "Simulate every batch with staticCall and estimateGas and print the outcome instead of sending the transactions",
+  )
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:bundle:submit", async (args, hre, log) => {
+      const sponsor = await getTaskSigner(
+        hre,
+        {
+          index: args.sponsorIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const sponsorAddress = await sponsor.getAddress();
+      const client = getXnsClient(hre, args.xns).connect(sponsor);
+      const bundle = readAuthorizationBundle(args.bundle);
+
+      const validation = await validateAuthorizationBundle(client, bundle);
+      printValidation(validation, log);
+      if (
+        validation.errors.length > 0 ||
+        validation.entries.some((entry) => entry.status === "invalid")
+      ) {
+        throw new TaskError(
+          "INVALID_BUNDLE",
+          "Bundle has errors; nothing was submitted",
+          validation,
+        );
+      }
+
+      log(`\nSponsor: ${GREEN}${sponsorAddress}${RESET}`);
+      if (args.dryRun) {
+        const dryRuns: DryRunResult[] = [];
+        for (const batch of await getRegistrableBundleBatches(client, bundle)) {
+          log(`\nNamespace ${GREEN}${batch.namespace}${RESET}:`);
+          for (const auth of batch.alreadyRegistered) {
+            log(
+              `  ${YELLOW}⚠${RESET} ${formatXnsName(auth.label, auth.namespace)} left out (name taken or recipient already has a name)`,
+            );
+          }
+          if (batch.auths.length > 0) {
+            dryRuns.push(
+              printDryRun(
+                await dryRun(client, {
+                  method: "batchRegisterNameWithAuthorization",
+                  auths: batch.auths,
+                  signatures: batch.signatures,
+                }),
+                log,
+              ),
+            );
+          }
+        }
+        if (dryRuns.length === 0) {
+          log(`${YELLOW}⚠${RESET} Nothing to submit`);
+        }
+        return dryRuns;
+      }
+
+      const balanceBefore =
+        await hre.ethers.provider.getBalance(sponsorAddress);
+      const submissions = await submitAuthorizationBundle(client, bundle);
+      if (submissions.length === 0) {
+        log(`${YELLOW}⚠${RESET} Nothing to submit`);
+      }
+
+      const results = [];
+      for (const submission of submissions) {
+        log(
+          `\nNamespace ${GREEN}${submission.namespace}${RESET}: ${GREEN}${submission.transactionHash}${RESET}`,
+        );
+        for (const registration of submission.registered) {
+          log(
+            `  ${GREEN}✓${RESET} ${registration.fullName} → ${registration.owner}`,
+          );
+        }
+        for (const auth of [
+          ...submission.alreadyRegistered,
+          ...submission.submitted.filter(
+            (a) => !submission.registered.some((r) => r.owner === a.recipient),
+          ),
+        ]) {
+          log(
+            `  ${YELLOW}⚠${RESET} ${formatXnsName(auth.label, auth.namespace)} skipped (name taken or recipient already has a name)`,
+          );
+        }
+        const receipt = await client.provider.getTransactionReceipt(
+          submission.transactionHash,
+        );
+        const { confirmation } = await confirmRegistration(
+          client,
+          receipt!,
+          args.confirmations,
+          log,
+        );
+        results.push({ ...submission, confirmation });
+      }
+
+      const balanceAfter = await hre.ethers.provider.getBalance(sponsorAddress);
+      log(
+        `\nSpent: ${GREEN}${formatEther(balanceBefore - balanceAfter)} ETH${RESET} (including gas)`,
+      );
+      return {
+        sponsor: sponsorAddress,
+        submissions: results,
+        spent: balanceBefore - balanceAfter,
+      };
+    }),
+  );
+
+task(
+  "xns:bundle:audit",
+  "Reports which signatures of issued authorization bundles could still be used to register a name",
+)
+  .addParam("bundles", "Comma-separated bundle files")
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:bundle:audit", async (args, hre, log) => {
+      const client = getXnsClient(hre, args.xns);
+      const audit = await auditAuthorizationBundles(
+        client,
+        splitList(args.bundles).map(readAuthorizationBundle),
+      );
+      log(`Block ${audit.blockNumber}\n`);
+
+      for (const entry of audit.entries) {
+        const name = formatXnsName(entry.auth.label, entry.auth.namespace);
+        if (entry.executable) {
+          log(
+            `  ${YELLOW}⚠${RESET} ${name} → ${entry.auth.recipient}: still executable by ${entry.sponsor === "anyone" ? "anyone" : `the namespace owner ${entry.namespaceOwner}`}`,
+          );
+        } else {
+          log(
+            `  ${GREEN}✓${RESET} ${name} → ${entry.auth.recipient}: ${entry.blockers.map((b) => b.description).join("; ")}`,
+          );
+        }
+      }
+
+      const executable = audit.entries.filter((entry) => entry.executable);
+      log(
+        `\n${executable.length > 0 ? YELLOW : GREEN}${executable.length}/${audit.entries.length}${RESET} signature(s) can still be used to register a name`,
+      );
+      return audit;
+    }),
+  );
@@ -0,0 +1,277 @@
+/**
+ * Tasks for querying and claiming fees and for transferring the contract ownership (`Ownable2Step`)
+ *
+ * EXAMPLES:
+ * - Show the pending fees of an address (defaults to the first account):
+ *   `npx hardhat xns:fees --address 0x... --network sepolia`
+ * - Claim the fees of the signer to itself or to another recipient:
+ *   `npx hardhat xns:claim --signer-index 1 --network sepolia`
+ *   `npx hardhat xns:claim --to 0x... --network sepolia`
+ * - Simulate a claim without sending it (also supported by the ownership tasks):
+ *   `npx hardhat xns:claim --dry-run --network sepolia`
+ * - Transfer the contract ownership in two steps:
+ *   `npx hardhat xns:owner:transfer --to 0x... --network sepolia`
+ *   `npx hardhat xns:owner:accept --signer-index 1 --network sepolia`
+ */
+
+import { task, types } from "hardhat/config";
+import { ZeroAddress, formatEther } from "ethers";
+import { NoFeesToClaimError, XnsClient, dryRun } from "../scripts/sdk";
+import {
+  GREEN,
+  RESET,
+  TaskError,
+  YELLOW,
+  addressType,
+  getSigner,
+  getTaskSigner,
+  getXnsClient,
+  printDryRun,
+  summarizeTransaction,
+  waitForTransaction,
+  withJsonOutput,
+} from "./utils";
+
+/**
+ * Reads the contract owner and the pending owner
+ */
+async function getOwnershipState(client: XnsClient) {
+  const [owner, pendingOwner] = await Promise.all([
+    client.owner(),
+    client.pendingOwner(),
+  ]);
+  return { owner, pendingOwner };
+}
+
+task("xns:fees", "Shows the pending fees of an address and the contract owner")
+  .addOptionalParam(
+    "address",
+    "Address to query (defaults to the first account)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:fees", async (args, hre, log) => {
+      const client = getXnsClient(hre, args.xns);
+      const address: string = args.address ?? (await getSigner(hre, 0)).address;
+      const [fees, { owner, pendingOwner }] = await Promise.all([
+        client.getPendingFees(address),
+        getOwnershipState(client),
+      ]);
+
+      log(
+        `Pending fees of ${address}: ${GREEN}${formatEther(fees)} ETH${RESET}`,
+      );
+      log(`Contract owner: ${GREEN}${owner}${RESET}`);
+      if (pendingOwner !== ZeroAddress) {
+        log(`Pending contract owner: ${YELLOW}${pendingOwner}${RESET}`);
+      }
+      return { address, pendingFees: fees, owner, pendingOwner };
+    }),
+  );
+
+task("xns:claim", "Claims the pending fees of the signer")
+  .addOptionalParam(
+    "to",
+    "Recipient of the fees (defaults to the signer)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("signerIndex", "Index of the account", 0, types.int)
+  .addFlag("ledger", "Claim with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag(
+    "dryRun",
+    "Simulate with staticCall and estimateGas and print the outcome instead of sending the transaction",
+  )
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:claim", async (args, hre, log) => {
+      const signer = await getTaskSigner(
+        hre,
+        {
+          index: args.signerIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const signerAddress = await signer.getAddress();
+      const client = getXnsClient(hre, args.xns).connect(signer);
+      const recipient: string = args.to ?? signerAddress;
+
+      const fees = await client.getPendingFees(signerAddress);
+      if (fees === 0n) {
+        throw new NoFeesToClaimError("XNS: no fees to claim", {
+          address: signerAddress,
+        });
+      }
+
+      if (args.dryRun) {
+        return printDryRun(
+          await dryRun(
+            client,
+            args.to === undefined
+              ? { method: "claimFeesToSelf" }
+              : { method: "claimFees", recipient },
+          ),
+          log,
+        );
+      }
+      log(
+        `Claiming ${GREEN}${formatEther(fees)} ETH${RESET} of ${signerAddress} to ${GREEN}${recipient}${RESET}`,
+      );
+      const tx =
+        args.to === undefined
+          ? await client.claimFeesToSelf()
+          : await client.claimFees(recipient);
+      const transaction = await summarizeTransaction(
+        client,
+        await waitForTransaction(tx, log),
+      );
+      log(`${GREEN}✓${RESET} Fees claimed`);
+      return {
+        transaction,
+        claimed: fees,
+        recipient,
+        state: { pendingFees: await client.getPendingFees(signerAddress) },
+      };
+    }),
+  );
+
+task(
+  "xns:owner:transfer",
+  "Starts the 2-step transfer of the contract ownership (the new owner accepts with `xns:owner:accept`)",
+)
+  .addParam(
+    "to",
+    "New owner (the zero address cancels a pending transfer)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("signerIndex", "Index of the contract owner", 0, types.int)
+  .addFlag("ledger", "Sign with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag(
+    "dryRun",
+    "Simulate with staticCall and estimateGas and print the outcome instead of sending the transaction",
+  )
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:owner:transfer", async (args, hre, log) => {
+      const signer = await getTaskSigner(
+        hre,
+        {
+          index: args.signerIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const signerAddress = await signer.getAddress();
+      const client = getXnsClient(hre, args.xns).connect(signer);
+      const owner = await client.owner();
+      if (owner.toLowerCase() !== signerAddress.toLowerCase()) {
+        throw new TaskError(
+          "NOT_CONTRACT_OWNER",
+          `${signerAddress} is not the contract owner (${owner})`,
+        );
+      }
+
+      if (args.dryRun) {
+        return printDryRun(
+          await dryRun(client, {
+            method: "transferOwnership",
+            newOwner: args.to,
+          }),
+          log,
+        );
+      }
+      const tx = await client.transferOwnership(args.to);
+      const transaction = await summarizeTransaction(
+        client,
+        await waitForTransaction(tx, log),
+      );
+      log(
+        args.to === ZeroAddress
+          ? `${GREEN}✓${RESET} Pending ownership transfer cancelled`
+          : `${GREEN}✓${RESET} ${args.to} can now accept the ownership with \`xns:owner:accept\``,
+      );
+      return { transaction, state: await getOwnershipState(client) };
+    }),
+  );
+
+task(
+  "xns:owner:accept",
+  "Accepts a pending contract ownership transfer to the signer",
+)
+  .addOptionalParam("signerIndex", "Index of the new owner", 0, types.int)
+  .addFlag("ledger", "Sign with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag(
+    "dryRun",
+    "Simulate with staticCall and estimateGas and print the outcome instead of sending the transaction",
+  )
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:owner:accept", async (args, hre, log) => {
+      const signer = await getTaskSigner(
+        hre,
+        {
+          index: args.signerIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const signerAddress = await signer.getAddress();
+      const client = getXnsClient(hre, args.xns).connect(signer);
+      const pendingOwner = await client.pendingOwner();
+      if (pendingOwner === ZeroAddress) {
+        throw new TaskError(
+          "NO_PENDING_OWNER",
+          "No pending contract ownership transfer",
+        );
+      }
+      if (pendingOwner.toLowerCase() !== signerAddress.toLowerCase()) {
+        throw new TaskError(
+          "NOT_PENDING_OWNER",
+          `${signerAddress} is not the pending contract owner (${pendingOwner})`,
+        );
+      }
+
+      if (args.dryRun) {
+        return printDryRun(
+          await dryRun(client, { method: "acceptOwnership" }),
+          log,
+        );
+      }
+      const tx = await client.acceptOwnership();
+      const transaction = await summarizeTransaction(
+        client,
+        await waitForTransaction(tx, log),
+      );
+      log(`${GREEN}✓${RESET} ${signerAddress} now owns the XNS contract`);
+      return { transaction, state: await getOwnershipState(client) };
+    }),
+  );
@@ -0,0 +1,12 @@
+/**
+ * XNS Hardhat tasks (imported by hardhat.config.ts)
+ */
+
+import "./bundle";
+import "./fees";
+import "./names";
+import "./namespaces";
+import "./safe";
+import "./watch";
+import "./whois";
+import "./wizard";
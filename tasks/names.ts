@@ -0,0 +1,464 @@
+/**
+ * Tasks for registering and resolving names
+ *
+ * EXAMPLES:
+ * - Register a name for yourself (public namespace after its exclusivity period):
+ *   `npx hardhat xns:register --label alice --namespace xns --network sepolia`
+ * - Sponsor a name for another configured account, which signs the `RegisterNameAuth`:
+ *   `npx hardhat xns:register-auth --label bob --namespace xns --recipient-index 1 --network sepolia`
+ * - Sponsor a name with a signature the recipient shared (e.g. an EIP-1271 contract):
+ *   `npx hardhat xns:register-auth --label token --namespace xns --recipient 0x... --signature 0x... --network sepolia`
+ * - Sponsor several names in one transaction:
+ *   `npx hardhat xns:batch-register --namespace xns --labels bob,carol --recipient-indices 1,2 --network sepolia`
+ * - Resolve a name or an address:
+ *   `npx hardhat xns:resolve alice.xns --network sepolia`
+ *
+ * Every registration is checked with `preflightRegistration` first, so all failing preconditions are reported
+ * before a transaction is sent. The paying account is selected with `--signer-index` / `--sponsor-index` or
+ * `--ledger`. With `--dry-run`, the registration is simulated and its outcome printed instead of sending it.
+ * `--confirmations` waits for that many confirmations and checks the names at the confirmed block before they
+ * are reported as safe to share (see `waitForConfirmations`).
+ */
+
+import { task, types } from "hardhat/config";
+import {
+  ContractTransactionResponse,
+  ZeroAddress,
+  formatEther,
+  getAddress,
+  isAddress,
+} from "ethers";
+import {
+  ConfirmationResult,
+  RegisterNameAuth,
+  XnsClient,
+  dryRun,
+  formatXnsName,
+  getXnsTypedDataDomain,
+  preflightRegistration,
+  signRegisterNameAuthTypedData,
+} from "../scripts/sdk";
+import {
+  GREEN,
+  RESET,
+  TaskError,
+  TaskLogger,
+  TransactionSummary,
+  addressType,
+  assertPreflight,
+  confirmRegistration,
+  confirmationsType,
+  getSigner,
+  getTaskSigner,
+  getXnsClient,
+  labelType,
+  namespaceType,
+  printDryRun,
+  splitList,
+  summarizeTransaction,
+  waitForTransaction,
+  withJsonOutput,
+} from "./utils";
+
+/**
+ * Waits for a registration and its confirmations and prints the registered names
+ * @returns The transaction, the confirmation verdict and the names of the recipients afterwards
+ */
+async function registrationResult(
+  client: XnsClient,
+  tx: ContractTransactionResponse,
+  recipients: string[],
+  confirmations: number,
+  log: TaskLogger,
+): Promise<RegistrationResult> {
+  const { confirmation, receipt } = await confirmRegistration(
+    client,
+    await waitForTransaction(tx, log),
+    confirmations,
+    log,
+  );
+  const transaction = await summarizeTransaction(client, receipt);
+  for (const event of transaction.events) {
+    if (event.event === "NameRegistered") {
+      log(
+        `${GREEN}✓${RESET} ${event.fullName ?? event.labelHash} → ${event.owner}`,
+      );
+    }
+  }
+  const names = await Promise.all(
+    recipients.map(async (address) => ({
+      address,
+      name: await client.reverseResolve(address),
+    })),
+  );
+  return { transaction, confirmation, names };
+}
+
+interface RegistrationResult {
+  transaction: TransactionSummary;
+  confirmation: ConfirmationResult;
+  // Name of every recipient after the transaction ("" if the registration was skipped)
+  names: { address: string; name: string }[];
+}
+
+task("xns:register", "Registers a name for the signer via registerName")
+  .addParam("label", "Label to register", undefined, labelType)
+  .addParam("namespace", "Namespace of the name", undefined, namespaceType)
+  .addOptionalParam("signerIndex", "Index of the account", 0, types.int)
+  .addFlag("ledger", "Register with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Confirmations to wait for before checking the names and reporting whether they are safe to share",
+    1,
+    confirmationsType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag(
+    "dryRun",
+    "Simulate with staticCall and estimateGas and print the outcome instead of sending the transaction",
+  )
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:register", async (args, hre, log) => {
+      const signer = await getTaskSigner(
+        hre,
+        {
+          index: args.signerIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const signerAddress = await signer.getAddress();
+      const client = getXnsClient(hre, args.xns).connect(signer);
+      const fullName = formatXnsName(args.label, args.namespace);
+
+      const preflight = await preflightRegistration(client, {
+        label: args.label,
+        namespace: args.namespace,
+        payer: signerAddress,
+      });
+      assertPreflight(fullName, preflight, log);
+
+      const price = preflight.namespaceInfo!.pricePerName;
+      if (args.dryRun) {
+        return printDryRun(
+          await dryRun(
+            client,
+            {
+              method: "registerName",
+              label: args.label,
+              namespace: args.namespace,
+            },
+            { value: price },
+          ),
+          log,
+        );
+      }
+      log(
+        `Registering ${GREEN}${fullName}${RESET} for ${GREEN}${signerAddress}${RESET} (${formatEther(price)} ETH)`,
+      );
+      const tx = await client.registerName(args.label, args.namespace, {
+        value: price,
+      });
+      return await registrationResult(
+        client,
+        tx,
+        [signerAddress],
+        args.confirmations,
+        log,
+      );
+    }),
+  );
+
+task(
+  "xns:register-auth",
+  "Registers a name for a recipient via registerNameWithAuthorization, paid by a sponsor",
+)
+  .addParam("label", "Label to register", undefined, labelType)
+  .addParam("namespace", "Namespace of the name", undefined, namespaceType)
+  .addOptionalParam(
+    "recipient",
+    "Recipient of the name (use with `--signature`)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam(
+    "signature",
+    "The recipient's RegisterNameAuth signature (use with `--recipient`)",
+  )
+  .addOptionalParam(
+    "recipientIndex",
+    "Index of a configured account that receives the name and signs the authorization",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("sponsorIndex", "Index of the paying account", 0, types.int)
+  .addFlag("ledger", "Pay with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Confirmations to wait for before checking the names and reporting whether they are safe to share",
+    1,
+    confirmationsType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag(
+    "dryRun",
+    "Simulate with staticCall and estimateGas and print the outcome instead of sending the transaction",
+  )
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:register-auth", async (args, hre, log) => {
+      const byIndex = args.recipientIndex !== undefined;
+      const bySignature =
+        args.recipient !== undefined || args.signature !== undefined;
+      if (byIndex === bySignature) {
+        throw new TaskError(
+          "INVALID_ARGUMENT",
+          "Either `--recipient-index` or `--recipient` and `--signature` are required",
+        );
+      }
+      if (bySignature && (!args.recipient || !args.signature)) {
+        throw new TaskError(
+          "INVALID_ARGUMENT",
+          "`--recipient` and `--signature` must be used together",
+        );
+      }
+
+      const sponsor = await getTaskSigner(
+        hre,
+        {
+          index: args.sponsorIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const sponsorAddress = await sponsor.getAddress();
+      const client = getXnsClient(hre, args.xns).connect(sponsor);
+
+      let auth: RegisterNameAuth;
+      let signature: string;
+      if (byIndex) {
+        const recipient = await getSigner(hre, args.recipientIndex);
+        auth = {
+          recipient: recipient.address,
+          label: args.label,
+          namespace: args.namespace,
+        };
+        signature = await signRegisterNameAuthTypedData(
+          recipient,
+          await getXnsTypedDataDomain(client),
+          auth,
+        );
+      } else {
+        auth = {
+          recipient: args.recipient,
+          label: args.label,
+          namespace: args.namespace,
+        };
+        signature = args.signature;
+      }
+      const fullName = formatXnsName(auth.label, auth.namespace);
+
+      const preflight = await preflightRegistration(client, {
+        ...auth,
+        payer: sponsorAddress,
+        signature,
+      });
+      assertPreflight(fullName, preflight, log);
+
+      const price = preflight.namespaceInfo!.pricePerName;
+      if (args.dryRun) {
+        return printDryRun(
+          await dryRun(
+            client,
+            { method: "registerNameWithAuthorization", auth, signature },
+            { value: price },
+          ),
+          log,
+        );
+      }
+      log(
+        `Registering ${GREEN}${fullName}${RESET} for ${GREEN}${auth.recipient}${RESET}, paid by ${GREEN}${sponsorAddress}${RESET} (${formatEther(price)} ETH)`,
+      );
+      const tx = await client.registerNameWithAuthorization(auth, signature, {
+        value: price,
+      });
+      return await registrationResult(
+        client,
+        tx,
+        [auth.recipient],
+        args.confirmations,
+        log,
+      );
+    }),
+  );
+
+task(
+  "xns:batch-register",
+  "Registers names for configured accounts via batchRegisterNameWithAuthorization, paid by a sponsor (use `xns:bundle:submit` for signatures collected in a bundle)",
+)
+  .addParam("namespace", "Namespace of the names", undefined, namespaceType)
+  .addParam("labels", "Comma-separated labels")
+  .addParam(
+    "recipientIndices",
+    "Comma-separated indices of the configured accounts receiving the labels (in the same order)",
+  )
+  .addOptionalParam("sponsorIndex", "Index of the paying account", 0, types.int)
+  .addFlag("ledger", "Pay with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Confirmations to wait for before checking the names and reporting whether they are safe to share",
+    1,
+    confirmationsType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag(
+    "dryRun",
+    "Simulate with staticCall and estimateGas and print the outcome instead of sending the transaction",
+  )
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:batch-register", async (args, hre, log) => {
+      const labels = splitList(args.labels);
+      const indices = splitList(args.recipientIndices).map((index) => {
+        if (!/^\d+$/.test(index)) {
+          throw new TaskError(
+            "INVALID_ARGUMENT",
+            `Invalid account index: ${index}`,
+          );
+        }
+        return Number(index);
+      });
+      if (labels.length === 0) {
+        throw new TaskError("INVALID_ARGUMENT", "No labels given");
+      }
+      if (labels.length !== indices.length) {
+        throw new TaskError(
+          "INVALID_ARGUMENT",
+          `${labels.length} label(s) but ${indices.length} recipient index(es)`,
+        );
+      }
+      labels.forEach((label) => labelType.validate("labels", label));
+
+      const sponsor = await getTaskSigner(
+        hre,
+        {
+          index: args.sponsorIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const sponsorAddress = await sponsor.getAddress();
+      const client = getXnsClient(hre, args.xns).connect(sponsor);
+      const domain = await getXnsTypedDataDomain(client);
+
+      const auths: RegisterNameAuth[] = [];
+      const signatures: string[] = [];
+      for (const [i, label] of labels.entries()) {
+        const recipient = await getSigner(hre, indices[i]);
+        const auth = {
+          recipient: recipient.address,
+          label,
+          namespace: args.namespace,
+        };
+        const signature = await signRegisterNameAuthTypedData(
+          recipient,
+          domain,
+          auth,
+        );
+        assertPreflight(
+          formatXnsName(label, args.namespace),
+          await preflightRegistration(client, {
+            ...auth,
+            payer: sponsorAddress,
+            signature,
+          }),
+          log,
+        );
+        auths.push(auth);
+        signatures.push(signature);
+      }
+
+      const price = await client.getNamespacePrice(args.namespace);
+      const value = price * BigInt(auths.length);
+      if (args.dryRun) {
+        return printDryRun(
+          await dryRun(
+            client,
+            {
+              method: "batchRegisterNameWithAuthorization",
+              auths,
+              signatures,
+            },
+            { value },
+          ),
+          log,
+        );
+      }
+      log(
+        `Registering ${GREEN}${auths.length}${RESET} name(s) in ${GREEN}${args.namespace}${RESET}, paid by ${GREEN}${sponsorAddress}${RESET} (${formatEther(value)} ETH)`,
+      );
+      const tx = await client.batchRegisterNameWithAuthorization(
+        auths,
+        signatures,
+        { value },
+      );
+      return await registrationResult(
+        client,
+        tx,
+        auths.map((auth) => auth.recipient),
+        args.confirmations,
+        log,
+      );
+    }),
+  );
+
+task("xns:resolve", "Resolves a name to its address or an address to its name")
+  .addPositionalParam(
+    "query",
+    "Full name (e.g. `alice.xns`, or `vitalik` for bare names) or address",
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:resolve", async (args, hre, log) => {
+      const client = getXnsClient(hre, args.xns);
+      if (isAddress(args.query)) {
+        const name = await client.reverseResolve(args.query);
+        log(
+          name === ""
+            ? `${args.query} has no name`
+            : `${args.query} → ${GREEN}${name}${RESET}`,
+        );
+        return { address: getAddress(args.query), name };
+      }
+      const address = await client.resolveFullName(args.query);
+      log(
+        address === ZeroAddress
+          ? `${args.query} is not registered`
+          : `${args.query} → ${GREEN}${address}${RESET}`,
+      );
+      return { name: args.query, address };
+    }),
+  );
@@ -0,0 +1,362 @@
+/**
+ * Tasks for registering namespaces and transferring their ownership
+ *
+ * EXAMPLES:
+ * - Register a public namespace (50 ETH fee) with a price of 0.002 ETH per name:
+ *   `npx hardhat xns:ns:register --namespace 001 --price 0.002 --network sepolia`
+ * - Register a private namespace (10 ETH fee):
+ *   `npx hardhat xns:ns:register --namespace corp --price 0.005 --private --network sepolia`
+ * - Register a namespace for another address free of charge (contract owner, onboarding period only):
+ *   `npx hardhat xns:ns:register --namespace 002 --price 0.001 --for 0x... --network sepolia`
+ * - Simulate a registration (events, burn and fee credits) without sending it:
+ *   `npx hardhat xns:ns:register --namespace 001 --price 0.002 --dry-run --network sepolia`
+ * - Show a namespace:
+ *   `npx hardhat xns:ns:info xns --network sepolia`
+ * - Transfer a namespace in two steps (pass the zero address to `--to` to cancel a pending transfer):
+ *   `npx hardhat xns:ns:transfer --namespace 001 --to 0x... --network sepolia`
+ *   `npx hardhat xns:ns:accept --namespace 001 --signer-index 1 --network sepolia`
+ */
+
+import { task, types } from "hardhat/config";
+import { ZeroAddress, formatEther } from "ethers";
+import {
+  InvalidPriceStepError,
+  NamespaceAlreadyExistsError,
+  NoPendingOwnerError,
+  NotNamespaceOwnerError,
+  NotPendingOwnerError,
+  PriceTooLowError,
+  XnsClient,
+  dryRun,
+} from "../scripts/sdk";
+import {
+  GREEN,
+  RESET,
+  YELLOW,
+  addressType,
+  etherType,
+  getTaskSigner,
+  getXnsClient,
+  namespaceType,
+  printDryRun,
+  summarizeTransaction,
+  waitForTransaction,
+  withJsonOutput,
+} from "./utils";
+
+/**
+ * Reads a namespace, its exclusivity status and its pending owner
+ */
+async function getNamespaceState(client: XnsClient, namespace: string) {
+  const [info, inExclusivityPeriod, pendingOwner] = await Promise.all([
+    client.getNamespaceInfo(namespace),
+    client.isInExclusivityPeriod(namespace),
+    client.getPendingNamespaceOwner(namespace),
+  ]);
+  return { info, inExclusivityPeriod, pendingOwner };
+}
+
+task("xns:ns:register", "Registers a public or private namespace")
+  .addParam("namespace", "Namespace to register", undefined, namespaceType)
+  .addParam(
+    "price",
+    "Price per name in ETH (e.g. `0.001`)",
+    undefined,
+    etherType,
+  )
+  .addFlag("private", "Register a private namespace")
+  .addOptionalParam(
+    "for",
+    "Register for this address without fee (contract owner only, during the onboarding period)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("signerIndex", "Index of the account", 0, types.int)
+  .addFlag("ledger", "Register with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag(
+    "dryRun",
+    "Simulate with staticCall and estimateGas and print the outcome instead of sending the transaction",
+  )
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:ns:register", async (args, hre, log) => {
+      const signer = await getTaskSigner(
+        hre,
+        {
+          index: args.signerIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const client = getXnsClient(hre, args.xns).connect(signer);
+      const { namespace, price } = args as { namespace: string; price: bigint };
+      const isPrivate: boolean = args.private;
+
+      const constants = await client.getConstants();
+      const minPrice = isPrivate
+        ? constants.privateNamespaceMinPrice
+        : constants.publicNamespaceMinPrice;
+      if ((await client.findNamespaceInfo(namespace)) !== null) {
+        throw new NamespaceAlreadyExistsError("XNS: namespace already exists", {
+          namespace,
+        });
+      }
+      if (price < minPrice) {
+        throw new PriceTooLowError("XNS: pricePerName too low", {
+          namespace,
+          isPrivate,
+          minPrice,
+        });
+      }
+      if (price % constants.priceStep !== 0n) {
+        throw new InvalidPriceStepError(
+          "XNS: price not multiple of 0.001 ETH",
+          {
+            namespace,
+          },
+        );
+      }
+
+      if (args.dryRun) {
+        return printDryRun(
+          args.for
+            ? await dryRun(client, {
+                method: isPrivate
+                  ? "registerPrivateNamespaceFor"
+                  : "registerPublicNamespaceFor",
+                nsOwner: args.for,
+                namespace,
+                pricePerName: price,
+              })
+            : await dryRun(client, {
+                method: isPrivate
+                  ? "registerPrivateNamespace"
+                  : "registerPublicNamespace",
+                namespace,
+                pricePerName: price,
+              }),
+          log,
+        );
+      }
+      const kind = isPrivate ? "private" : "public";
+      let tx;
+      if (args.for) {
+        log(
+          `Registering ${kind} namespace ${GREEN}${namespace}${RESET} for ${GREEN}${args.for}${RESET} (${formatEther(price)} ETH per name)`,
+        );
+        tx = isPrivate
+          ? await client.registerPrivateNamespaceFor(args.for, namespace, price)
+          : await client.registerPublicNamespaceFor(args.for, namespace, price);
+      } else {
+        const fee = isPrivate
+          ? constants.privateNamespaceRegistrationFee
+          : constants.publicNamespaceRegistrationFee;
+        log(
+          `Registering ${kind} namespace ${GREEN}${namespace}${RESET} (${formatEther(price)} ETH per name) for a fee of ${GREEN}${formatEther(fee)} ETH${RESET}`,
+        );
+        tx = isPrivate
+          ? await client.registerPrivateNamespace(namespace, price, {
+              value: fee,
+            })
+          : await client.registerPublicNamespace(namespace, price, {
+              value: fee,
+            });
+      }
+      const transaction = await summarizeTransaction(
+        client,
+        await waitForTransaction(tx, log),
+      );
+      for (const event of transaction.events) {
+        if (event.event === "NamespaceRegistered") {
+          log(`${GREEN}✓${RESET} ${event.namespace} → ${event.owner}`);
+        }
+      }
+      return {
+        transaction,
+        state: await getNamespaceState(client, namespace),
+      };
+    }),
+  );
+
+task("xns:ns:info", "Shows the price, owner and status of a namespace")
+  .addPositionalParam("namespace", "Namespace", undefined, namespaceType)
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:ns:info", async (args, hre, log) => {
+      const client = getXnsClient(hre, args.xns);
+      const state = await getNamespaceState(client, args.namespace);
+      const { info, inExclusivityPeriod, pendingOwner } = state;
+
+      log(`Namespace: ${GREEN}${info.namespace}${RESET}`);
+      log(
+        `Price per name: ${GREEN}${formatEther(info.pricePerName)} ETH${RESET}`,
+      );
+      log(`Owner: ${GREEN}${info.owner}${RESET}`);
+      log(
+        `Created at: ${GREEN}${new Date(Number(info.createdAt) * 1000).toISOString()}${RESET}`,
+      );
+      log(`Private: ${GREEN}${info.isPrivate}${RESET}`);
+      log(
+        `In exclusivity period: ${inExclusivityPeriod ? YELLOW : GREEN}${inExclusivityPeriod}${RESET}`,
+      );
+      if (pendingOwner !== ZeroAddress) {
+        log(`Pending owner: ${YELLOW}${pendingOwner}${RESET}`);
+      }
+      return state;
+    }),
+  );
+
+task(
+  "xns:ns:transfer",
+  "Starts the 2-step ownership transfer of a namespace (the new owner accepts with `xns:ns:accept`)",
+)
+  .addParam("namespace", "Namespace", undefined, namespaceType)
+  .addParam(
+    "to",
+    "New owner (the zero address cancels a pending transfer)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("signerIndex", "Index of the namespace owner", 0, types.int)
+  .addFlag("ledger", "Sign with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag(
+    "dryRun",
+    "Simulate with staticCall and estimateGas and print the outcome instead of sending the transaction",
+  )
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:ns:transfer", async (args, hre, log) => {
+      const signer = await getTaskSigner(
+        hre,
+        {
+          index: args.signerIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const signerAddress = await signer.getAddress();
+      const client = getXnsClient(hre, args.xns).connect(signer);
+      const info = await client.getNamespaceInfo(args.namespace);
+      if (info.owner.toLowerCase() !== signerAddress.toLowerCase()) {
+        throw new NotNamespaceOwnerError("XNS: not namespace owner", {
+          namespace: args.namespace,
+        });
+      }
+
+      if (args.dryRun) {
+        return printDryRun(
+          await dryRun(client, {
+            method: "transferNamespaceOwnership",
+            namespace: args.namespace,
+            newOwner: args.to,
+          }),
+          log,
+        );
+      }
+      const tx = await client.transferNamespaceOwnership(
+        args.namespace,
+        args.to,
+      );
+      const transaction = await summarizeTransaction(
+        client,
+        await waitForTransaction(tx, log),
+      );
+      log(
+        args.to === ZeroAddress
+          ? `${GREEN}✓${RESET} Pending transfer of ${args.namespace} cancelled`
+          : `${GREEN}✓${RESET} ${args.to} can now accept ${args.namespace} with \`xns:ns:accept\``,
+      );
+      return {
+        transaction,
+        state: await getNamespaceState(client, args.namespace),
+      };
+    }),
+  );
+
+task(
+  "xns:ns:accept",
+  "Accepts a pending namespace ownership transfer to the signer",
+)
+  .addParam("namespace", "Namespace", undefined, namespaceType)
+  .addOptionalParam("signerIndex", "Index of the new owner", 0, types.int)
+  .addFlag("ledger", "Sign with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag(
+    "dryRun",
+    "Simulate with staticCall and estimateGas and print the outcome instead of sending the transaction",
+  )
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:ns:accept", async (args, hre, log) => {
+      const signer = await getTaskSigner(
+        hre,
+        {
+          index: args.signerIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const signerAddress = await signer.getAddress();
+      const client = getXnsClient(hre, args.xns).connect(signer);
+      const pendingOwner = await client.getPendingNamespaceOwner(
+        args.namespace,
+      );
+      if (pendingOwner === ZeroAddress) {
+        throw new NoPendingOwnerError("XNS: no pending owner", {
+          namespace: args.namespace,
+        });
+      }
+      if (pendingOwner.toLowerCase() !== signerAddress.toLowerCase()) {
+        throw new NotPendingOwnerError("XNS: not pending owner", {
+          namespace: args.namespace,
+          address: signerAddress,
+        });
+      }
+
+      if (args.dryRun) {
+        return printDryRun(
+          await dryRun(client, {
+            method: "acceptNamespaceOwnership",
+            namespace: args.namespace,
+          }),
+          log,
+        );
+      }
+      const tx = await client.acceptNamespaceOwnership(args.namespace);
+      const transaction = await summarizeTransaction(
+        client,
+        await waitForTransaction(tx, log),
+      );
+      log(
+        `${GREEN}✓${RESET} ${signerAddress} now owns ${GREEN}${args.namespace}${RESET}`,
+      );
+      return {
+        transaction,
+        state: await getNamespaceState(client, args.namespace),
+      };
+    }),
+  );
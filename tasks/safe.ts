@@ -0,0 +1,215 @@
+/**
+ * Tasks for registering names for Safe multisigs (see `scripts/sdk/safe.ts`)
+ *
+ * WORKFLOW:
+ * 1. Each owner signs the `SafeMessage` wrapping the XNS digest and shares the printed owner signature:
+ *    `npx hardhat xns:safe:sign --safe 0x... --label treasury --namespace xns --ledger --network sepolia`
+ * 2. The sponsor combines the owner signatures and checks them with `isValidSignature` on XNS:
+ *    `npx hardhat xns:safe:combine --safe 0x... --label treasury --namespace xns --signatures 0x...,0x... --network sepolia`
+ *
+ * Instead of `--label` and `--namespace`, both tasks accept `--bundle` to use the bundle entry of the Safe;
+ * `xns:safe:combine` then writes the Safe signature into the bundle for `xns:bundle:submit`.
+ */
+
+import { writeFileSync } from "fs";
+import { task, types } from "hardhat/config";
+import {
+  RegisterNameAuth,
+  SafeOwnerSignature,
+  addBundleSignature,
+  buildSafeMessageTypedData,
+  checkSafeRegisterNameAuthSignature,
+  encodeSafeSignatures,
+  formatXnsName,
+  getSafeInfo,
+  getSafeRegisterNameAuthDigest,
+  readAuthorizationBundle,
+  recoverSafeOwnerSignature,
+  signSafeRegisterNameAuth,
+  writeAuthorizationBundle,
+} from "../scripts/sdk";
+import {
+  GREEN,
+  RED,
+  RESET,
+  TaskError,
+  addressType,
+  getTaskSigner,
+  getXnsClient,
+  labelType,
+  namespaceType,
+  splitList,
+  withJsonOutput,
+} from "./utils";
+
+/**
+ * Returns the registration of the Safe from `--label`/`--namespace` or from its entry in `--bundle`
+ */
+function getSafeAuth(args: {
+  safe: string;
+  label?: string;
+  namespace?: string;
+  bundle?: string;
+}): RegisterNameAuth {
+  if (args.bundle) {
+    const entry = readAuthorizationBundle(args.bundle).entries.find(
+      ({ auth }) => auth.recipient.toLowerCase() === args.safe.toLowerCase(),
+    );
+    if (!entry) {
+      throw new TaskError(
+        "ENTRY_NOT_FOUND",
+        `No entry for ${args.safe} in ${args.bundle}`,
+      );
+    }
+    return entry.auth;
+  }
+  if (!args.label || !args.namespace) {
+    throw new TaskError(
+      "INVALID_ARGUMENT",
+      "Either `--bundle` or `--label` and `--namespace` are required",
+    );
+  }
+  return { recipient: args.safe, label: args.label, namespace: args.namespace };
+}
+
+task(
+  "xns:safe:sign",
+  "Signs the registration of a name for a Safe with one of its owners",
+)
+  .addParam("safe", "Safe address (the recipient)", undefined, addressType)
+  .addOptionalParam("label", "Label of the name", undefined, labelType)
+  .addOptionalParam(
+    "namespace",
+    "Namespace of the name",
+    undefined,
+    namespaceType,
+  )
+  .addOptionalParam("bundle", "Bundle file with an entry for the Safe")
+  .addOptionalParam("signerIndex", "Index of the owner account", 0, types.int)
+  .addFlag("ledger", "Sign with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam(
+    "typedData",
+    "File to write the `eth_signTypedData_v4` JSON of the `SafeMessage` to (for owners signing elsewhere)",
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:safe:sign", async (args, hre, log) => {
+      const client = getXnsClient(hre, args.xns);
+      const auth = getSafeAuth(args);
+      const safe = await getSafeInfo(hre.ethers.provider, auth.recipient);
+      log(
+        `Safe ${GREEN}${safe.address}${RESET}: ${safe.threshold} of ${safe.owners.length} owners`,
+      );
+      log(`Name: ${GREEN}${formatXnsName(auth.label, auth.namespace)}${RESET}`);
+
+      if (args.typedData) {
+        const digest = await getSafeRegisterNameAuthDigest(client, auth);
+        writeFileSync(
+          args.typedData,
+          `${JSON.stringify(buildSafeMessageTypedData(safe, digest), null, 2)}\n`,
+        );
+        log(`Typed data: ${GREEN}${args.typedData}${RESET}`);
+        return { safe, auth, typedData: args.typedData };
+      }
+
+      const signer = await getTaskSigner(
+        hre,
+        {
+          index: args.signerIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const { owner, signature } = await signSafeRegisterNameAuth(
+        client,
+        safe,
+        auth,
+        signer,
+      );
+      log(`\n${GREEN}✓${RESET} Signed by owner ${owner}:`);
+      log(signature);
+      return { safe, auth, owner, signature };
+    }),
+  );
+
+task(
+  "xns:safe:combine",
+  "Combines owner signatures into the Safe signature and checks it with isValidSignature",
+)
+  .addParam("safe", "Safe address (the recipient)", undefined, addressType)
+  .addParam("signatures", "Comma-separated owner signatures")
+  .addOptionalParam("label", "Label of the name", undefined, labelType)
+  .addOptionalParam(
+    "namespace",
+    "Namespace of the name",
+    undefined,
+    namespaceType,
+  )
+  .addOptionalParam(
+    "bundle",
+    "Bundle file with an entry for the Safe (the Safe signature is written into it)",
+  )
+  .addOptionalParam("out", "Bundle file to write (defaults to `--bundle`)")
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:safe:combine", async (args, hre, log) => {
+      const client = getXnsClient(hre, args.xns);
+      const auth = getSafeAuth(args);
+      const safe = await getSafeInfo(hre.ethers.provider, auth.recipient);
+      const digest = await getSafeRegisterNameAuthDigest(client, auth);
+
+      const ownerSignatures: SafeOwnerSignature[] = splitList(
+        args.signatures,
+      ).map((signature) => recoverSafeOwnerSignature(safe, digest, signature));
+      for (const { owner } of ownerSignatures) {
+        log(`  ${GREEN}✓${RESET} owner ${owner}`);
+      }
+      const signature = encodeSafeSignatures(safe, ownerSignatures);
+
+      const check = await checkSafeRegisterNameAuthSignature(
+        client,
+        auth,
+        signature,
+      );
+      if (!check.isValid) {
+        log(`${RED}✗ ${check.error}${RESET}`);
+        throw new TaskError(
+          "SAFE_SIGNATURE_REJECTED",
+          "Safe signature rejected by XNS",
+          check,
+        );
+      }
+      log(
+        `\n${GREEN}✓${RESET} XNS accepts the signature of ${safe.address} for ${formatXnsName(auth.label, auth.namespace)}:`,
+      );
+      log(signature);
+
+      if (args.bundle) {
+        writeAuthorizationBundle(
+          args.out ?? args.bundle,
+          addBundleSignature(
+            readAuthorizationBundle(args.bundle),
+            auth,
+            signature,
+          ),
+        );
+        log(`Bundle: ${GREEN}${args.out ?? args.bundle}${RESET}`);
+      }
+      return {
+        safe,
+        auth,
+        signature,
+        check,
+        bundle: args.bundle ? (args.out ?? args.bundle) : null,
+      };
+    }),
+  );
@@ -0,0 +1,643 @@
+/**
+ * Helpers shared by the XNS Hardhat tasks
+ */
+
+import {
+  ContractTransactionResponse,
+  Signer,
+  TransactionReceipt,
+  formatEther,
+  isAddress,
+  parseEther,
+} from "ethers";
+import {
+  ActionType,
+  CLIArgumentType,
+  HardhatRuntimeEnvironment,
+  TaskArguments,
+} from "hardhat/types";
+import {
+  ConfirmationResult,
+  DecodedXnsEvent,
+  DryRunResult,
+  LedgerSigner,
+  PredictedXnsEvent,
+  PreflightResult,
+  XnsClient,
+  XnsError,
+  XnsErrorContext,
+  decodeReceipt,
+  formatValidationErrors,
+  formatXnsName,
+  validateLabel,
+  validateNamespace,
+  waitForConfirmations,
+} from "../scripts/sdk";
+
+// Colour codes for terminal prints
+export const RESET = "\x1b[0m";
+export const GREEN = "\x1b[32m";
+export const YELLOW = "\x1b[33m";
+export const RED = "\x1b[31m";
+export const CYAN = "\x1b[36m";
+
+/**
+ * Error of a task that carries a stable code for `--json` output
+ */
+export class TaskError extends Error {
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = "TaskError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Prints the human-readable output of a task: to stdout, or to stderr with `--json`
+ */
+export type TaskLogger = (...data: unknown[]) => void;
+
+/**
+ * Returns a read-only client for the XNS deployment of the current network
+ * @param hre The Hardhat runtime environment
+ * @param address The XNS address; defaults to the address in `constants/addresses.ts`
+ */
+export function getXnsClient(
+  hre: HardhatRuntimeEnvironment,
+  address?: string,
+): XnsClient {
+  return address
+    ? new XnsClient(address, hre.ethers.provider)
+    : XnsClient.forNetwork(hre.network.name, hre.ethers.provider);
+}
+
+/**
+ * Returns the signer at `index` of the configured accounts
+ * @param hre The Hardhat runtime environment
+ * @param index The account index
+ */
+export async function getSigner(hre: HardhatRuntimeEnvironment, index: number) {
+  const signers = await hre.ethers.getSigners();
+  if (index < 0 || index >= signers.length) {
+    throw new TaskError(
+      "INVALID_ARGUMENT",
+      `Signer index ${index} out of range (${signers.length} accounts configured)`,
+    );
+  }
+  return signers[index];
+}
+
+/**
+ * Returns the signer of a Ledger account of the network
+ * The account must be listed in `ledgerAccounts` of the network in hardhat.config.ts: `@nomicfoundation/hardhat-ledger`
+ * then forwards its signing requests to the device, which clear-signs typed data if the Ethereum app supports it.
+ * The values the device shows are printed before each request (see `LedgerSigner`).
+ * @param hre The Hardhat runtime environment
+ * @param address The Ledger account; defaults to the first `ledgerAccounts` entry
+ * @param log The task logger
+ */
+export async function getLedgerSigner(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+  log: TaskLogger,
+): Promise<Signer> {
+  const ledgerAccounts = hre.network.config.ledgerAccounts ?? [];
+  const account = address ?? ledgerAccounts[0];
+  if (account === undefined) {
+    throw new TaskError(
+      "INVALID_ARGUMENT",
+      `No \`ledgerAccounts\` configured for network ${hre.network.name} (set one with \`npx hardhat vars set LEDGER_ACCOUNT\`)`,
+    );
+  }
+  if (!ledgerAccounts.some((a) => a.toLowerCase() === account.toLowerCase())) {
+    throw new TaskError(
+      "INVALID_ARGUMENT",
+      `Invalid value for --ledger-account: ${account} is not in the \`ledgerAccounts\` of network ${hre.network.name}`,
+    );
+  }
+  const signer = await hre.ethers.getSigner(account);
+  log(
+    `Ledger account: ${GREEN}${signer.address}${RESET} (confirm each request on the device)`,
+  );
+  return new LedgerSigner(signer, {
+    onPrompt: (prompt) => {
+      log(`${CYAN}Compare with the Ledger screen:${RESET}`);
+      for (const line of prompt.lines) {
+        log(`  ${line}`);
+      }
+    },
+  });
+}
+
+/**
+ * Returns the signer selected by the common task parameters: the Ledger account if `ledger` is set, otherwise the
+ * configured account at `index`
+ * @param hre The Hardhat runtime environment
+ * @param args `--ledger`, `--ledger-account` and the account index
+ * @param log The task logger
+ */
+export async function getTaskSigner(
+  hre: HardhatRuntimeEnvironment,
+  args: { index: number; ledger?: boolean; ledgerAccount?: string },
+  log: TaskLogger,
+): Promise<Signer> {
+  return args.ledger
+    ? await getLedgerSigner(hre, args.ledgerAccount, log)
+    : await getSigner(hre, args.index);
+}
+
+/**
+ * Splits a comma-separated task parameter into its trimmed, non-empty items
+ * @param value The parameter value
+ */
+export function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+// ---------------------------------------------------------------------------
+// Parameter types
+// ---------------------------------------------------------------------------
+// Hardhat validates parameter types before it runs the task action, where an invalid value could not be reported in
+// the `--json` document. These types accept every value at that point and are validated by `checkTaskArguments` in
+// the action instead (`withJsonOutput` calls it before the task-specific code).
+
+/**
+ * Parameter type of the XNS tasks, validated in the task action by `check`
+ */
+export interface TaskArgumentType<T> extends CLIArgumentType<T> {
+  check: (argName: string, value: unknown) => void;
+}
+
+// `validate` of the parameter types: the value is checked in the task action
+const acceptArgument = () => undefined;
+
+/**
+ * An address (checksummed or lowercase)
+ */
+export const addressType: TaskArgumentType<string> = {
+  name: "address",
+  parse: (_argName, value) => value,
+  validate: acceptArgument,
+  check: (argName, value) => {
+    if (typeof value !== "string" || !isAddress(value)) {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        `Invalid address for --${argName}: ${value}`,
+      );
+    }
+  },
+};
+
+/**
+ * An ETH amount given in ether on the command line (e.g. `0.001`) and passed to the task in wei
+ */
+export const etherType: TaskArgumentType<bigint> = {
+  name: "ether",
+  parse: (argName, value) => {
+    try {
+      return parseEther(value);
+    } catch {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        `Invalid ETH amount for --${argName}: ${value}`,
+      );
+    }
+  },
+  validate: acceptArgument,
+  check: (argName, value) => {
+    if (typeof value !== "bigint" || value < 0n) {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        `Invalid ETH amount for --${argName}: ${value}`,
+      );
+    }
+  },
+};
+
+/**
+ * A number of confirmations (at least 1, i.e. mined)
+ */
+export const confirmationsType: TaskArgumentType<number> = {
+  name: "confirmations",
+  parse: (_argName, value) => Number(value),
+  validate: acceptArgument,
+  check: (argName, value) => {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        `Invalid number of confirmations for --${argName}: ${value}`,
+      );
+    }
+  },
+};
+
+/**
+ * A label accepted by `isValidLabelOrNamespace`
+ */
+export const labelType: TaskArgumentType<string> = {
+  name: "label",
+  parse: (_argName, value) => value,
+  validate: acceptArgument,
+  check: (_argName, value) => {
+    const result = validateLabel(String(value));
+    if (typeof value !== "string" || !result.isValid) {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        formatValidationErrors(result, "label"),
+      );
+    }
+  },
+};
+
+/**
+ * A namespace accepted by `isValidLabelOrNamespace` (without the forbidden namespace "eth")
+ */
+export const namespaceType: TaskArgumentType<string> = {
+  name: "namespace",
+  parse: (_argName, value) => value,
+  validate: acceptArgument,
+  check: (_argName, value) => {
+    const result = validateNamespace(String(value));
+    if (typeof value !== "string" || !result.isValid) {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        formatValidationErrors(result, "namespace"),
+      );
+    }
+  },
+};
+
+/**
+ * Validates the arguments of a task that have one of the parameter types above
+ * @param hre The Hardhat runtime environment
+ * @param name The task name
+ * @param args The task arguments
+ * @throws `INVALID_ARGUMENT` for the first invalid argument
+ */
+export function checkTaskArguments(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  args: TaskArguments,
+): void {
+  const { paramDefinitions, positionalParamDefinitions } = hre.tasks[name];
+  for (const { name: argName, type } of [
+    ...Object.values(paramDefinitions),
+    ...positionalParamDefinitions,
+  ]) {
+    if (args[argName] !== undefined && "check" in type) {
+      (type as TaskArgumentType<unknown>).check(argName, args[argName]);
+    }
+  }
+}
+
+/**
+ * Throws with every failing precondition of a registration
+ */
+export function assertPreflight(
+  fullName: string,
+  preflight: PreflightResult,
+  log: TaskLogger,
+): void {
+  if (preflight.ok) {
+    return;
+  }
+  for (const failure of preflight.failures) {
+    log(`${RED}✗ ${failure.message}${RESET}`);
+  }
+  throw new TaskError(
+    "PREFLIGHT_FAILED",
+    `${preflight.method} of ${fullName} would revert: ${preflight.failures.map((f) => f.reason).join(", ")}`,
+    preflight.failures.map((failure) => ({
+      code: failure.kind,
+      reason: failure.reason,
+      context: failure.context,
+    })),
+  );
+}
+
+/**
+ * Prints the hash of a transaction sent by a task and waits for its receipt
+ * @param tx The transaction
+ * @param log The task logger
+ * @returns The receipt of the mined transaction
+ * @throws If the transaction was dropped or replaced
+ */
+export async function waitForTransaction(
+  tx: ContractTransactionResponse,
+  log: TaskLogger,
+): Promise<TransactionReceipt> {
+  log(`Transaction: ${GREEN}${tx.hash}${RESET}`);
+  log("Waiting for confirmation...");
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new TaskError(
+      "TRANSACTION_NOT_MINED",
+      `Transaction ${tx.hash} was not mined`,
+    );
+  }
+  log(`Mined in block ${GREEN}${receipt.blockNumber}${RESET}\n`);
+  return receipt;
+}
+
+/**
+ * Waits for the confirmations of a registration (`--confirmations`), checks its names at the confirmed block and
+ * prints whether they are safe to share
+ * @param client The XNS client
+ * @param receipt The receipt of the mined registration
+ * @param confirmations The number of confirmations to wait for
+ * @param log The task logger
+ * @returns The verdict and the receipt (from its current block if the transaction was moved by a reorganization)
+ * @throws If the transaction was reorganized out or reverted, registered no names, or a name does not resolve as
+ * registered
+ */
+export async function confirmRegistration(
+  client: XnsClient,
+  receipt: TransactionReceipt,
+  confirmations: number,
+  log: TaskLogger,
+): Promise<{ confirmation: ConfirmationResult; receipt: TransactionReceipt }> {
+  if (confirmations > 1) {
+    log(`Waiting for ${confirmations} confirmations...`);
+  }
+  const confirmation = await waitForConfirmations(client, receipt.hash, {
+    confirmations,
+  });
+  for (const reorg of confirmation.reorgs) {
+    log(
+      `${YELLOW}⚠${RESET} The transaction was removed from block ${reorg.blockNumber} (${reorg.blockHash}) by a reorganization`,
+    );
+  }
+  if (
+    confirmation.status === "REORGED_OUT" ||
+    confirmation.status === "DROPPED"
+  ) {
+    throw new TaskError(
+      confirmation.status,
+      `Transaction ${receipt.hash} is no longer in the chain; check the names before sharing them and register again if needed`,
+      confirmation,
+    );
+  }
+  if (confirmation.status === "NO_NAMES_REGISTERED") {
+    throw new TaskError(
+      confirmation.status,
+      `Transaction ${receipt.hash} registered no names`,
+      confirmation,
+    );
+  }
+  if (!confirmation.safeToShare) {
+    for (const name of confirmation.names.filter((name) => !name.ok)) {
+      log(
+        `${RED}✗ ${name.name ?? "(unknown name)"} → ${name.resolvedAddress}, ${name.owner} → ${name.reverseName || "(no name)"} at block ${confirmation.confirmedBlock}${RESET}`,
+      );
+    }
+    throw new TaskError(
+      confirmation.status,
+      `Transaction ${receipt.hash} is not safe to share (${confirmation.status})`,
+      confirmation,
+    );
+  }
+
+  const names = confirmation.names.map((name) => name.name).join(", ");
+  if (confirmations > 1) {
+    log(
+      `${GREEN}✓${RESET} Safe to share: ${names} (${confirmations} confirmations, checked at block ${confirmation.confirmedBlock})\n`,
+    );
+  } else {
+    log(
+      `${YELLOW}⚠${RESET} ${names}: 1 confirmation. Wait for more (\`--confirmations\`) before sharing, as a reorganization could still remove the registration\n`,
+    );
+  }
+  return {
+    confirmation,
+    receipt:
+      confirmation.blockNumber === receipt.blockNumber
+        ? receipt
+        : (await client.provider.getTransactionReceipt(receipt.hash))!,
+  };
+}
+
+export interface TransactionSummary {
+  hash: string;
+  blockNumber: number;
+  from: string;
+  gasUsed: bigint;
+  events: DecodedXnsEvent[];
+}
+
+/**
+ * Returns the hash, block, gas and decoded XNS events of a mined transaction
+ * @param client The XNS client
+ * @param receipt The receipt
+ */
+export async function summarizeTransaction(
+  client: XnsClient,
+  receipt: TransactionReceipt,
+): Promise<TransactionSummary> {
+  const { events } = await decodeReceipt(client, receipt);
+  return {
+    hash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    from: receipt.from,
+    gasUsed: receipt.gasUsed,
+    events,
+  };
+}
+
+/**
+ * Describes a decoded or predicted XNS event in one line (hashes stand in for unknown plaintext)
+ * @param event The event
+ */
+export function describeXnsEvent(
+  event: DecodedXnsEvent | PredictedXnsEvent,
+): string {
+  switch (event.event) {
+    case "NameRegistered":
+      return `NameRegistered ${event.fullName ?? event.labelHash} → ${event.owner}`;
+    case "NamespaceRegistered":
+      return `NamespaceRegistered ${event.namespace ?? event.namespaceHash} (${event.isPrivate ? "private" : "public"}, ${formatEther(event.pricePerName)} ETH per name) → ${event.owner}`;
+    case "FeesClaimed":
+      return `FeesClaimed ${formatEther(event.amount)} ETH → ${event.recipient}`;
+    case "NamespaceOwnerTransferStarted":
+      return `NamespaceOwnerTransferStarted ${event.namespace ?? event.namespaceHash}: ${event.oldOwner} → ${event.newOwner}`;
+    case "NamespaceOwnerTransferAccepted":
+      return `NamespaceOwnerTransferAccepted ${event.namespace ?? event.namespaceHash} → ${event.newOwner}`;
+    case "OwnershipTransferStarted":
+    case "OwnershipTransferred":
+      return `${event.event} ${event.previousOwner} → ${event.newOwner}`;
+  }
+}
+
+/**
+ * Prints the predicted outcome of a dry run (`--dry-run`)
+ * @param result The dry run
+ * @param log The task logger
+ * @returns The dry run (task result)
+ */
+export function printDryRun(
+  result: DryRunResult,
+  log: TaskLogger,
+): DryRunResult {
+  log(
+    `${YELLOW}Dry run${RESET} of ${result.method} from ${result.from} at block ${result.blockNumber} (nothing was sent)`,
+  );
+  log(`  Value: ${formatEther(result.value)} ETH`);
+  log(`  Gas estimate: ${result.gasEstimate}`);
+  if (result.successfulCount !== null) {
+    log(
+      `  Successful: ${result.successfulCount}/${result.successfulCount + result.skipped.length}`,
+    );
+    for (const auth of result.skipped) {
+      log(
+        `  ${YELLOW}⚠${RESET} ${formatXnsName(auth.label, auth.namespace)} → ${auth.recipient} would be skipped (name taken or recipient already has a name)`,
+      );
+    }
+  }
+  log("  Events:");
+  for (const event of result.events) {
+    log(`    ${describeXnsEvent(event)}`);
+  }
+  if (result.events.length === 0) {
+    log("    (none)");
+  }
+  if (result.burn > 0n) {
+    log(
+      `  Burn: ${formatEther(result.burn)} ETH → DETH ${result.deth} (credited to ${result.from})`,
+    );
+  }
+  for (const credit of result.feeCredits) {
+    log(`  Fee credit: ${formatEther(credit.amount)} ETH → ${credit.address}`);
+  }
+  if (result.refund > 0n) {
+    log(`  Refund: ${formatEther(result.refund)} ETH → ${result.from}`);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// JSON output
+// ---------------------------------------------------------------------------
+
+/**
+ * Document a task run with `--json` writes to stdout
+ * Amounts (wei) and other big integers are encoded as decimal strings.
+ */
+export interface TaskJsonOutput {
+  format: "xns-task-output";
+  version: 1;
+  task: string;
+  network: { name: string; chainId: number | null };
+  // The task arguments (without `json`)
+  inputs: TaskArguments;
+  ok: boolean;
+  // The task-specific result; `null` if the task failed
+  result: unknown;
+  error: {
+    // The `kind` of typed XNS errors (e.g. "NAME_ALREADY_REGISTERED"), the code of `TaskError`s and ethers
+    // errors (e.g. "INSUFFICIENT_FUNDS"), otherwise "ERROR"
+    code: string;
+    message: string;
+    // The "XNS: ..." revert reason of typed XNS errors
+    reason?: string;
+    context?: XnsErrorContext;
+    details?: unknown;
+  } | null;
+}
+
+/**
+ * Returns the `error` of the JSON output for an error thrown by a task
+ */
+function describeError(error: unknown): NonNullable<TaskJsonOutput["error"]> {
+  if (error instanceof XnsError) {
+    return {
+      code: error.kind,
+      message: error.message,
+      reason: error.reason,
+      context: error.context,
+    };
+  }
+  if (error instanceof TaskError) {
+    return { code: error.code, message: error.message, details: error.details };
+  }
+  const code = (error as { code?: unknown })?.code;
+  return {
+    code: typeof code === "string" ? code : "ERROR",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Serializes a value for `--json` output (big integers as decimal strings, unset values as `null` so that
+ * every key is always present)
+ * @param value The value
+ * @param indent The indentation; 0 for a single line
+ */
+export function toJson(value: unknown, indent = 2): string {
+  return JSON.stringify(
+    value,
+    (_key, v) => (typeof v === "bigint" ? v.toString() : (v ?? null)),
+    indent,
+  );
+}
+
+/**
+ * Action of a task with `--json` support, printing with `log` instead of `console.log`
+ */
+export type JsonTaskAction = (
+  args: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+  log: TaskLogger,
+) => Promise<unknown>;
+
+/**
+ * Wraps a task action to support the `--json` flag and validate its arguments (see `checkTaskArguments`)
+ * Without `--json`, the action prints with `console.log`. With `--json`, it prints with `console.error`, and stdout
+ * only receives one `TaskJsonOutput` document with the value the action returns or the error it throws. Either
+ * way, the task returns the result of the action, and errors are rethrown so the exit code is non-zero.
+ * @param name The task name (reported in the document)
+ * @param action The task action, returning its JSON-serializable result
+ */
+export function withJsonOutput(
+  name: string,
+  action: JsonTaskAction,
+): ActionType<TaskArguments> {
+  return async (args, hre) => {
+    if (!args.json) {
+      checkTaskArguments(hre, name, args);
+      return await action(args, hre, console.log);
+    }
+
+    const output: TaskJsonOutput = {
+      format: "xns-task-output",
+      version: 1,
+      task: name,
+      network: { name: hre.network.name, chainId: null },
+      inputs: Object.fromEntries(
+        Object.entries(args).filter(([key]) => key !== "json"),
+      ),
+      ok: true,
+      result: null,
+      error: null,
+    };
+    try {
+      output.network.chainId = Number(
+        (await hre.ethers.provider.getNetwork()).chainId,
+      );
+      checkTaskArguments(hre, name, args);
+      output.result = (await action(args, hre, console.error)) ?? null;
+      return output.result;
+    } catch (error) {
+      output.ok = false;
+      output.error = describeError(error);
+      throw error;
+    } finally {
+      process.stdout.write(`${toJson(output)}\n`);
+    }
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Live tail of XNS events
+ *
+ * EXAMPLES:
+ * - Print every XNS event as it is mined:
+ *   `npx hardhat xns:watch --network sepolia`
+ * - Only registrations in a namespace:
+ *   `npx hardhat xns:watch --namespace xns --events NameRegistered --network sepolia`
+ * - Everything involving an address, replayed from a block:
+ *   `npx hardhat xns:watch --owner 0x... --from-block 1234567 --network sepolia`
+ * - Against a local node (`npx hardhat node`), with the address of the local deployment:
+ *   `npx hardhat xns:watch --xns 0x... --network localhost`
+ *
+ * New blocks are polled with `eth_getLogs` (see `fetchXnsEvents`), so any RPC endpoint works. The task runs until
+ * it is interrupted, or until `--to-block` or `--max-events` is reached.
+ *
+ * With `--json`, every event is written to stdout as one JSON line as soon as it is decoded (NDJSON), and the
+ * human-readable output goes to stderr. Unlike the other tasks, no document is printed at the end.
+ */
+
+import { task, types } from "hardhat/config";
+import {
+  DecodedXnsEvent,
+  XNS_EVENT_NAMES,
+  XnsEventFilter,
+  XnsEventName,
+  fetchXnsEvents,
+} from "../scripts/sdk";
+import {
+  CYAN,
+  GREEN,
+  RESET,
+  TaskError,
+  TaskLogger,
+  addressType,
+  checkTaskArguments,
+  describeXnsEvent,
+  getXnsClient,
+  namespaceType,
+  splitList,
+  toJson,
+} from "./utils";
+
+/**
+ * Parses the `--events` parameter
+ */
+function parseEventNames(value: string): XnsEventName[] {
+  return splitList(value).map((name) => {
+    if (!(XNS_EVENT_NAMES as readonly string[]).includes(name)) {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        `Unknown event type for --events: ${name} (expected ${XNS_EVENT_NAMES.join(", ")})`,
+      );
+    }
+    return name as XnsEventName;
+  });
+}
+
+task("xns:watch", "Prints XNS events as they are mined, with plaintext names")
+  .addOptionalParam(
+    "namespace",
+    "Only events of this namespace",
+    undefined,
+    namespaceType,
+  )
+  .addOptionalParam(
+    "owner",
+    "Only events involving this address (name or namespace owner, fee recipient, old or new namespace owner)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam(
+    "events",
+    `Comma-separated event types (${XNS_EVENT_NAMES.join(", ")})`,
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block (defaults to the next block; pass an earlier block to replay past events first)",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("toBlock", "Stop after this block", undefined, types.int)
+  .addOptionalParam(
+    "maxEvents",
+    "Stop after this many events",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam(
+    "pollInterval",
+    "Milliseconds between polls for new blocks",
+    2000,
+    types.int,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print every event as one JSON line (NDJSON)")
+  .setAction(async (args, hre) => {
+    checkTaskArguments(hre, "xns:watch", args);
+    const log: TaskLogger = args.json ? console.error : console.log;
+    const client = getXnsClient(hre, args.xns);
+    const provider = hre.ethers.provider;
+    const filter: XnsEventFilter = {
+      events:
+        args.events === undefined ? undefined : parseEventNames(args.events),
+      namespace: args.namespace,
+      owner: args.owner,
+    };
+
+    const fromBlock: number =
+      args.fromBlock ?? (await provider.getBlockNumber()) + 1;
+    log(
+      `Watching XNS ${GREEN}${client.address}${RESET} from block ${fromBlock}${args.toBlock === undefined ? "" : ` to ${args.toBlock}`}`,
+    );
+
+    // Only a watch that ends returns its events; an endless one does not keep them
+    const bounded = args.toBlock !== undefined || args.maxEvents !== undefined;
+    const events: DecodedXnsEvent[] = [];
+    let count = 0;
+    let next = fromBlock;
+    for (;;) {
+      const latest = await provider.getBlockNumber();
+      const last =
+        args.toBlock === undefined ? latest : Math.min(latest, args.toBlock);
+      if (last >= next) {
+        for (const event of await fetchXnsEvents(client, {
+          fromBlock: next,
+          toBlock: last,
+          filter,
+        })) {
+          if (args.json) {
+            process.stdout.write(`${toJson(event, 0)}\n`);
+          } else {
+            log(
+              `${CYAN}#${event.blockNumber}${RESET} ${describeXnsEvent(event)} ${CYAN}${event.transactionHash}${RESET}`,
+            );
+          }
+          if (bounded) {
+            events.push(event);
+          }
+          if (++count === args.maxEvents) {
+            return { fromBlock, toBlock: event.blockNumber, events };
+          }
+        }
+        next = last + 1;
+      }
+      if (args.toBlock !== undefined && next > args.toBlock) {
+        return { fromBlock, toBlock: args.toBlock, events };
+      }
+      await new Promise((resolve) => setTimeout(resolve, args.pollInterval));
+    }
+  });
@@ -0,0 +1,156 @@
+/**
+ * Combined report on a name or an address
+ *
+ * EXAMPLES:
+ * - Everything about a name and its owner:
+ *   `npx hardhat xns:whois alice.xns --network sepolia`
+ * - Everything about an address:
+ *   `npx hardhat xns:whois 0x... --network sepolia`
+ *
+ * The report covers forward and reverse resolution, the namespace of the name with its exclusivity status,
+ * pending fees, the namespaces the address owns or is the pending owner of, its DETH burn credit and whether it
+ * is a contract or EIP-7702 delegated account that implements ERC-1271 (see `whois`).
+ */
+
+import { task, types } from "hardhat/config";
+import { ZeroAddress, formatEther, isAddress } from "ethers";
+import {
+  NamespaceInfo,
+  WhoisAccount,
+  WhoisNamespace,
+  canonicalizeXnsName,
+  whois,
+} from "../scripts/sdk";
+import {
+  GREEN,
+  RESET,
+  TaskError,
+  TaskLogger,
+  YELLOW,
+  getXnsClient,
+  withJsonOutput,
+} from "./utils";
+
+/**
+ * Prints the namespace of the queried name
+ */
+function printNamespace(
+  {
+    info,
+    inExclusivityPeriod,
+    exclusivityEndsAt,
+    pendingOwner,
+  }: WhoisNamespace,
+  log: TaskLogger,
+): void {
+  log(
+    `Namespace ${GREEN}${info.namespace}${RESET}: ${info.isPrivate ? "private" : "public"}, ${GREEN}${formatEther(info.pricePerName)} ETH${RESET} per name, owned by ${info.owner}`,
+  );
+  const endsAt = new Date(Number(exclusivityEndsAt) * 1000).toISOString();
+  log(
+    inExclusivityPeriod
+      ? `  ${YELLOW}In exclusivity period until ${endsAt}${RESET}`
+      : `  Exclusivity period ended at ${endsAt}`,
+  );
+  if (pendingOwner !== ZeroAddress) {
+    log(`  Pending owner: ${YELLOW}${pendingOwner}${RESET}`);
+  }
+}
+
+/**
+ * Prints the namespaces of a list, or "none"
+ */
+function formatNamespaces(namespaces: NamespaceInfo[]): string {
+  return namespaces.length === 0
+    ? "none"
+    : namespaces
+        .map(
+          (info) =>
+            `${GREEN}${info.namespace}${RESET} (${info.isPrivate ? "private" : "public"})`,
+        )
+        .join(", ");
+}
+
+/**
+ * Prints the address part of the report
+ */
+function printAccount(account: WhoisAccount, log: TaskLogger): void {
+  log(`Address ${GREEN}${account.address}${RESET}`);
+  log(
+    `  Name: ${account.name === "" ? "none" : `${GREEN}${account.name}${RESET}`}`,
+  );
+  const erc1271 = account.isErc1271 ? ", implements ERC-1271" : "";
+  log(
+    `  Account: ${
+      account.accountType === "EOA"
+        ? "EOA"
+        : account.accountType === "delegated"
+          ? `EIP-7702 delegated to ${account.delegate}${erc1271}`
+          : `contract${erc1271}`
+    }`,
+  );
+  log(
+    `  Pending fees: ${GREEN}${formatEther(account.pendingFees)} ETH${RESET}`,
+  );
+  log(`  Burned via DETH: ${GREEN}${formatEther(account.burned)} ETH${RESET}`);
+  log(`  Namespaces: ${formatNamespaces(account.namespaces)}`);
+  if (account.pendingNamespaces.length > 0) {
+    log(
+      `  ${YELLOW}⚠${RESET} Pending owner of: ${formatNamespaces(account.pendingNamespaces)} (accept with \`xns:ns:accept\`)`,
+    );
+  }
+  for (const hash of account.unknownNamespaceHashes) {
+    log(
+      `  ${YELLOW}⚠${RESET} Namespace ${hash} appears in the events of the address, but its name could not be recovered`,
+    );
+  }
+}
+
+task("xns:whois", "Shows everything XNS knows about a name or an address")
+  .addPositionalParam(
+    "query",
+    "Full name (e.g. `alice.xns`, or `vitalik` for bare names) or address",
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block searched for namespace events (defaults to the deployment block)",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:whois", async (args, hre, log) => {
+      if (!isAddress(args.query) && canonicalizeXnsName(args.query) === null) {
+        throw new TaskError(
+          "INVALID_ARGUMENT",
+          `Invalid value for query: ${args.query} is neither an address nor a valid name`,
+        );
+      }
+      const client = getXnsClient(hre, args.xns);
+      const report = await whois(client, args.query, {
+        fromBlock: args.fromBlock,
+      });
+
+      if (report.name !== null) {
+        log(
+          report.address === null
+            ? `${report.name} is not registered`
+            : `${GREEN}${report.name}${RESET} → ${report.address}`,
+        );
+      } else {
+        log(`${report.address} has no name`);
+      }
+      if (report.namespace) {
+        printNamespace(report.namespace, log);
+      } else if (report.name !== null) {
+        log(
+          `${YELLOW}⚠${RESET} The namespace of ${report.name} does not exist`,
+        );
+      }
+      if (report.account) {
+        printAccount(report.account, log);
+      }
+      return report;
+    }),
+  );
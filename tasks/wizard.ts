@@ -0,0 +1,336 @@
+/**
+ * Interactive registration wizard for the signer's own name
+ *
+ * EXAMPLES:
+ * - Register a name step by step:
+ *   `npx hardhat xns:wizard --network sepolia`
+ * - Suggest other namespaces if the name is not available:
+ *   `npx hardhat xns:wizard --namespaces xns,001 --network sepolia`
+ * - Answer from a pipe (one answer per line), e.g. in scripts:
+ *   `printf 'alice.xns\ny\n' | npx hardhat xns:wizard --network sepolia`
+ *
+ * The wizard normalizes and validates the name, shows whether its namespace is public or private and whether
+ * `registerName` is blocked by the exclusivity period, runs `preflightRegistration`, suggests other namespaces
+ * where the label is available and shows the quote before asking to send the registration. With
+ * `--confirmations`, the name is only reported as safe to share once the registration has that many confirmations.
+ */
+
+import { createInterface } from "readline";
+import { task, types } from "hardhat/config";
+import { formatEther } from "ethers";
+import {
+  BARE_NAME_NAMESPACE,
+  NamespaceInfo,
+  XnsClient,
+  formatValidationErrors,
+  formatXnsName,
+  normalizeXnsName,
+  preflightRegistration,
+  quote,
+} from "../scripts/sdk";
+import {
+  CYAN,
+  GREEN,
+  RED,
+  RESET,
+  TaskError,
+  TaskLogger,
+  YELLOW,
+  addressType,
+  assertPreflight,
+  confirmRegistration,
+  confirmationsType,
+  getTaskSigner,
+  getXnsClient,
+  splitList,
+  summarizeTransaction,
+  waitForTransaction,
+  withJsonOutput,
+} from "./utils";
+
+interface Prompter {
+  ask(question: string): Promise<string>;
+  close(): void;
+}
+
+/**
+ * Reads one answer per line; lines piped in before a question is asked are kept for it
+ * @param input The stream to read answers from
+ * @param log The task logger the questions are printed with
+ */
+function createPrompter(
+  input: NodeJS.ReadableStream,
+  log: TaskLogger,
+): Prompter {
+  const rl = createInterface({ input, terminal: false });
+  const lines = rl[Symbol.asyncIterator]();
+  return {
+    ask: async (question) => {
+      log(`${CYAN}?${RESET} ${question}`);
+      const line = await lines.next();
+      if (line.done) {
+        throw new TaskError("NO_ANSWER", `No answer to: ${question}`);
+      }
+      return line.value.trim();
+    },
+    close: () => rl.close(),
+  };
+}
+
+/**
+ * Asks a yes/no question
+ * @returns `true` for "y" or "yes", or for an empty answer if `defaultYes` is set
+ */
+async function confirm(
+  prompter: Prompter,
+  question: string,
+  defaultYes: boolean,
+): Promise<boolean> {
+  const answer = (
+    await prompter.ask(`${question} ${defaultYes ? "[Y/n]" : "[y/N]"}`)
+  ).toLowerCase();
+  return answer === "" ? defaultYes : answer === "y" || answer === "yes";
+}
+
+/**
+ * Asks for a name until it is valid after normalization (and the normalized name is accepted)
+ */
+async function askName(
+  prompter: Prompter,
+  log: TaskLogger,
+): Promise<{ label: string; namespace: string }> {
+  for (;;) {
+    const input = await prompter.ask(
+      "Which name do you want to register? (e.g. `alice.xns`, or `alice` for a bare name)",
+    );
+    const result = normalizeXnsName(input);
+    if (result.normalized === null) {
+      for (const part of [result.label, result.namespace]) {
+        if (!part.validation.isValid) {
+          log(
+            `${RED}✗ ${formatValidationErrors(part.validation, part === result.label ? "label" : "namespace")}${RESET}`,
+          );
+        }
+      }
+      continue;
+    }
+
+    const name = {
+      label: result.label.normalized!,
+      namespace: result.namespace.normalized!,
+    };
+    if (result.transformations.length === 0) {
+      return name;
+    }
+    for (const transformation of result.transformations) {
+      log(`  ${YELLOW}⚠${RESET} ${transformation.description}`);
+    }
+    if (await confirm(prompter, `Did you mean ${result.normalized}?`, true)) {
+      return name;
+    }
+  }
+}
+
+/**
+ * Prints whether a namespace is public or private and who can register names in it
+ */
+function describeNamespace(
+  info: NamespaceInfo,
+  inExclusivityPeriod: boolean,
+  exclusivityEndsAt: bigint,
+  log: TaskLogger,
+): void {
+  log(
+    `Namespace ${GREEN}${info.namespace}${RESET}: ${info.isPrivate ? "private" : "public"}, ${GREEN}${formatEther(info.pricePerName)} ETH${RESET} per name, owned by ${info.owner}`,
+  );
+  if (info.isPrivate) {
+    log(
+      `  ${YELLOW}⚠${RESET} Only the owner of a private namespace can register names in it. The recipient authorizes the registration by signing a RegisterNameAuth, and the namespace owner submits it with registerNameWithAuthorization (\`xns:register-auth\`).`,
+    );
+  } else if (inExclusivityPeriod) {
+    log(
+      `  ${YELLOW}⚠${RESET} The namespace is in its exclusivity period until ${new Date(Number(exclusivityEndsAt) * 1000).toISOString()}, so registerName is not available yet. Until then only the namespace owner can register names, for recipients who authorize the registration by signing a RegisterNameAuth (\`xns:register-auth\`).`,
+    );
+  } else {
+    log(`  Anyone can register a name with registerName.`);
+  }
+}
+
+/**
+ * Returns the namespaces in which `payer` can register `label` for itself with `registerName`
+ */
+async function suggestNamespaces(
+  client: XnsClient,
+  label: string,
+  payer: string,
+  candidates: string[],
+): Promise<NamespaceInfo[]> {
+  const suggestions: NamespaceInfo[] = [];
+  for (const namespace of candidates) {
+    const preflight = await preflightRegistration(client, {
+      label,
+      namespace,
+      payer,
+    });
+    if (preflight.ok) {
+      suggestions.push(preflight.namespaceInfo!);
+    }
+  }
+  return suggestions;
+}
+
+task(
+  "xns:wizard",
+  "Interactively registers a name for the signer (answers can be piped in, one per line)",
+)
+  .addOptionalParam(
+    "namespaces",
+    `Comma-separated namespaces to suggest if the name is not available (bare names in "${BARE_NAME_NAMESPACE}" are always suggested)`,
+    "",
+  )
+  .addOptionalParam("signerIndex", "Index of the account", 0, types.int)
+  .addFlag("ledger", "Register with a Ledger instead of a configured account")
+  .addOptionalParam(
+    "ledgerAccount",
+    "Ledger account (defaults to the first `ledgerAccounts` entry of the network)",
+    undefined,
+    addressType,
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Confirmations to wait for before checking the names and reporting whether they are safe to share",
+    1,
+    confirmationsType,
+  )
+  .addOptionalParam("xns", "XNS address (defaults to constants/addresses.ts)")
+  .addFlag("json", "Print a JSON document instead of the human-readable output")
+  .setAction(
+    withJsonOutput("xns:wizard", async (args, hre, log) => {
+      const signer = await getTaskSigner(
+        hre,
+        {
+          index: args.signerIndex,
+          ledger: args.ledger,
+          ledgerAccount: args.ledgerAccount,
+        },
+        log,
+      );
+      const signerAddress = await signer.getAddress();
+      const client = getXnsClient(hre, args.xns).connect(signer);
+      const { exclusivityPeriod } = await client.getConstants();
+      log(`Registering a name for ${GREEN}${signerAddress}${RESET}\n`);
+
+      const prompter = createPrompter(process.stdin, log);
+      try {
+        for (;;) {
+          const { label, namespace } = await askName(prompter, log);
+          const fullName = formatXnsName(label, namespace);
+
+          const info = await client.findNamespaceInfo(namespace);
+          if (!info) {
+            log(`${RED}✗ Namespace ${namespace} does not exist${RESET}\n`);
+            continue;
+          }
+          describeNamespace(
+            info,
+            await client.isInExclusivityPeriod(namespace),
+            info.createdAt + exclusivityPeriod,
+            log,
+          );
+
+          const preflight = await preflightRegistration(client, {
+            label,
+            namespace,
+            payer: signerAddress,
+          });
+          if (
+            preflight.failures.some(
+              (failure) => failure.kind === "ADDRESS_ALREADY_HAS_NAME",
+            )
+          ) {
+            // An address can only ever have one name
+            log(
+              `${RED}✗ ${signerAddress} already has the name ${await client.reverseResolve(signerAddress)}${RESET}`,
+            );
+            assertPreflight(fullName, preflight, log);
+          }
+          if (!preflight.ok) {
+            for (const failure of preflight.failures) {
+              log(`${RED}✗ ${failure.message}${RESET}`);
+            }
+            const candidates = [
+              ...new Set([...splitList(args.namespaces), BARE_NAME_NAMESPACE]),
+            ].filter((candidate) => candidate !== namespace);
+            const suggestions = await suggestNamespaces(
+              client,
+              label,
+              signerAddress,
+              candidates,
+            );
+            if (suggestions.length === 0) {
+              log(
+                `No other namespace to suggest for ${label} (add candidates with \`--namespaces\`)\n`,
+              );
+            } else {
+              log(`${label} is available in:`);
+              for (const suggestion of suggestions) {
+                log(
+                  `  ${GREEN}${formatXnsName(label, suggestion.namespace)}${RESET} (${formatEther(suggestion.pricePerName)} ETH)`,
+                );
+              }
+              log("");
+            }
+            continue;
+          }
+
+          const q = await quote(client, { type: "name", namespace });
+          log(`${GREEN}✓${RESET} ${fullName} is available\n`);
+          log(`Price: ${GREEN}${formatEther(q.required)} ETH${RESET}`);
+          log(
+            `  ${formatEther(q.burn)} ETH burned via DETH (credited to ${signerAddress})`,
+          );
+          log(
+            `  ${formatEther(q.namespaceOwnerFee)} ETH to the namespace owner ${q.namespaceOwnerFeeRecipient}`,
+          );
+          log(
+            `  ${formatEther(q.protocolFee)} ETH to the contract owner ${q.protocolFeeRecipient}`,
+          );
+          log(
+            `  ${YELLOW}⚠${RESET} A name can never be transferred or changed, and ${signerAddress} can only ever have one name.`,
+          );
+          if (
+            !(await confirm(
+              prompter,
+              `Register ${fullName} for ${signerAddress} for ${formatEther(q.required)} ETH?`,
+              false,
+            ))
+          ) {
+            log(`${YELLOW}⚠${RESET} Cancelled, nothing was sent`);
+            return {
+              name: fullName,
+              quote: q,
+              transaction: null,
+              confirmation: null,
+            };
+          }
+
+          const tx = await client.registerName(label, namespace, {
+            value: q.required,
+          });
+          const { confirmation, receipt } = await confirmRegistration(
+            client,
+            await waitForTransaction(tx, log),
+            args.confirmations,
+            log,
+          );
+          const transaction = await summarizeTransaction(client, receipt);
+          log(
+            `${GREEN}✓${RESET} ${await client.reverseResolve(signerAddress)} → ${signerAddress}`,
+          );
+          return { name: fullName, quote: q, transaction, confirmation };
+        }
+      } finally {
+        prompter.close();
+      }
+    }),
+  );
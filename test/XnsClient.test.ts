@@ -0,0 +1,177 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployXnsFixture, XnsFixture } from "./helpers/setup";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import { XnsClient, waitForConfirmations } from "../scripts/sdk";
+
+describe("XnsClient", function () {
+  let s: XnsFixture;
+
+  beforeEach(async () => {
+    s = await loadFixture(deployXnsFixture);
+  });
+
+  describe("Reads", function () {
+    it("Should resolve and reverse resolve the contract's own bare name", async () => {
+      expect(await s.client.resolve("xns", "x")).to.equal(s.client.address);
+      expect(await s.client.resolve("xns", "")).to.equal(s.client.address);
+      expect(await s.client.resolveFullName("xns")).to.equal(s.client.address);
+      expect(await s.client.reverseResolve(s.client.address)).to.equal("xns");
+      expect(await s.client.resolve("nobody", "xns")).to.equal(
+        ethers.ZeroAddress,
+      );
+    });
+
+    it("Should return namespace info as an object", async () => {
+      const info = await s.client.getNamespaceInfo("xns");
+      expect(info.namespace).to.equal("xns");
+      expect(info.pricePerName).to.equal(ethers.parseEther("0.001"));
+      expect(info.owner).to.equal(s.user1.address);
+      expect(info.isPrivate).to.equal(false);
+      expect(typeof info.createdAt).to.equal("bigint");
+    });
+
+    it("Should return `null` from `findNamespaceInfo` for unknown namespaces", async () => {
+      expect(await s.client.findNamespaceInfo("unknown")).to.equal(null);
+      expect((await s.client.findNamespaceInfo("x"))?.pricePerName).to.equal(
+        ethers.parseEther("10"),
+      );
+    });
+
+    it("Should revert from `getNamespaceInfo` for unknown namespaces", async () => {
+      await expect(s.client.getNamespaceInfo("unknown")).to.be.rejectedWith(
+        "XNS: namespace not found",
+      );
+    });
+
+    it("Should read the contract constants", async () => {
+      const constants = await s.client.getConstants();
+      expect(constants.bareNameNamespace).to.equal("x");
+      expect(constants.bareNamePrice).to.equal(ethers.parseEther("10"));
+      expect(constants.exclusivityPeriod).to.equal(7n * 24n * 60n * 60n);
+      expect(constants.publicNamespaceRegistrationFee).to.equal(
+        ethers.parseEther("50"),
+      );
+      expect(constants.privateNamespaceRegistrationFee).to.equal(
+        ethers.parseEther("10"),
+      );
+    });
+
+    it("Should create a client from `constants/addresses.ts`", async () => {
+      expect(XnsClient.forNetwork("sepolia", ethers.provider).address).to.equal(
+        "0x708a6a410Ea26E536F6534Ac5c98FDD73a4BFe23",
+      );
+      expect(() => XnsClient.forNetwork("unknown", ethers.provider)).to.throw(
+        "XNS contract address not set for network: unknown",
+      );
+    });
+
+    it("Should report a runner without a provider", async () => {
+      expect(s.client.provider).to.equal(ethers.provider);
+      const offline = s.client.connect(ethers.Wallet.createRandom());
+      expect(() => offline.provider).to.throw(
+        "XnsClient: the runner has no provider",
+      );
+      await expect(
+        waitForConfirmations(offline, ethers.ZeroHash, { confirmations: 1 }),
+      ).to.be.rejectedWith("XnsClient: the runner has no provider");
+    });
+  });
+
+  describe("Writes", function () {
+    it("Should register a name sending the namespace price by default", async () => {
+      await time.increase(7 * 24 * 60 * 60 + 1);
+
+      await s.client.connect(s.user2).registerName("alice", "xns");
+
+      expect(await s.client.resolve("alice", "xns")).to.equal(s.user2.address);
+      expect(await s.client.reverseResolve(s.user2.address)).to.equal(
+        "alice.xns",
+      );
+      expect(await s.client.getPendingFees(s.user1.address)).to.equal(
+        ethers.parseEther("0.0001"),
+      );
+    });
+
+    it("Should register names with authorization (single and batch)", async () => {
+      const auth = {
+        recipient: s.user2.address,
+        label: "bob",
+        namespace: "xns",
+      };
+      const signature = await signRegisterNameAuth(
+        s.xns,
+        s.user2,
+        auth.recipient,
+        auth.label,
+        auth.namespace,
+      );
+      expect(await s.client.isValidSignature(auth, signature)).to.equal(true);
+
+      await s.client
+        .connect(s.user1)
+        .registerNameWithAuthorization(auth, signature);
+      expect(await s.client.reverseResolve(s.user2.address)).to.equal(
+        "bob.xns",
+      );
+
+      const auths = [
+        { recipient: s.user3.address, label: "carol", namespace: "xns" },
+        { recipient: s.user4.address, label: "dave", namespace: "xns" },
+      ];
+      const signatures = [
+        await signRegisterNameAuth(
+          s.xns,
+          s.user3,
+          auths[0].recipient,
+          auths[0].label,
+          auths[0].namespace,
+        ),
+        await signRegisterNameAuth(
+          s.xns,
+          s.user4,
+          auths[1].recipient,
+          auths[1].label,
+          auths[1].namespace,
+        ),
+      ];
+      await s.client
+        .connect(s.user1)
+        .batchRegisterNameWithAuthorization(auths, signatures);
+
+      expect(await s.client.resolveFullName("carol.xns")).to.equal(
+        s.user3.address,
+      );
+      expect(await s.client.resolveFullName("dave.xns")).to.equal(
+        s.user4.address,
+      );
+    });
+
+    it("Should register namespaces, claim fees and transfer namespace ownership", async () => {
+      await s.client
+        .connect(s.user2)
+        .registerPrivateNamespace("team", ethers.parseEther("0.005"));
+      expect((await s.client.getNamespaceInfo("team")).isPrivate).to.equal(
+        true,
+      );
+
+      const pendingFees = await s.client.getPendingFees(s.owner.address);
+      expect(pendingFees).to.be.greaterThan(0n);
+      await expect(
+        s.client.connect(s.owner).claimFeesToSelf(),
+      ).to.changeEtherBalance(s.owner, pendingFees);
+
+      await s.client
+        .connect(s.user2)
+        .transferNamespaceOwnership("team", s.user3.address);
+      expect(await s.client.getPendingNamespaceOwner("team")).to.equal(
+        s.user3.address,
+      );
+      await s.client.connect(s.user3).acceptNamespaceOwnership("team");
+      expect((await s.client.getNamespaceInfo("team")).owner).to.equal(
+        s.user3.address,
+      );
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import {
+  loadFixture,
+  mine,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { deployXnsFixture } from "./helpers/setup";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import {
+  IssuedAuthorization,
+  auditAuthorizationBundles,
+  auditAuthorizations,
+  createAuthorizationBundle,
+  getXnsTypedDataDomain,
+  writeAuthorizationBundle,
+} from "../scripts/sdk";
+import "../tasks";
+
+describe("audit", function () {
+  async function auditFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    const { xns, client, user1, user2, user3, user4, owner } = fixture;
+    const [, , , , , user5] = await ethers.getSigners();
+    const wallet = await ethers.deployContract("EIP1271Wallet", [
+      user2.address,
+    ]);
+    await wallet.waitForDeployment();
+
+    // Private namespace of user1: only user1 can sponsor registrations
+    await client
+      .connect(user1)
+      .registerPrivateNamespace("corp", ethers.parseEther("0.005"));
+
+    const issue = async (
+      signer: typeof user2,
+      recipient: string,
+      label: string,
+      namespace: string,
+    ): Promise<IssuedAuthorization> => ({
+      auth: { recipient, label, namespace },
+      signature: await signRegisterNameAuth(
+        xns,
+        signer,
+        recipient,
+        label,
+        namespace,
+      ),
+    });
+    const issued = {
+      unused: await issue(user2, user2.address, "alice", "xns"),
+      used: await issue(user3, user3.address, "bob", "xns"),
+      otherName: await issue(user4, user4.address, "carol", "xns"),
+      taken: await issue(user2, user2.address, "taken", "xns"),
+      missingNamespace: await issue(user2, user2.address, "alice", "nope"),
+      wrongWalletSigner: await issue(
+        user3,
+        await wallet.getAddress(),
+        "wallet",
+        "xns",
+      ),
+      privateNamespace: await issue(user5, user5.address, "eve", "corp"),
+    };
+
+    await client
+      .connect(user1)
+      .registerNameWithAuthorization(issued.used.auth, issued.used.signature);
+    await client.connect(user4).registerName("dave", "xns");
+    await client.connect(owner).registerName("taken", "xns");
+
+    return { ...fixture, issued };
+  }
+
+  it("Should report which authorizations are still executable and why the others are not", async () => {
+    const { client, issued, user1, user4, owner } =
+      await loadFixture(auditFixture);
+    const audit = await auditAuthorizations(client, Object.values(issued));
+    expect(audit.blockNumber).to.equal(await ethers.provider.getBlockNumber());
+
+    const [
+      unused,
+      used,
+      otherName,
+      taken,
+      missingNamespace,
+      wrongWalletSigner,
+      privateNamespace,
+    ] = audit.entries;
+    const kinds = (entry: typeof unused) => entry.blockers.map((b) => b.kind);
+
+    expect(unused.executable).to.equal(true);
+    expect(unused.sponsor).to.equal("anyone");
+    expect(unused.blockers).to.deep.equal([]);
+
+    expect(kinds(used)).to.deep.equal(["ALREADY_USED"]);
+    expect(used.sponsor).to.equal(null);
+
+    expect(kinds(otherName)).to.deep.equal(["RECIPIENT_HAS_NAME"]);
+    expect(otherName.recipientName).to.equal("dave.xns");
+
+    expect(kinds(taken)).to.deep.equal(["NAME_TAKEN"]);
+    expect(taken.nameOwner).to.equal(owner.address);
+
+    expect(kinds(missingNamespace)).to.deep.equal(["NAMESPACE_NOT_FOUND"]);
+    expect(kinds(wrongWalletSigner)).to.deep.equal(["INVALID_SIGNATURE"]);
+
+    expect(privateNamespace.executable).to.equal(true);
+    expect(privateNamespace.sponsor).to.equal("namespaceOwner");
+    expect(privateNamespace.namespaceOwner).to.equal(user1.address);
+
+    // Executable authorizations can actually be submitted
+    await client
+      .connect(user4)
+      .registerNameWithAuthorization(
+        issued.unused.auth,
+        issued.unused.signature,
+      );
+    const after = await auditAuthorizations(client, [issued.unused]);
+    expect(after.entries[0].blockers.map((b) => b.kind)).to.deep.equal([
+      "ALREADY_USED",
+    ]);
+  });
+
+  it("Should only let the namespace owner sponsor up to the end of the exclusivity period", async () => {
+    const { xns, client, user1 } = await loadFixture(deployXnsFixture);
+    const [, , , , , , user6] = await ethers.getSigners();
+    await client
+      .connect(user1)
+      .registerPublicNamespace("pub", ethers.parseEther("0.001"));
+    const { createdAt } = await client.getNamespaceInfo("pub");
+    const exclusivityPeriod: bigint = await xns.EXCLUSIVITY_PERIOD();
+    const issued: IssuedAuthorization = {
+      auth: { recipient: user6.address, label: "frank", namespace: "pub" },
+      signature: await signRegisterNameAuth(
+        xns,
+        user6,
+        user6.address,
+        "frank",
+        "pub",
+      ),
+    };
+
+    // XNS.sol: `block.timestamp <= createdAt + EXCLUSIVITY_PERIOD`
+    await time.setNextBlockTimestamp(createdAt + exclusivityPeriod);
+    await mine();
+    expect(
+      (await auditAuthorizations(client, [issued])).entries[0].sponsor,
+    ).to.equal("namespaceOwner");
+
+    await mine();
+    expect(
+      (await auditAuthorizations(client, [issued])).entries[0].sponsor,
+    ).to.equal("anyone");
+  });
+
+  it("Should audit the signed entries of bundles with the task", async () => {
+    const { client, issued } = await loadFixture(auditFixture);
+    const domain = await getXnsTypedDataDomain(client);
+    const bundle = createAuthorizationBundle(
+      domain,
+      [issued.unused.auth, issued.used.auth, issued.taken.auth],
+      { requestedBy: "sponsor" },
+    );
+    bundle.entries[0].signature = issued.unused.signature;
+    bundle.entries[1].signature = issued.used.signature;
+
+    // The unsigned entry is not part of the audit
+    const audit = await auditAuthorizationBundles(client, [bundle]);
+    expect(audit.entries.map((e) => e.executable)).to.deep.equal([true, false]);
+
+    await expect(
+      auditAuthorizationBundles(client, [
+        { ...bundle, domain: { ...domain, chainId: 1 } },
+      ]),
+    ).to.be.rejectedWith("Bundle is for XNS");
+
+    const path = join(mkdtempSync(join(tmpdir(), "xns-audit-")), "b.json");
+    writeAuthorizationBundle(path, bundle);
+    await hre.run("xns:bundle:audit", { bundles: path, xns: client.address });
+  });
+});
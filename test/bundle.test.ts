@@ -0,0 +1,309 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { deployXnsFixture } from "./helpers/setup";
+import {
+  AUTHORIZATION_BUNDLE_VERSION,
+  addBundleSignature,
+  createAuthorizationBundle,
+  getBundleBatches,
+  getXnsTypedDataDomain,
+  mergeAuthorizationBundles,
+  parseAuthorizationBundle,
+  readAuthorizationBundle,
+  signAuthorizationBundle,
+  submitAuthorizationBundle,
+  validateAuthorizationBundle,
+  writeAuthorizationBundle,
+} from "../scripts/sdk";
+import "../tasks";
+
+describe("bundle", function () {
+  async function bundleFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    const domain = await getXnsTypedDataDomain(fixture.client);
+    const bundle = createAuthorizationBundle(
+      domain,
+      [
+        { recipient: fixture.user2.address, label: "alice", namespace: "xns" },
+        { recipient: fixture.user3.address, label: "bob", namespace: "xns" },
+      ],
+      { requestedBy: "sponsor", createdAt: "2026-01-01T00:00:00.000Z" },
+    );
+    return { ...fixture, domain, bundle };
+  }
+
+  it("Should write, read and reject malformed bundles", async () => {
+    const { bundle, domain, user2 } = await loadFixture(bundleFixture);
+    expect(bundle.version).to.equal(AUTHORIZATION_BUNDLE_VERSION);
+    expect(bundle.domain).to.deep.equal(domain);
+    expect(bundle.entries[0]).to.deep.equal({
+      auth: { recipient: user2.address, label: "alice", namespace: "xns" },
+      signature: null,
+    });
+
+    const path = join(mkdtempSync(join(tmpdir(), "xns-bundle-")), "b.json");
+    writeAuthorizationBundle(path, bundle);
+    expect(readAuthorizationBundle(path)).to.deep.equal(bundle);
+
+    const json = (patch: object) => JSON.stringify({ ...bundle, ...patch });
+    expect(() => parseAuthorizationBundle(json({ format: "other" }))).to.throw(
+      "Not an XNS authorization bundle",
+    );
+    expect(() => parseAuthorizationBundle(json({ version: 2 }))).to.throw(
+      "Unsupported authorization bundle version: 2",
+    );
+    expect(() =>
+      parseAuthorizationBundle(
+        json({
+          entries: [{ ...bundle.entries[0], signature: "not hex" }],
+        }),
+      ),
+    ).to.throw("Invalid authorization bundle: bad entry 0");
+  });
+
+  it("Should merge the signed copies returned by recipients", async () => {
+    const { bundle, user2, user3, user4 } = await loadFixture(bundleFixture);
+
+    const fromAlice = await signAuthorizationBundle(bundle, user2);
+    const fromBob = await signAuthorizationBundle(bundle, user3);
+    expect(fromAlice.entries.map((e) => e.signature !== null)).to.deep.equal([
+      true,
+      false,
+    ]);
+
+    const merged = mergeAuthorizationBundles(bundle, fromAlice, fromBob);
+    expect(merged.metadata).to.deep.equal(bundle.metadata);
+    expect(merged.entries.map((e) => e.signature)).to.deep.equal([
+      fromAlice.entries[0].signature,
+      fromBob.entries[1].signature,
+    ]);
+    // The original bundle is not modified
+    expect(bundle.entries[0].signature).to.equal(null);
+
+    // Merging is idempotent; signatures cannot be replaced
+    expect(mergeAuthorizationBundles(merged, fromAlice)).to.deep.equal(merged);
+    const forged = addBundleSignature(
+      bundle,
+      bundle.entries[0].auth,
+      fromBob.entries[1].signature!,
+    );
+    expect(() => mergeAuthorizationBundles(merged, forged)).to.throw(
+      "Conflicting signatures for alice.xns",
+    );
+
+    // New entries are appended; other domains are rejected
+    const extra = createAuthorizationBundle(
+      bundle.domain,
+      [{ recipient: user4.address, label: "carol", namespace: "xns" }],
+      { requestedBy: "someone else" },
+    );
+    expect(mergeAuthorizationBundles(merged, extra).entries).to.have.length(3);
+    expect(() =>
+      mergeAuthorizationBundles(merged, {
+        ...extra,
+        domain: { ...extra.domain, chainId: 1 },
+      }),
+    ).to.throw("Cannot merge authorization bundles of different domains");
+  });
+
+  it("Should validate entries and explain rejected signatures", async () => {
+    const { client, bundle, user2, user3 } = await loadFixture(bundleFixture);
+
+    const unsigned = await validateAuthorizationBundle(client, bundle);
+    expect(unsigned.ok).to.equal(false);
+    expect(unsigned.errors).to.deep.equal([]);
+    expect(unsigned.entries.map((e) => e.status)).to.deep.equal([
+      "unsigned",
+      "unsigned",
+    ]);
+
+    // Alice's entry is signed by Bob; Bob signed for mainnet
+    const wrongSigner = await signAuthorizationBundle(bundle, user3, [
+      user2.address,
+    ]);
+    const mainnet = await signAuthorizationBundle(
+      { ...bundle, domain: { ...bundle.domain, chainId: 1 } },
+      user3,
+    );
+    const signed = addBundleSignature(
+      wrongSigner,
+      bundle.entries[1].auth,
+      mainnet.entries[1].signature!,
+    );
+
+    const validation = await validateAuthorizationBundle(client, signed);
+    expect(validation.entries.map((e) => e.status)).to.deep.equal([
+      "invalid",
+      "invalid",
+    ]);
+    expect(validation.entries[0].mismatches.map((m) => m.kind)).to.deep.equal([
+      "WRONG_SIGNER",
+    ]);
+    expect(validation.entries[1].mismatches.map((m) => m.kind)).to.deep.equal([
+      "WRONG_CHAIN_ID",
+    ]);
+
+    const invalid = createAuthorizationBundle(
+      bundle.domain,
+      [
+        { recipient: user2.address, label: "Alice", namespace: "xns" },
+        { recipient: user2.address, label: "alice2", namespace: "xns" },
+      ],
+      { requestedBy: "sponsor" },
+    );
+    const result = await validateAuthorizationBundle(client, {
+      ...invalid,
+      domain: { ...invalid.domain, chainId: 1 },
+    });
+    expect(result.errors).to.have.length(2);
+    expect(result.errors[0]).to.match(/^bundle is for XNS .* on chain ID 1/);
+    expect(result.errors[1]).to.equal(
+      `recipient ${user2.address} appears more than once`,
+    );
+    expect(result.entries[0].errors[0]).to.match(/^invalid label: /);
+  });
+
+  it("Should submit signed entries per namespace, leaving out registered names", async () => {
+    const { client, bundle, user1, user2, user3, user4 } =
+      await loadFixture(bundleFixture);
+    await client.connect(user3).registerName("taken", "xns");
+
+    const withBare = mergeAuthorizationBundles(
+      bundle,
+      createAuthorizationBundle(
+        bundle.domain,
+        [{ recipient: user4.address, label: "carol", namespace: "x" }],
+        { requestedBy: "sponsor" },
+      ),
+    );
+    let signed = withBare;
+    for (const signer of [user2, user3, user4]) {
+      signed = await signAuthorizationBundle(signed, signer);
+    }
+    expect(getBundleBatches(signed).map((b) => b.namespace)).to.deep.equal([
+      "xns",
+      "x",
+    ]);
+
+    const submissions = await submitAuthorizationBundle(
+      client.connect(user1),
+      signed,
+      { confirmations: 1 },
+    );
+    expect(submissions).to.have.length(2);
+    expect(submissions[0].submitted.map((a) => a.label)).to.deep.equal([
+      "alice",
+    ]);
+    expect(submissions[0].alreadyRegistered.map((a) => a.label)).to.deep.equal([
+      "bob",
+    ]);
+    expect(submissions[0].registered.map((r) => r.fullName)).to.deep.equal([
+      "alice.xns",
+    ]);
+    expect(submissions[1].registered.map((r) => r.fullName)).to.deep.equal([
+      "carol",
+    ]);
+    expect(await client.reverseResolve(user4.address)).to.equal("carol");
+    expect(submissions.map((s) => s.confirmation?.status)).to.deep.equal([
+      "SAFE_TO_SHARE",
+      "SAFE_TO_SHARE",
+    ]);
+
+    // Submitting again sends nothing
+    expect(
+      await submitAuthorizationBundle(client.connect(user1), signed),
+    ).to.deep.equal([]);
+  });
+
+  it("Should run the request, sign, ingest and submit tasks", async () => {
+    const { client, user2, user3 } = await loadFixture(bundleFixture);
+    const dir = mkdtempSync(join(tmpdir(), "xns-bundle-"));
+    const path = join(dir, "bundle.json");
+    const xns = client.address;
+
+    await hre.run("xns:bundle:request", {
+      namespace: "xns",
+      names: `alice=${user2.address}, bob=${user3.address}`,
+      out: path,
+      typedDataDir: join(dir, "typed-data"),
+      xns,
+    });
+    const typedData = JSON.parse(
+      readFileSync(join(dir, "typed-data", "alice.xns.json"), "utf8"),
+    );
+    expect(typedData.message.recipient).to.equal(user2.address);
+
+    // Alice returns a signed copy; Bob's signature comes back from an external wallet
+    await hre.run("xns:bundle:sign", {
+      bundle: path,
+      signerIndex: 2,
+      out: join(dir, "alice.json"),
+    });
+    const bobSignature: string = await ethers.provider.send(
+      "eth_signTypedData_v4",
+      [
+        user3.address,
+        readFileSync(join(dir, "typed-data", "bob.xns.json"), "utf8"),
+      ],
+    );
+    await hre.run("xns:bundle:ingest", {
+      bundle: path,
+      signed: join(dir, "alice.json"),
+      recipient: user3.address,
+      signature: bobSignature,
+      xns,
+    });
+    expect(
+      readAuthorizationBundle(path).entries.every((e) => e.signature !== null),
+    ).to.equal(true);
+
+    // Invalid signatures are not ingested
+    await expect(
+      hre.run("xns:bundle:ingest", {
+        bundle: path,
+        recipient: user3.address,
+        signature: bobSignature.replace(/..$/, "00"),
+        out: join(dir, "rejected.json"),
+        xns,
+      }),
+    ).to.be.rejectedWith("Bundle not updated");
+
+    // The dry run sends nothing
+    const blockBefore = await ethers.provider.getBlockNumber();
+    const dryRuns = await hre.run("xns:bundle:submit", {
+      bundle: path,
+      sponsorIndex: 1,
+      dryRun: true,
+      xns,
+    });
+    expect(dryRuns).to.have.length(1);
+    expect(dryRuns[0]).to.deep.include({
+      method: "batchRegisterNameWithAuthorization",
+      successfulCount: 2,
+      skipped: [],
+    });
+    expect(
+      dryRuns[0].events.map((event: { fullName: string }) => event.fullName),
+    ).to.deep.equal(["alice.xns", "bob.xns"]);
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+
+    const result = await hre.run("xns:bundle:submit", {
+      bundle: path,
+      sponsorIndex: 1,
+      confirmations: 1,
+      xns,
+    });
+    expect(result.submissions).to.have.length(1);
+    expect(result.submissions[0].confirmation).to.deep.include({
+      status: "SAFE_TO_SHARE",
+      safeToShare: true,
+    });
+    expect(await client.reverseResolve(user2.address)).to.equal("alice.xns");
+    expect(await client.reverseResolve(user3.address)).to.equal("bob.xns");
+  });
+});
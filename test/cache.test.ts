@@ -0,0 +1,173 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  loadFixture,
+  mine,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { countingRunner, deployXnsFixture } from "./helpers/setup";
+import {
+  DEFAULT_CACHE_CONFIRMATIONS,
+  FileCacheStore,
+  ResolutionCache,
+} from "../scripts/sdk";
+
+describe("ResolutionCache", function () {
+  async function cacheFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    return fixture;
+  }
+
+  // `loadFixture` returns the same objects on every call, so the cache is created per test. It reads at the
+  // latest block unless a test passes a confirmation depth
+  async function loadCache(confirmations = 1) {
+    const fixture = await loadFixture(cacheFixture);
+    const runner = countingRunner();
+    const cache = new ResolutionCache(
+      fixture.client.connect(runner),
+      undefined,
+      {
+        confirmations,
+      },
+    );
+    return { ...fixture, runner, cache };
+  }
+
+  it("Should cache positive results forever", async () => {
+    const { client, cache, runner } = await loadCache();
+
+    expect(await cache.resolve("xns", "x")).to.equal(client.address);
+    expect(await cache.resolve("xns", "")).to.equal(client.address);
+    expect(await cache.resolveFullName("xns")).to.equal(client.address);
+    // The reverse mapping is known from the forward lookup
+    expect(await cache.reverseResolve(client.address)).to.equal("xns");
+    expect(runner.calls).to.equal(1);
+  });
+
+  it("Should tag negative results with the block number", async () => {
+    const { cache, user2 } = await loadCache();
+
+    expect(await cache.resolve("alice", "xns")).to.equal(ethers.ZeroAddress);
+    expect(await cache.reverseResolve(user2.address)).to.equal("");
+
+    const blockNumber = await ethers.provider.getBlockNumber();
+    expect(cache.store.entries().map(([, entry]) => entry)).to.deep.equal([
+      { kind: "unregistered", blockNumber },
+      { kind: "unregistered", blockNumber },
+    ]);
+  });
+
+  it("Should invalidate negative entries on `NameRegistered`", async () => {
+    const { client, cache, runner, user2, user3 } = await loadCache();
+
+    expect(await cache.resolve("alice", "xns")).to.equal(ethers.ZeroAddress);
+    expect(await cache.resolve("carol", "xns")).to.equal(ethers.ZeroAddress);
+    expect(await cache.reverseResolve(user2.address)).to.equal("");
+    expect(await cache.reverseResolve(user3.address)).to.equal("");
+
+    await client.connect(user2).registerName("alice", "xns");
+
+    // Stale until synced
+    expect(await cache.resolve("alice", "xns")).to.equal(ethers.ZeroAddress);
+    expect(runner.calls).to.equal(4);
+
+    expect(await cache.sync()).to.equal(2);
+    expect(cache.store.getSyncedBlock()).to.equal(
+      await ethers.provider.getBlockNumber(),
+    );
+    expect(await cache.resolve("alice", "xns")).to.equal(user2.address);
+    expect(await cache.reverseResolve(user2.address)).to.equal("alice.xns");
+    expect(runner.calls).to.equal(5);
+
+    // Unrelated entries are kept
+    expect(await cache.resolve("carol", "xns")).to.equal(ethers.ZeroAddress);
+    expect(await cache.reverseResolve(user3.address)).to.equal("");
+    expect(runner.calls).to.equal(5);
+
+    // Subsequent syncs only fetch new blocks
+    expect(await cache.sync()).to.equal(0);
+  });
+
+  it("Should sync in block ranges", async () => {
+    const { client, cache, user2 } = await loadCache();
+
+    expect(await cache.resolve("alice", "xns")).to.equal(ethers.ZeroAddress);
+    for (let i = 0; i < 5; i++) {
+      await ethers.provider.send("evm_mine", []);
+    }
+    await client.connect(user2).registerName("alice", "xns");
+
+    expect(await cache.sync(undefined, 2)).to.equal(1);
+    expect(await cache.resolve("alice", "xns")).to.equal(user2.address);
+  });
+
+  it("Should only read blocks with the configured number of confirmations", async () => {
+    const { client, cache, user2 } = await loadCache(
+      DEFAULT_CACHE_CONFIRMATIONS,
+    );
+    expect(cache.confirmations).to.equal(DEFAULT_CACHE_CONFIRMATIONS);
+    await mine(DEFAULT_CACHE_CONFIRMATIONS);
+
+    await client.connect(user2).registerName("alice", "xns");
+    const blockNumber = await ethers.provider.getBlockNumber();
+
+    // Not confirmed yet: neither cached as registered nor invalidated by `sync`
+    expect(await cache.resolve("alice", "xns")).to.equal(ethers.ZeroAddress);
+    expect(await cache.reverseResolve(user2.address)).to.equal("");
+    expect(
+      cache.store.get(`address:${user2.address.toLowerCase()}`),
+    ).to.deep.equal({
+      kind: "unregistered",
+      blockNumber: blockNumber - DEFAULT_CACHE_CONFIRMATIONS + 1,
+    });
+    expect(await cache.sync()).to.equal(0);
+
+    await mine(DEFAULT_CACHE_CONFIRMATIONS - 1);
+    expect(await cache.sync()).to.equal(2);
+    expect(cache.store.getSyncedBlock()).to.equal(blockNumber);
+    expect(await cache.resolve("alice", "xns")).to.equal(user2.address);
+    expect(await cache.reverseResolve(user2.address)).to.equal("alice.xns");
+
+    expect(
+      () => new ResolutionCache(client, undefined, { confirmations: 0 }),
+    ).to.throw("ResolutionCache: invalid number of confirmations 0");
+  });
+
+  it("Should persist entries with `FileCacheStore`", async () => {
+    const { client, user2 } = await loadFixture(cacheFixture);
+    const dir = mkdtempSync(join(tmpdir(), "xns-cache-"));
+    const path = join(dir, "cache.json");
+
+    try {
+      const cache = new ResolutionCache(client, new FileCacheStore(path), {
+        confirmations: 1,
+      });
+      await cache.resolve("xns", "x");
+      await cache.resolve("alice", "xns");
+      await cache.sync();
+
+      const runner = countingRunner();
+      const reloaded = new ResolutionCache(
+        client.connect(runner),
+        new FileCacheStore(path),
+        { confirmations: 1 },
+      );
+      expect(reloaded.store.entries()).to.deep.equal(cache.store.entries());
+      expect(reloaded.store.getSyncedBlock()).to.equal(
+        cache.store.getSyncedBlock(),
+      );
+      expect(await reloaded.resolve("xns", "x")).to.equal(client.address);
+      expect(runner.calls).to.equal(0);
+
+      await client.connect(user2).registerName("alice", "xns");
+      expect(await reloaded.sync()).to.equal(1);
+      expect(await reloaded.resolve("alice", "xns")).to.equal(user2.address);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
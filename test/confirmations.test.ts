@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  loadFixture,
+  mine,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { id } from "ethers";
+import { deployXnsFixture } from "./helpers/setup";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import { ConfirmationResult, waitForConfirmations } from "../scripts/sdk";
+
+describe("confirmations", function () {
+  async function confirmationsFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    return fixture;
+  }
+
+  // Mines a block every few milliseconds until `waiting` settles
+  async function mineWhile(waiting: Promise<ConfirmationResult>) {
+    let settled = false;
+    void waiting.finally(() => (settled = true));
+    while (!settled) {
+      await mine();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    return await waiting;
+  }
+
+  it("Should verify the names at the confirmed block", async () => {
+    const { client, user2 } = await loadFixture(confirmationsFixture);
+    const tx = await client.connect(user2).registerName("alice", "xns");
+    const receipt = (await tx.wait())!;
+
+    const result = await mineWhile(
+      waitForConfirmations(client, tx.hash, {
+        confirmations: 3,
+        pollInterval: 10,
+      }),
+    );
+    expect(result).to.deep.equal({
+      transactionHash: tx.hash,
+      status: "SAFE_TO_SHARE",
+      safeToShare: true,
+      blockNumber: receipt.blockNumber,
+      confirmedBlock: receipt.blockNumber + 2,
+      confirmations: 3,
+      reorgs: [],
+      names: [
+        {
+          name: "alice.xns",
+          owner: user2.address,
+          resolvedAddress: user2.address,
+          reverseName: "alice.xns",
+          ok: true,
+        },
+      ],
+    });
+    expect(await ethers.provider.getBlockNumber()).to.be.at.least(
+      result.confirmedBlock!,
+    );
+
+    // Already confirmed
+    expect(
+      (await waitForConfirmations(client, tx.hash, { confirmations: 1 }))
+        .confirmedBlock,
+    ).to.equal(receipt.blockNumber);
+  });
+
+  it("Should not report a transaction that registered no names as safe to share", async () => {
+    const { xns, client, user2, user3 } =
+      await loadFixture(confirmationsFixture);
+    await client.connect(user2).registerName("alice", "xns");
+
+    // The only item of the batch is skipped because the name is taken
+    const signature = await signRegisterNameAuth(
+      xns,
+      user3,
+      user3.address,
+      "alice",
+      "xns",
+    );
+    const tx = await client
+      .connect(user3)
+      .batchRegisterNameWithAuthorization(
+        [{ recipient: user3.address, label: "alice", namespace: "xns" }],
+        [signature],
+      );
+    const receipt = (await tx.wait())!;
+
+    expect(
+      await waitForConfirmations(client, tx.hash, { confirmations: 1 }),
+    ).to.deep.include({
+      status: "NO_NAMES_REGISTERED",
+      safeToShare: false,
+      confirmedBlock: receipt.blockNumber,
+      names: [],
+    });
+  });
+
+  it("Should detect dropped, reorged out and unconfirmed transactions", async () => {
+    const { client, user2, user3 } = await loadFixture(confirmationsFixture);
+
+    expect(
+      (
+        await waitForConfirmations(client, id("unknown"), {
+          confirmations: 1,
+        })
+      ).status,
+    ).to.equal("DROPPED");
+
+    const tx = await client.connect(user2).registerName("alice", "xns");
+    const timeout = await waitForConfirmations(client, tx.hash, {
+      confirmations: 100,
+      timeout: 50,
+      pollInterval: 10,
+    });
+    expect(timeout).to.deep.include({
+      status: "TIMEOUT",
+      safeToShare: false,
+      confirmedBlock: null,
+      names: [],
+    });
+
+    // The block of the transaction is removed after the first poll
+    const blockNumber = await ethers.provider.getBlockNumber();
+    const blockHash = (await ethers.provider.getBlock(blockNumber))!.hash;
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    const reorged = await client.connect(user3).registerName("bob", "x", {
+      value: ethers.parseEther("10"),
+    });
+    const minedBlock = await ethers.provider.getBlock("latest");
+    const waiting = waitForConfirmations(client, reorged.hash, {
+      confirmations: 2,
+      pollInterval: 10,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await ethers.provider.send("evm_revert", [snapshot]);
+    const result = await waiting;
+    expect(result).to.deep.include({
+      status: "REORGED_OUT",
+      safeToShare: false,
+      blockNumber: null,
+      reorgs: [{ blockNumber: blockNumber + 1, blockHash: minedBlock!.hash }],
+    });
+    expect((await ethers.provider.getBlock(blockNumber))!.hash).to.equal(
+      blockHash,
+    );
+  });
+});
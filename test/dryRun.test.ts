@@ -0,0 +1,207 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { TransactionReceipt } from "ethers";
+import { deployXnsFixture, DETH_ADDRESS } from "./helpers/setup";
+import { withoutLogPosition } from "./helpers/events";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import {
+  DryRunResult,
+  NoFeesToClaimError,
+  NotPendingOwnerError,
+  decodeReceipt,
+  dryRun,
+} from "../scripts/sdk";
+
+describe("dryRun", function () {
+  async function dryRunFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    return fixture;
+  }
+
+  // The decoded events of a mined transaction without their log position
+  async function minedEvents(
+    fixture: Awaited<ReturnType<typeof dryRunFixture>>,
+    receipt: TransactionReceipt,
+  ) {
+    const { events } = await decodeReceipt(fixture.client, receipt);
+    return withoutLogPosition(events);
+  }
+
+  it("Should predict the events, burn and fee credits of `registerName` without sending it", async () => {
+    const fixture = await loadFixture(dryRunFixture);
+    const { client, deth, owner, user1, user2 } = fixture;
+    const user2Client = client.connect(user2);
+    const blockBefore = await ethers.provider.getBlockNumber();
+
+    const result = await dryRun(
+      user2Client,
+      { method: "registerName", label: "alice", namespace: "xns" },
+      { value: ethers.parseEther("0.0015") },
+    );
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+    expect(await client.reverseResolve(user2.address)).to.equal("");
+    expect(result).to.deep.include({
+      method: "registerName",
+      from: user2.address,
+      value: ethers.parseEther("0.0015"),
+      blockNumber: blockBefore,
+      burn: ethers.parseEther("0.0008"),
+      deth: DETH_ADDRESS,
+      feeCredits: [
+        { address: user1.address, amount: ethers.parseEther("0.0001") },
+        { address: owner.address, amount: ethers.parseEther("0.0001") },
+      ],
+      refund: ethers.parseEther("0.0005"),
+      successfulCount: null,
+      skipped: [],
+    });
+    expect(result.gasEstimate > 0n).to.equal(true);
+
+    // The prediction matches the mined transaction
+    const burnedBefore = await deth.burned(user2.address);
+    const receipt = (await (
+      await user2Client.registerName("alice", "xns", {
+        value: ethers.parseEther("0.0015"),
+      })
+    ).wait()) as TransactionReceipt;
+    expect(await minedEvents(fixture, receipt)).to.deep.equal(result.events);
+    expect((await deth.burned(user2.address)) - burnedBefore).to.equal(
+      result.burn,
+    );
+    expect(receipt.gasUsed <= result.gasEstimate).to.equal(true);
+  });
+
+  it("Should report the `successfulCount` and skipped items of a batch", async () => {
+    const fixture = await loadFixture(dryRunFixture);
+    const { xns, client, owner, user1, user2, user3, user4 } = fixture;
+    await client.connect(user2).registerName("alice", "xns");
+
+    const auths = [
+      { recipient: user2.address, label: "taken", namespace: "xns" },
+      { recipient: user3.address, label: "bob", namespace: "xns" },
+      { recipient: user4.address, label: "bob", namespace: "xns" },
+      { recipient: user4.address, label: "carol", namespace: "xns" },
+    ];
+    const signatures = await Promise.all(
+      [user2, user3, user4, user4].map((signer, i) =>
+        signRegisterNameAuth(
+          xns,
+          signer,
+          auths[i].recipient,
+          auths[i].label,
+          "xns",
+        ),
+      ),
+    );
+
+    const sponsorClient = client.connect(user1);
+    const result: DryRunResult = await dryRun(sponsorClient, {
+      method: "batchRegisterNameWithAuthorization",
+      auths,
+      signatures,
+    });
+    expect(result.successfulCount).to.equal(2);
+    // Recipient with a name and a name registered earlier in the same batch
+    expect(result.skipped).to.deep.equal([auths[0], auths[2]]);
+    expect(result.value).to.equal(ethers.parseEther("0.004"));
+    expect(result.burn).to.equal(ethers.parseEther("0.0016"));
+    expect(result.feeCredits).to.deep.equal([
+      { address: user1.address, amount: ethers.parseEther("0.0002") },
+      { address: owner.address, amount: ethers.parseEther("0.0002") },
+    ]);
+    expect(result.refund).to.equal(ethers.parseEther("0.002"));
+
+    const receipt = (await (
+      await sponsorClient.batchRegisterNameWithAuthorization(auths, signatures)
+    ).wait()) as TransactionReceipt;
+    expect(await minedEvents(fixture, receipt)).to.deep.equal(result.events);
+    expect(await client.reverseResolve(user4.address)).to.equal("carol.xns");
+  });
+
+  it("Should predict namespace registrations, fee claims and ownership transfers", async () => {
+    const fixture = await loadFixture(dryRunFixture);
+    const { client, owner, user1, user2, user3 } = fixture;
+
+    // Both fee shares of a namespace registration go to the contract owner
+    const namespace = await dryRun(client.connect(user2), {
+      method: "registerPrivateNamespace",
+      namespace: "corp",
+      pricePerName: ethers.parseEther("0.005"),
+    });
+    expect(namespace.value).to.equal(ethers.parseEther("10"));
+    expect(namespace.burn).to.equal(ethers.parseEther("8"));
+    expect(namespace.feeCredits).to.deep.equal([
+      { address: owner.address, amount: ethers.parseEther("2") },
+    ]);
+    const receipt = (await (
+      await client
+        .connect(user2)
+        .registerPrivateNamespace("corp", ethers.parseEther("0.005"))
+    ).wait()) as TransactionReceipt;
+    expect(await minedEvents(fixture, receipt)).to.deep.equal(namespace.events);
+
+    // Without a signer, `from` selects the sender
+    const claim = await dryRun(
+      client,
+      { method: "claimFees", recipient: user3.address },
+      { from: owner.address },
+    );
+    expect(claim.events).to.deep.equal([
+      {
+        event: "FeesClaimed",
+        recipient: user3.address,
+        amount: await client.getPendingFees(owner.address),
+      },
+    ]);
+    expect(claim.feeCredits).to.deep.equal([]);
+
+    const transfer = await dryRun(client.connect(owner), {
+      method: "transferOwnership",
+      newOwner: user3.address,
+    });
+    expect(transfer.events).to.deep.equal([
+      {
+        event: "OwnershipTransferStarted",
+        previousOwner: owner.address,
+        newOwner: user3.address,
+      },
+    ]);
+
+    // Reverts are thrown as typed errors
+    await expect(
+      dryRun(client.connect(user3), { method: "claimFeesToSelf" }),
+    ).to.be.rejectedWith(NoFeesToClaimError);
+    await expect(
+      dryRun(client.connect(user1), {
+        method: "acceptNamespaceOwnership",
+        namespace: "xns",
+      }),
+    ).to.be.rejectedWith("XNS: no pending owner");
+    await client
+      .connect(user1)
+      .transferNamespaceOwnership("xns", user3.address);
+    await expect(
+      dryRun(client.connect(user2), {
+        method: "acceptNamespaceOwnership",
+        namespace: "xns",
+      }),
+    ).to.be.rejectedWith(NotPendingOwnerError);
+    expect(
+      (
+        await dryRun(client.connect(user3), {
+          method: "acceptNamespaceOwnership",
+          namespace: "xns",
+        })
+      ).events,
+    ).to.deep.equal([
+      {
+        event: "NamespaceOwnerTransferAccepted",
+        namespace: "xns",
+        namespaceHash: ethers.id("xns"),
+        newOwner: user3.address,
+      },
+    ]);
+  });
+});
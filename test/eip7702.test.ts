@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { concat } from "ethers";
+import { deployXnsFixture } from "./helpers/setup";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import {
+  REGISTER_NAME_AUTH_TYPES,
+  checkRegisterNameAuthSignature,
+  createAuthorizationBundle,
+  createReplaySafeHashScheme,
+  getEip7702Delegate,
+  getXnsTypedDataDomain,
+  parseDelegationDesignator,
+  signAuthorizationBundle,
+  verifyRegisterNameAuthSignature,
+} from "../scripts/sdk";
+
+describe("eip7702", function () {
+  // Signing scheme of `MockEIP7702Delegate`
+  const scheme = createReplaySafeHashScheme(
+    "MockEIP7702Delegate",
+    "1",
+    "DelegatedMessage",
+  );
+
+  async function eip7702Fixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    const [, , , , , account] = await ethers.getSigners();
+    const delegate = await ethers.deployContract("MockEIP7702Delegate");
+    await delegate.waitForDeployment();
+    const delegateAddress = await delegate.getAddress();
+
+    // Delegation designator of `account` (as set by an EIP-7702 authorization)
+    await ethers.provider.send("hardhat_setCode", [
+      account.address,
+      concat(["0xef0100", delegateAddress]),
+    ]);
+
+    const domain = await getXnsTypedDataDomain(fixture.client);
+    const auth = {
+      recipient: account.address,
+      label: "alice",
+      namespace: "xns",
+    };
+    return { ...fixture, account, delegate, delegateAddress, domain, auth };
+  }
+
+  /**
+   * The local hardfork predates Prague, so calls to a delegated account do not run the delegate's code. This
+   * emulates the delegation by installing the delegate's runtime code at the account.
+   */
+  async function emulateDelegatedExecution(
+    account: string,
+    delegateAddress: string,
+  ) {
+    await ethers.provider.send("hardhat_setCode", [
+      account,
+      await ethers.provider.getCode(delegateAddress),
+    ]);
+  }
+
+  it("Should detect delegation designators", async () => {
+    const { account, delegateAddress, user1 } =
+      await loadFixture(eip7702Fixture);
+    expect(await getEip7702Delegate(ethers.provider, account.address)).to.equal(
+      delegateAddress,
+    );
+    expect(await getEip7702Delegate(ethers.provider, user1.address)).to.equal(
+      null,
+    );
+    expect(await getEip7702Delegate(ethers.provider, delegateAddress)).to.equal(
+      null,
+    );
+    expect(
+      parseDelegationDesignator(
+        `0xEF0100${delegateAddress.slice(2).toUpperCase()}`,
+      ),
+    ).to.equal(delegateAddress);
+    expect(
+      parseDelegationDesignator(`${concat(["0xef0100", delegateAddress])}00`),
+    ).to.equal(null);
+  });
+
+  it("Should explain that plain ECDSA signatures of a delegated recipient are rejected", async () => {
+    const { xns, client, account, delegateAddress, domain, auth } =
+      await loadFixture(eip7702Fixture);
+    const plain = await account.signTypedData(
+      domain,
+      REGISTER_NAME_AUTH_TYPES,
+      auth,
+    );
+    expect(await client.isValidSignature(auth, plain)).to.equal(false);
+
+    const verification = await verifyRegisterNameAuthSignature(
+      client,
+      auth,
+      plain,
+    );
+    expect(verification.isValid).to.equal(false);
+    expect(verification.recipientType).to.equal("delegated");
+    expect(verification.delegate).to.equal(delegateAddress);
+    expect(verification.recoveredSigner).to.equal(account.address);
+    expect(verification.error).to.equal(
+      `${account.address} is an EIP-7702 delegated account (delegate ${delegateAddress}): XNS checks its signatures with the delegate's isValidSignature (ERC-1271), which does not accept a plain ECDSA signature of the recipient`,
+    );
+    expect(verification.mismatches.map((m) => m.kind)).to.deep.equal([
+      "EIP7702_DELEGATED",
+    ]);
+
+    const check = await checkRegisterNameAuthSignature(client, auth, plain);
+    expect(check.error).to.equal(verification.error);
+
+    // The signing helpers refuse to produce a plain signature for the delegated recipient
+    await expect(
+      signRegisterNameAuth(xns, account, account.address, "alice", "xns"),
+    ).to.be.rejectedWith("pass the signing scheme of the delegate");
+  });
+
+  it("Should route signing through the delegate's EIP-1271 scheme", async () => {
+    const { xns, client, account, delegateAddress, domain, auth, user1 } =
+      await loadFixture(eip7702Fixture);
+    const signature = await signRegisterNameAuth(
+      xns,
+      account,
+      account.address,
+      "alice",
+      "xns",
+      { delegateScheme: scheme },
+    );
+    const bundle = await signAuthorizationBundle(
+      createAuthorizationBundle(domain, [auth], { requestedBy: "sponsor" }),
+      account,
+      undefined,
+      { delegateScheme: scheme },
+    );
+    expect(bundle.entries[0].signature).to.equal(signature);
+
+    await emulateDelegatedExecution(account.address, delegateAddress);
+    const plain = await account.signTypedData(
+      domain,
+      REGISTER_NAME_AUTH_TYPES,
+      auth,
+    );
+    expect(await client.isValidSignature(auth, plain)).to.equal(false);
+    expect(await client.isValidSignature(auth, signature)).to.equal(true);
+    expect(
+      (await verifyRegisterNameAuthSignature(client, auth, signature)).isValid,
+    ).to.equal(true);
+
+    await client.connect(user1).registerNameWithAuthorization(auth, signature);
+    expect(await client.reverseResolve(account.address)).to.equal("alice.xns");
+  });
+});
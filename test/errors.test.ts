@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { readFileSync } from "fs";
+import { deployXnsFixture } from "./helpers/setup";
+import {
+  ExclusivityPeriodError,
+  InsufficientPaymentError,
+  NamespaceNotFoundError,
+  NotNamespaceOwnerError,
+  XNS_REVERT_REASONS,
+  XnsError,
+  decodeXnsError,
+} from "../scripts/sdk";
+
+describe("errors", function () {
+  // Returns the error a promise rejects with
+  const rejection = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as XnsError;
+    }
+    throw new Error("Expected promise to reject");
+  };
+
+  // Encodes a reason string as `Error(string)` revert data
+  const revertData = (reason: string) =>
+    new ethers.Interface(["error Error(string)"]).encodeErrorResult("Error", [
+      reason,
+    ]);
+
+  it("Should map every revert reason of XNS.sol to a typed error", async () => {
+    const source = readFileSync("contracts/src/XNS.sol", "utf8");
+    const reasons = new Set(
+      source.match(/"XNS: [^"]*"/g)!.map((r) => r.slice(1, -1)),
+    );
+    expect(reasons.size).to.be.greaterThan(25);
+
+    for (const reason of reasons) {
+      expect(XNS_REVERT_REASONS, reason).to.have.property(reason);
+      const error = decodeXnsError({ data: revertData(reason) });
+      expect(error, reason).to.be.instanceOf(XnsError);
+      expect(error!.reason).to.equal(reason);
+    }
+  });
+
+  it("Should decode the restriction of `NotNamespaceOwnerError`", async () => {
+    const decode = (reason: string) =>
+      decodeXnsError({ data: revertData(reason) }) as NotNamespaceOwnerError;
+    expect(decode("XNS: not namespace owner (private)").restriction).to.equal(
+      "private",
+    );
+    expect(
+      decode("XNS: not namespace owner (exclusivity period)").restriction,
+    ).to.equal("exclusivity period");
+    expect(decode("XNS: not namespace owner").restriction).to.equal(undefined);
+  });
+
+  it("Should return `undefined` for other errors", async () => {
+    expect(decodeXnsError(new Error("boom"))).to.equal(undefined);
+    expect(decodeXnsError({ data: revertData("Other: reason") })).to.equal(
+      undefined,
+    );
+  });
+
+  it("Should throw typed errors with context from `XnsClient`", async () => {
+    const { client, user2 } = await loadFixture(deployXnsFixture);
+    const info = await client.getNamespaceInfo("xns");
+
+    const exclusivity = await rejection(
+      client.connect(user2).registerName("alice", "xns"),
+    );
+    expect(exclusivity).to.be.instanceOf(ExclusivityPeriodError);
+    expect(exclusivity.kind).to.equal("EXCLUSIVITY_PERIOD");
+    expect(exclusivity.context).to.deep.equal({
+      label: "alice",
+      namespace: "xns",
+      exclusivityEndsAt: info.createdAt + 7n * 24n * 60n * 60n,
+    });
+    expect(exclusivity.message).to.match(
+      /^XNS: in exclusivity period \(label: alice, namespace: xns, exclusivityEndsAt: /,
+    );
+
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    const payment = await rejection(
+      client.connect(user2).registerName("alice", "xns", { value: 1n }),
+    );
+    expect(payment).to.be.instanceOf(InsufficientPaymentError);
+    expect(payment.context).to.include({
+      required: ethers.parseEther("0.001"),
+      provided: 1n,
+    });
+
+    const notFound = await rejection(client.getNamespaceInfo("unknown"));
+    expect(notFound).to.be.instanceOf(NamespaceNotFoundError);
+    expect(notFound.context).to.deep.equal({ namespace: "unknown" });
+    expect(await client.findNamespaceInfo("unknown")).to.equal(null);
+
+    await client.connect(user2).registerName("alice", "xns");
+    expect(
+      (await rejection(client.connect(user2).registerName("bob", "xns"))).kind,
+    ).to.equal("ADDRESS_ALREADY_HAS_NAME");
+  });
+
+  it("Should attach fees, minimum prices and the onboarding end", async () => {
+    const { client, owner, user2 } = await loadFixture(deployXnsFixture);
+
+    const fee = await rejection(
+      client
+        .connect(user2)
+        .registerPrivateNamespace("priv", ethers.parseEther("0.005"), {
+          value: 1n,
+        }),
+    );
+    expect(fee.kind).to.equal("INSUFFICIENT_NAMESPACE_FEE");
+    expect(fee.context.required).to.equal(ethers.parseEther("10"));
+
+    const minPrice = await rejection(
+      client.connect(user2).registerPublicNamespace("pub", 0n),
+    );
+    expect(minPrice.kind).to.equal("PRICE_TOO_LOW");
+    expect(minPrice.context.minPrice).to.equal(ethers.parseEther("0.001"));
+
+    const step = await rejection(
+      client
+        .connect(user2)
+        .registerPublicNamespace("pub", ethers.parseEther("0.0015")),
+    );
+    expect(step.kind).to.equal("INVALID_PRICE_STEP");
+
+    const { deployedAt, onboardingPeriod } = await client.getConstants();
+    await time.increase(onboardingPeriod + 1n);
+    const onboarding = await rejection(
+      client
+        .connect(owner)
+        .registerPublicNamespaceFor(
+          user2.address,
+          "pub",
+          ethers.parseEther("0.001"),
+        ),
+    );
+    expect(onboarding.kind).to.equal("ONBOARDING_OVER");
+    expect(onboarding.context.onboardingEndedAt).to.equal(
+      deployedAt + onboardingPeriod,
+    );
+  });
+});
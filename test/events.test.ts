@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { id } from "ethers";
+import { deployXnsFixture } from "./helpers/setup";
+import { withoutLogPosition } from "./helpers/events";
+import { fetchXnsEvents, matchesXnsEventFilter } from "../scripts/sdk";
+
+describe("events", function () {
+  async function eventsFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    const { client, owner, user1, user2, user3, user4 } = fixture;
+
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+    await client.connect(user2).registerName("alice", "xns");
+    await client
+      .connect(user3)
+      .registerPrivateNamespace("corp", ethers.parseEther("0.005"));
+    await client.connect(user4).registerName("bob", "x", {
+      value: ethers.parseEther("10"),
+    });
+    await client
+      .connect(user1)
+      .transferNamespaceOwnership("xns", user3.address);
+    await client.connect(user3).acceptNamespaceOwnership("xns");
+    const claimed = await client.getPendingFees(owner.address);
+    await client.connect(owner).claimFeesToSelf();
+    const toBlock = await ethers.provider.getBlockNumber();
+    return { ...fixture, fromBlock, toBlock, claimed };
+  }
+
+  it("Should fetch the events of a block range with plaintext names", async () => {
+    const {
+      client,
+      fromBlock,
+      toBlock,
+      claimed,
+      owner,
+      user1,
+      user2,
+      user3,
+      user4,
+    } = await loadFixture(eventsFixture);
+
+    // A block range of 2 needs several `eth_getLogs` requests
+    const events = await fetchXnsEvents(client, {
+      fromBlock,
+      toBlock,
+      maxBlockRange: 2,
+    });
+    expect(withoutLogPosition(events)).to.deep.equal([
+      {
+        event: "NameRegistered",
+        label: "alice",
+        namespace: "xns",
+        fullName: "alice.xns",
+        labelHash: id("alice"),
+        namespaceHash: id("xns"),
+        owner: user2.address,
+      },
+      {
+        event: "NamespaceRegistered",
+        namespace: "corp",
+        namespaceHash: id("corp"),
+        pricePerName: ethers.parseEther("0.005"),
+        owner: user3.address,
+        isPrivate: true,
+      },
+      {
+        event: "NameRegistered",
+        label: "bob",
+        namespace: "x",
+        fullName: "bob",
+        labelHash: id("bob"),
+        namespaceHash: id("x"),
+        owner: user4.address,
+      },
+      {
+        event: "NamespaceOwnerTransferStarted",
+        namespace: "xns",
+        namespaceHash: id("xns"),
+        oldOwner: user1.address,
+        newOwner: user3.address,
+      },
+      {
+        event: "NamespaceOwnerTransferAccepted",
+        namespace: "xns",
+        namespaceHash: id("xns"),
+        newOwner: user3.address,
+      },
+      {
+        event: "FeesClaimed",
+        recipient: owner.address,
+        amount: claimed,
+      },
+    ]);
+    expect(events[0].blockNumber).to.equal(fromBlock);
+    expect(events[5].blockNumber).to.equal(toBlock);
+
+    // Up to the latest block by default
+    expect(await fetchXnsEvents(client, { fromBlock })).to.deep.equal(events);
+    expect(
+      await fetchXnsEvents(client, { fromBlock: toBlock + 1 }),
+    ).to.deep.equal([]);
+  });
+
+  it("Should filter events by type, namespace and owner", async () => {
+    const { client, fromBlock, user1, user3 } =
+      await loadFixture(eventsFixture);
+
+    const registrations = await fetchXnsEvents(client, {
+      fromBlock,
+      filter: { events: ["NameRegistered"] },
+    });
+    expect(registrations.map((event) => event.event)).to.deep.equal([
+      "NameRegistered",
+      "NameRegistered",
+    ]);
+
+    // `FeesClaimed` has no namespace
+    const xns = await fetchXnsEvents(client, {
+      fromBlock,
+      filter: { namespace: "xns" },
+    });
+    expect(xns.map((event) => event.event)).to.deep.equal([
+      "NameRegistered",
+      "NamespaceOwnerTransferStarted",
+      "NamespaceOwnerTransferAccepted",
+    ]);
+    expect(
+      await fetchXnsEvents(client, {
+        fromBlock,
+        filter: { namespace: "xns", events: ["FeesClaimed"] },
+      }),
+    ).to.deep.equal([]);
+
+    // Old and new namespace owners are both involved in a transfer
+    const involving = await fetchXnsEvents(client, {
+      fromBlock,
+      filter: { owner: user3.address.toLowerCase() },
+    });
+    expect(involving.map((event) => event.event)).to.deep.equal([
+      "NamespaceRegistered",
+      "NamespaceOwnerTransferStarted",
+      "NamespaceOwnerTransferAccepted",
+    ]);
+    expect(
+      involving.every((event) =>
+        matchesXnsEventFilter(event, { owner: user3.address }),
+      ),
+    ).to.equal(true);
+    expect(
+      (
+        await fetchXnsEvents(client, {
+          fromBlock,
+          filter: { owner: user1.address, namespace: "corp" },
+        })
+      ).length,
+    ).to.equal(0);
+  });
+});
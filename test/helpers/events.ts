@@ -0,0 +1,18 @@
+import { DecodedXnsEvent } from "../../scripts/sdk";
+
+// Where a decoded event was emitted (not part of the events predicted by `dryRun`)
+const LOG_POSITION = ["blockNumber", "transactionHash", "logIndex"];
+
+/**
+ * Returns decoded XNS events without their block number, transaction hash and log index
+ * @param events The decoded events
+ */
+export function withoutLogPosition(
+  events: DecodedXnsEvent[],
+): Record<string, unknown>[] {
+  return events.map((event) =>
+    Object.fromEntries(
+      Object.entries(event).filter(([key]) => !LOG_POSITION.includes(key)),
+    ),
+  );
+}
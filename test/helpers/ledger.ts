@@ -0,0 +1,106 @@
+import { HDNodeWallet, TypedDataField, getBytes } from "ethers";
+import { EthereumProvider } from "hardhat/types";
+
+// Mnemonic of the default Hardhat accounts
+const HARDHAT_MNEMONIC =
+  "test test test test test test test test test test test junk";
+
+// Hardhat unlocks accounts 0 to 19 of the mnemonic, so the Hardhat network cannot sign for this one
+const LEDGER_PATH = "m/44'/60'/0'/0/20";
+
+interface RpcTransaction {
+  from: string;
+  to?: string;
+  data?: string;
+  value?: string;
+  gas?: string;
+}
+
+/**
+ * Stands in for `@nomicfoundation/hardhat-ledger` and a Ledger device
+ * The plugin wraps the network provider and answers the signing requests of its `ledgerAccounts` with the device.
+ * Once connected, the mock does the same on the provider for an account the Hardhat network cannot sign for, and
+ * records the requests sent to the "device" (named like the `@ledgerhq/hw-app-eth` calls of the plugin).
+ */
+export class MockLedgerDevice {
+  readonly wallet = HDNodeWallet.fromPhrase(
+    HARDHAT_MNEMONIC,
+    undefined,
+    LEDGER_PATH,
+  );
+  readonly requests: string[] = [];
+  private readonly provider: EthereumProvider;
+  private readonly originalSend: EthereumProvider["send"];
+  private readonly send: EthereumProvider["send"];
+
+  /**
+   * @param provider The network provider (`hre.network.provider`)
+   */
+  constructor(provider: EthereumProvider) {
+    this.provider = provider;
+    this.originalSend = provider.send;
+    this.send = provider.send.bind(provider);
+  }
+
+  get address(): string {
+    return this.wallet.address;
+  }
+
+  /**
+   * Starts answering the signing requests of the Ledger account
+   */
+  connect(): void {
+    this.provider.send = (method, params) => this.handle(method, params ?? []);
+  }
+
+  /**
+   * Restores the network provider
+   */
+  disconnect(): void {
+    this.provider.send = this.originalSend;
+  }
+
+  private isLedgerAccount(account: unknown): boolean {
+    return (
+      typeof account === "string" &&
+      account.toLowerCase() === this.address.toLowerCase()
+    );
+  }
+
+  private async handle(method: string, params: unknown[]): Promise<unknown> {
+    if (method === "eth_signTypedData_v4" && this.isLedgerAccount(params[0])) {
+      this.requests.push("signEIP712Message");
+      const { domain, types, message } = JSON.parse(params[1] as string);
+      const messageTypes: Record<string, TypedDataField[]> = { ...types };
+      delete messageTypes.EIP712Domain;
+      return await this.wallet.signTypedData(domain, messageTypes, message);
+    }
+    if (method === "personal_sign" && this.isLedgerAccount(params[1])) {
+      this.requests.push("signPersonalMessage");
+      return await this.wallet.signMessage(getBytes(params[0] as string));
+    }
+    if (method === "eth_sendTransaction") {
+      const tx = params[0] as RpcTransaction;
+      if (this.isLedgerAccount(tx.from)) {
+        this.requests.push("signTransaction");
+        const [chainId, nonce, gasPrice, gasLimit] = await Promise.all([
+          this.send("eth_chainId"),
+          this.send("eth_getTransactionCount", [tx.from, "pending"]),
+          this.send("eth_gasPrice"),
+          tx.gas ?? this.send("eth_estimateGas", [tx]),
+        ]);
+        const signed = await this.wallet.signTransaction({
+          to: tx.to,
+          data: tx.data,
+          value: tx.value ?? 0,
+          chainId,
+          nonce: Number(nonce),
+          gasPrice,
+          gasLimit,
+        });
+        return await this.send("eth_sendRawTransaction", [signed]);
+      }
+    }
+    return await this.send(method, params);
+  }
+}
@@ -0,0 +1,71 @@
+import { ethers } from "hardhat";
+import { ContractRunner, TransactionRequest } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { XNS, DETH } from "../../typechain-types";
+import { MULTICALL3_ADDRESS, XnsClient } from "../../scripts/sdk";
+
+// DETH contract address hardcoded in XNS.sol
+export const DETH_ADDRESS = "0xE46861C9f28c46F27949fb471986d59B256500a7";
+
+export interface XnsFixture {
+  xns: XNS;
+  client: XnsClient;
+  deth: DETH;
+  owner: SignerWithAddress;
+  user1: SignerWithAddress;
+  user2: SignerWithAddress;
+  user3: SignerWithAddress;
+  user4: SignerWithAddress;
+}
+
+/**
+ * Deploys DETH (at its hardcoded address) and XNS, and registers the public namespace "xns"
+ * (owned by `user1`, 0.001 ETH per name). Also installs Multicall3 at its canonical address for
+ * `resolveMany`/`reverseResolveMany`. Intended to be used with `loadFixture`.
+ */
+export async function deployXnsFixture(): Promise<XnsFixture> {
+  const [owner, user1, user2, user3, user4] = await ethers.getSigners();
+
+  // Deploy DETH and copy its code to the address hardcoded in XNS
+  const dethDeployed = await ethers.deployContract("DETH");
+  await dethDeployed.waitForDeployment();
+  const dethBytecode = await ethers.provider.getCode(dethDeployed.target);
+  await ethers.provider.send("hardhat_setCode", [DETH_ADDRESS, dethBytecode]);
+  const deth = await ethers.getContractAt("DETH", DETH_ADDRESS);
+
+  // Install Multicall3 at its canonical address
+  const multicall3 = await ethers.deployContract("Multicall3");
+  await multicall3.waitForDeployment();
+  await ethers.provider.send("hardhat_setCode", [
+    MULTICALL3_ADDRESS,
+    await ethers.provider.getCode(multicall3.target),
+  ]);
+
+  const xns = await ethers.deployContract("XNS", [owner.address]);
+  await xns.waitForDeployment();
+
+  await xns
+    .connect(user1)
+    .registerPublicNamespace("xns", ethers.parseEther("0.001"), {
+      value: await xns.PUBLIC_NAMESPACE_REGISTRATION_FEE(),
+    });
+
+  const client = new XnsClient(await xns.getAddress(), ethers.provider);
+
+  return { xns, client, deth, owner, user1, user2, user3, user4 };
+}
+
+/**
+ * Returns a read-only runner that counts the `eth_call`s sent through it
+ */
+export function countingRunner(): ContractRunner & { calls: number } {
+  const runner = {
+    calls: 0,
+    provider: ethers.provider,
+    call: async (tx: TransactionRequest) => {
+      runner.calls++;
+      return await ethers.provider.call(tx);
+    },
+  };
+  return runner as ContractRunner & { calls: number };
+}
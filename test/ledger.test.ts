@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import {
+  loadFixture,
+  setBalance,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { verifyMessage } from "ethers";
+import { deployXnsFixture } from "./helpers/setup";
+import { MockLedgerDevice } from "./helpers/ledger";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import { LedgerPrompt, LedgerSigner } from "../scripts/sdk";
+
+describe("ledger", function () {
+  let device: MockLedgerDevice;
+
+  beforeEach(() => {
+    device = new MockLedgerDevice(hre.network.provider);
+    device.connect();
+  });
+
+  afterEach(() => device.disconnect());
+
+  async function ledgerFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    return fixture;
+  }
+
+  // Returns a Ledger signer for the account of the mocked device and the prompts it showed
+  const ledger = async () => {
+    const prompts: LedgerPrompt[] = [];
+    const signer = new LedgerSigner(await ethers.getSigner(device.address), {
+      onPrompt: (prompt) => prompts.push(prompt),
+    });
+    return { signer, prompts };
+  };
+
+  it("Should show every field of RegisterNameAuth before the device signs it", async () => {
+    const { xns, client, user1 } = await loadFixture(ledgerFixture);
+    const { signer, prompts } = await ledger();
+    const recipient = await signer.getAddress();
+    expect(recipient).to.equal(device.address);
+
+    const signature = await signRegisterNameAuth(
+      xns,
+      signer,
+      recipient,
+      "alice",
+      "xns",
+    );
+    expect(device.requests).to.deep.equal(["signEIP712Message"]);
+    expect(prompts).to.have.length(1);
+    expect(prompts[0].kind).to.equal("typedData");
+    expect(prompts[0].lines.slice(0, 6)).to.deep.equal([
+      "Domain: XNS (version 1, chain ID 31337)",
+      `Verifying contract: ${client.address}`,
+      "Message: RegisterNameAuth",
+      `  recipient: ${recipient}`,
+      "  label: alice",
+      "  namespace: xns",
+    ]);
+    // The hashes shown when the device blind signs
+    expect(prompts[0].lines.at(-1)).to.match(/^Message hash: 0x/);
+
+    const auth = { recipient, label: "alice", namespace: "xns" };
+    expect(await client.isValidSignature(auth, signature)).to.equal(true);
+    await client.connect(user1).registerNameWithAuthorization(auth, signature);
+    expect(await client.reverseResolve(recipient)).to.equal("alice.xns");
+  });
+
+  it("Should send registration transactions", async () => {
+    const { client } = await loadFixture(ledgerFixture);
+    const { signer, prompts } = await ledger();
+    await setBalance(device.address, ethers.parseEther("10"));
+
+    await (await client.connect(signer).registerName("bob", "xns")).wait();
+    expect(await client.reverseResolve(device.address)).to.equal("bob.xns");
+    expect(device.requests).to.deep.equal(["signTransaction"]);
+    expect(prompts[0]).to.deep.equal({
+      kind: "transaction",
+      lines: [
+        `To: ${client.address}`,
+        "Amount: 0.001 ETH",
+        `Data: ${client.contract.interface.getFunction("registerName")!.selector}… (196 bytes)`,
+        "Chain ID: 31337",
+      ],
+    });
+
+    const message = "hello";
+    expect(verifyMessage(message, await signer.signMessage(message))).to.equal(
+      device.address,
+    );
+    expect(prompts.at(-1)).to.deep.equal({
+      kind: "message",
+      lines: ["Message: hello"],
+    });
+    expect(device.requests.at(-1)).to.equal("signPersonalMessage");
+  });
+});
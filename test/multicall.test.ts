@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { countingRunner, deployXnsFixture } from "./helpers/setup";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import { XnsClient } from "../scripts/sdk";
+
+describe("multicall", function () {
+  async function registeredFixture() {
+    const fixture = await deployXnsFixture();
+    const { xns, client, user1, user2, user3 } = fixture;
+    for (const [recipient, label] of [
+      [user2, "bob"],
+      [user3, "carol"],
+    ] as const) {
+      const signature = await signRegisterNameAuth(
+        xns,
+        recipient,
+        recipient.address,
+        label,
+        "xns",
+      );
+      await client
+        .connect(user1)
+        .registerNameWithAuthorization(
+          { recipient: recipient.address, label, namespace: "xns" },
+          signature,
+        );
+    }
+    return fixture;
+  }
+
+  it("Should resolve names in input order like `getAddress(fullName)`", async () => {
+    const { client } = await loadFixture(registeredFixture);
+    const names = ["carol.xns", "nobody.xns", "bob.xns", "xns", "alice.", ""];
+
+    const results = await client.resolveMany(names);
+
+    expect(results.map((r) => r.input)).to.deep.equal(names);
+    for (const result of results) {
+      expect(result, result.input).to.deep.equal({
+        input: result.input,
+        success: true,
+        value: await client.resolveFullName(result.input),
+      });
+    }
+  });
+
+  it("Should reverse resolve addresses in input order", async () => {
+    const { client, user2, user3, user4 } =
+      await loadFixture(registeredFixture);
+
+    const results = await client.reverseResolveMany([
+      user3.address,
+      user4.address,
+      "not-an-address",
+      client.address,
+      user2.address,
+    ]);
+
+    expect(results).to.deep.equal([
+      { input: user3.address, success: true, value: "carol.xns" },
+      { input: user4.address, success: true, value: "" },
+      { input: "not-an-address", success: false, error: "invalid address" },
+      { input: client.address, success: true, value: "xns" },
+      { input: user2.address, success: true, value: "bob.xns" },
+    ]);
+  });
+
+  it("Should chunk calls by calldata size", async () => {
+    const { client, user2 } = await loadFixture(registeredFixture);
+    const names = Array.from({ length: 500 }, (_, i) => `name-${i}.xns`);
+    names[250] = "bob.xns";
+
+    const runner = countingRunner();
+    const results = await client.connect(runner).resolveMany(names);
+    expect(runner.calls).to.equal(3);
+    expect(results).to.have.length(500);
+    expect(results[250]).to.deep.equal({
+      input: "bob.xns",
+      success: true,
+      value: user2.address,
+    });
+    expect(results.filter((r) => r.success)).to.have.length(500);
+
+    const small = countingRunner();
+    const smallResults = await client
+      .connect(small)
+      .resolveMany(names.slice(0, 10), { maxCalldataBytes: 1000 });
+    expect(small.calls).to.equal(5);
+    expect(smallResults).to.deep.equal(results.slice(0, 10));
+  });
+
+  it("Should report errors per item", async () => {
+    const { client, user4 } = await loadFixture(registeredFixture);
+
+    // No code at the target: the call succeeds but returns no data
+    const noCode = new XnsClient(user4.address, ethers.provider);
+    const [result] = await noCode.resolveMany(["bob.xns"]);
+    expect(result.success).to.equal(false);
+    expect(!result.success && result.error).to.match(
+      /^could not decode result/,
+    );
+
+    // No Multicall3 deployment: every item of the chunk fails
+    const results = await client.reverseResolveMany(
+      [user4.address, client.address],
+      { multicallAddress: user4.address },
+    );
+    expect(results.map((r) => r.success)).to.deep.equal([false, false]);
+  });
+});
@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { deployXnsFixture } from "./helpers/setup";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import {
+  canonicalizeXnsName,
+  formatXnsName,
+  parseXnsName,
+} from "../scripts/sdk";
+
+describe("names", function () {
+  describe("parseXnsName", function () {
+    it("Should split on the last '.'", async () => {
+      expect(parseXnsName("alice.xns")).to.deep.equal({
+        label: "alice",
+        namespace: "xns",
+        isBare: false,
+      });
+      expect(parseXnsName("a.b.c")).to.deep.equal({
+        label: "a.b",
+        namespace: "c",
+        isBare: false,
+      });
+    });
+
+    it("Should treat dot-less names as bare names", async () => {
+      expect(parseXnsName("alice")).to.deep.equal({
+        label: "alice",
+        namespace: "x",
+        isBare: true,
+      });
+      expect(parseXnsName("alice.x")).to.deep.equal({
+        label: "alice",
+        namespace: "x",
+        isBare: true,
+      });
+    });
+
+    it("Should keep empty parts verbatim", async () => {
+      expect(parseXnsName("")).to.equal(null);
+      expect(parseXnsName("alice.")).to.deep.equal({
+        label: "alice",
+        namespace: "",
+        isBare: false,
+      });
+      expect(parseXnsName(".xns")).to.deep.equal({
+        label: "",
+        namespace: "xns",
+        isBare: false,
+      });
+      expect(parseXnsName(".")).to.deep.equal({
+        label: "",
+        namespace: "",
+        isBare: false,
+      });
+    });
+  });
+
+  describe("formatXnsName / canonicalizeXnsName", function () {
+    it("Should strip the '.x' suffix of bare names", async () => {
+      expect(formatXnsName("alice", "x")).to.equal("alice");
+      expect(formatXnsName("alice", "")).to.equal("alice");
+      expect(formatXnsName("alice", "xns")).to.equal("alice.xns");
+      expect(canonicalizeXnsName("alice.x")).to.equal("alice");
+      expect(canonicalizeXnsName("alice")).to.equal("alice");
+      expect(canonicalizeXnsName("alice.xns")).to.equal("alice.xns");
+    });
+
+    it("Should return `null` for names that can never be registered", async () => {
+      for (const name of [
+        "",
+        "a.b.c",
+        "alice.",
+        ".xns",
+        "Alice.xns",
+        "alice.X",
+      ]) {
+        expect(canonicalizeXnsName(name), name).to.equal(null);
+      }
+    });
+  });
+
+  it("Should match `getAddress(fullName)` and `getName` on-chain", async () => {
+    const { xns, client, user1, user2, owner } =
+      await loadFixture(deployXnsFixture);
+
+    const register = async (
+      sponsor: typeof owner,
+      recipient: typeof owner,
+      label: string,
+      namespace: string,
+    ) => {
+      const signature = await signRegisterNameAuth(
+        xns,
+        recipient,
+        recipient.address,
+        label,
+        namespace,
+      );
+      await client
+        .connect(sponsor)
+        .registerNameWithAuthorization(
+          { recipient: recipient.address, label, namespace },
+          signature,
+        );
+    };
+    await register(user1, user2, "bob", "xns");
+    await register(owner, user1, "alice", "x");
+
+    for (const fullName of [
+      "bob.xns",
+      "alice",
+      "alice.x",
+      "alice.",
+      "xns",
+      "a.b.xns",
+      "bob.xns.",
+    ]) {
+      // An empty namespace is never looked up as bare name by `getAddress(fullName)`
+      const parsed = parseXnsName(fullName);
+      const expected =
+        parsed && parsed.namespace !== ""
+          ? await client.resolve(parsed.label, parsed.namespace)
+          : ethers.ZeroAddress;
+      expect(await client.resolveFullName(fullName), fullName).to.equal(
+        expected,
+      );
+    }
+
+    expect(await client.resolveFullName("alice.")).to.equal(ethers.ZeroAddress);
+    expect(await client.resolve("alice", "")).to.equal(user1.address);
+
+    expect(await client.reverseResolve(user1.address)).to.equal(
+      formatXnsName("alice", "x"),
+    );
+    expect(await client.reverseResolve(user2.address)).to.equal(
+      canonicalizeXnsName("bob.xns"),
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { deployXnsFixture } from "./helpers/setup";
+import {
+  normalizeLabel,
+  normalizeNamespace,
+  normalizeXnsName,
+} from "../scripts/sdk";
+
+describe("normalize", function () {
+  const kinds = (result: { transformations: { kind: string }[] }) =>
+    result.transformations.map((t) => t.kind);
+
+  it("Should normalize labels and report each transformation", async () => {
+    const result = normalizeLabel("  @Alice__Smith- ");
+    expect(result.normalized).to.equal("alice-smith");
+    expect(kinds(result)).to.deep.equal([
+      "TRIM",
+      "LOWERCASE",
+      "STRIP_PREFIX",
+      "REPLACE_SEPARATORS",
+      "STRIP_EDGE_HYPHENS",
+    ]);
+    expect(result.transformations[0]).to.deep.equal({
+      kind: "TRIM",
+      before: "  @Alice__Smith- ",
+      after: "@Alice__Smith-",
+      description: "removed surrounding whitespace",
+    });
+    expect(result.validation.isValid).to.equal(true);
+  });
+
+  it("Should leave valid labels untouched", async () => {
+    const result = normalizeLabel("alice");
+    expect(result.normalized).to.equal("alice");
+    expect(result.transformations).to.deep.equal([]);
+  });
+
+  it("Should collapse consecutive hyphens", async () => {
+    const result = normalizeLabel("a---b");
+    expect(result.normalized).to.equal("a-b");
+    expect(kinds(result)).to.deep.equal(["COLLAPSE_HYPHENS"]);
+  });
+
+  it("Should return `null` with validation errors if the label cannot be fixed", async () => {
+    const result = normalizeLabel("Müller");
+    expect(result.normalized).to.equal(null);
+    expect(result.validation.errors.map((e) => e.code)).to.deep.equal([
+      "INVALID_CHAR",
+    ]);
+    expect(normalizeLabel("a".repeat(21)).normalized).to.equal(null);
+    expect(normalizeLabel("___").normalized).to.equal(null);
+    expect(normalizeNamespace("ETH").normalized).to.equal(null);
+  });
+
+  it("Should normalize full names", async () => {
+    expect(normalizeXnsName("Alice.XNS ").normalized).to.equal("alice.xns");
+    expect(normalizeXnsName("alice_xns").normalized).to.equal("alice-xns");
+    expect(normalizeXnsName("@alice").normalized).to.equal("alice");
+    expect(normalizeXnsName("Bob.X").normalized).to.equal("bob");
+    expect(normalizeXnsName("my name.my_ns").normalized).to.equal(
+      "my-name.my-ns",
+    );
+    expect(normalizeXnsName("alice.eth").normalized).to.equal(null);
+    expect(normalizeXnsName("").normalized).to.equal(null);
+
+    const result = normalizeXnsName("Alice.XNS ");
+    expect(kinds(result)).to.deep.equal(["TRIM", "LOWERCASE"]);
+    expect(result.label.normalized).to.equal("alice");
+    expect(result.namespace.normalized).to.equal("xns");
+  });
+
+  it("Should only output labels that pass `isValidLabelOrNamespace` on-chain", async () => {
+    const { client } = await loadFixture(deployXnsFixture);
+    const inputs = [
+      " Alice ",
+      "@bob",
+      "xns:carol",
+      "a_b c",
+      "--x--",
+      "A--B__C",
+      "-_-a-_-",
+      "12 34",
+      "x".repeat(20),
+    ];
+    for (const input of inputs) {
+      const { normalized } = normalizeLabel(input);
+      expect(normalized, input).to.not.equal(null);
+      expect(await client.isValidLabelOrNamespace(normalized!), input).to.equal(
+        true,
+      );
+    }
+  });
+});
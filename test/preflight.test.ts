@@ -0,0 +1,174 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployXnsFixture } from "./helpers/setup";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import { preflightRegistration } from "../scripts/sdk";
+
+describe("preflightRegistration", function () {
+  const kinds = (result: { failures: { kind: string }[] }) =>
+    result.failures.map((f) => f.kind);
+
+  it("Should pass for a valid registration", async () => {
+    const { client, user2 } = await loadFixture(deployXnsFixture);
+    await time.increase(7 * 24 * 60 * 60 + 1);
+
+    const result = await preflightRegistration(client, {
+      label: "alice",
+      namespace: "xns",
+      payer: user2.address,
+    });
+    expect(result.ok).to.equal(true);
+    expect(result.method).to.equal("registerName");
+    expect(result.failures).to.deep.equal([]);
+    expect(result.namespaceInfo?.pricePerName).to.equal(
+      ethers.parseEther("0.001"),
+    );
+  });
+
+  it("Should report every failing precondition of `registerName` at once", async () => {
+    const { client, user1, user2 } = await loadFixture(deployXnsFixture);
+    await client
+      .connect(user1)
+      .registerPrivateNamespace("priv", ethers.parseEther("0.005"));
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    await client.connect(user2).registerName("bob", "xns");
+    await client
+      .connect(user1)
+      .registerPublicNamespace("new", ethers.parseEther("0.001"));
+
+    const result = await preflightRegistration(client, {
+      label: "Bad_Label",
+      namespace: "new",
+      payer: user2.address,
+      value: 1n,
+    });
+    expect(result.ok).to.equal(false);
+    expect(kinds(result)).to.deep.equal([
+      "INVALID_LABEL",
+      "INSUFFICIENT_PAYMENT",
+      "EXCLUSIVITY_PERIOD",
+      "ADDRESS_ALREADY_HAS_NAME",
+    ]);
+    expect(result.failures[1].context).to.include({
+      required: ethers.parseEther("0.001"),
+      provided: 1n,
+    });
+
+    expect(
+      kinds(
+        await preflightRegistration(client, {
+          label: "bob",
+          namespace: "priv",
+          payer: user2.address,
+        }),
+      ),
+    ).to.deep.equal(["ONLY_PUBLIC_NAMESPACE", "ADDRESS_ALREADY_HAS_NAME"]);
+    expect(
+      kinds(
+        await preflightRegistration(client, {
+          label: "bob",
+          namespace: "unknown",
+          payer: user2.address,
+        }),
+      ),
+    ).to.deep.equal(["NAMESPACE_NOT_FOUND", "ADDRESS_ALREADY_HAS_NAME"]);
+
+    // The empty namespace does not exist; the bare name "xns" is not looked up
+    expect(
+      kinds(
+        await preflightRegistration(client, {
+          label: "xns",
+          namespace: "",
+          payer: user1.address,
+        }),
+      ),
+    ).to.deep.equal(["NAMESPACE_NOT_FOUND"]);
+  });
+
+  it("Should report every failing precondition of `registerNameWithAuthorization` at once", async () => {
+    const { xns, client, user1, user2, user3 } =
+      await loadFixture(deployXnsFixture);
+    await client
+      .connect(user1)
+      .registerPrivateNamespace("priv", ethers.parseEther("0.005"));
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    await client.connect(user2).registerName("bob", "xns");
+
+    // Signed for a different label
+    const signature = await signRegisterNameAuth(
+      xns,
+      user2,
+      user2.address,
+      "other",
+      "priv",
+    );
+    const result = await preflightRegistration(client, {
+      label: "bob",
+      namespace: "priv",
+      payer: user3.address,
+      recipient: user2.address,
+      value: 0n,
+      signature,
+    });
+    expect(result.method).to.equal("registerNameWithAuthorization");
+    expect(kinds(result)).to.deep.equal([
+      "INSUFFICIENT_PAYMENT",
+      "NOT_NAMESPACE_OWNER",
+      "RECIPIENT_ALREADY_HAS_NAME",
+      "BAD_AUTHORIZATION",
+    ]);
+
+    // An invalid recipient is a failed check, not an error
+    expect(
+      kinds(
+        await preflightRegistration(client, {
+          label: "carol",
+          namespace: "xns",
+          payer: user3.address,
+          recipient: "0x1234",
+          signature,
+        }),
+      ),
+    ).to.deep.equal(["ZERO_RECIPIENT", "BAD_AUTHORIZATION"]);
+
+    const valid = await signRegisterNameAuth(
+      xns,
+      user3,
+      user3.address,
+      "carol",
+      "priv",
+    );
+    expect(
+      await preflightRegistration(client, {
+        label: "carol",
+        namespace: "priv",
+        payer: user1.address,
+        recipient: user3.address,
+        signature: valid,
+      }),
+    ).to.include({ ok: true });
+  });
+
+  it("Should report the same first failure as the contract reverts with", async () => {
+    const { client, user2 } = await loadFixture(deployXnsFixture);
+    const params = { label: "alice", namespace: "xns", payer: user2.address };
+
+    const [first] = (await preflightRegistration(client, params)).failures;
+    await expect(
+      client.connect(user2).registerName(params.label, params.namespace),
+    ).to.be.rejectedWith(first.reason);
+  });
+
+  it("Should require a signature to register for another recipient", async () => {
+    const { client, user2, user3 } = await loadFixture(deployXnsFixture);
+    await expect(
+      preflightRegistration(client, {
+        label: "alice",
+        namespace: "xns",
+        payer: user2.address,
+        recipient: user3.address,
+      }),
+    ).to.be.rejectedWith("pass a signature");
+  });
+});
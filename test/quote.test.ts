@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployXnsFixture, XnsFixture } from "./helpers/setup";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import { Quote, quote, splitPayment } from "../scripts/sdk";
+
+describe("quote", function () {
+  // Asserts that a transaction moved exactly the quoted amounts
+  async function expectQuoted(
+    s: XnsFixture,
+    q: Quote,
+    payer: string,
+    send: () => Promise<{ wait: () => Promise<unknown> }>,
+  ) {
+    const pending = (address: string) => s.client.getPendingFees(address);
+    const before = {
+      burned: await s.deth.burned(payer),
+      nsFees: await pending(q.namespaceOwnerFeeRecipient),
+      ownerFees: await pending(q.protocolFeeRecipient),
+      xnsBalance: await ethers.provider.getBalance(s.client.address),
+    };
+
+    await (await send()).wait();
+
+    expect((await s.deth.burned(payer)) - before.burned).to.equal(q.burn);
+    if (q.namespaceOwnerFeeRecipient === q.protocolFeeRecipient) {
+      expect(
+        (await pending(q.protocolFeeRecipient)) - before.ownerFees,
+      ).to.equal(q.namespaceOwnerFee + q.protocolFee);
+    } else {
+      expect(
+        (await pending(q.namespaceOwnerFeeRecipient)) - before.nsFees,
+      ).to.equal(q.namespaceOwnerFee);
+      expect(
+        (await pending(q.protocolFeeRecipient)) - before.ownerFees,
+      ).to.equal(q.protocolFee);
+    }
+    // Everything but the fees left the contract (burned or refunded)
+    expect(
+      (await ethers.provider.getBalance(s.client.address)) - before.xnsBalance,
+    ).to.equal(q.namespaceOwnerFee + q.protocolFee);
+  }
+
+  it("Should split payments like `_processETHPayment`, including rounding", async () => {
+    expect(splitPayment(ethers.parseEther("0.001"))).to.deep.equal({
+      burn: ethers.parseEther("0.0008"),
+      namespaceOwnerFee: ethers.parseEther("0.0001"),
+      protocolFee: ethers.parseEther("0.0001"),
+      roundingRemainder: 0n,
+    });
+    expect(splitPayment(1009n)).to.deep.equal({
+      burn: 807n,
+      namespaceOwnerFee: 100n,
+      protocolFee: 102n,
+      roundingRemainder: 2n,
+    });
+    expect(splitPayment(0n).protocolFee).to.equal(0n);
+  });
+
+  it("Should quote a single name registration with refund", async () => {
+    const s = await loadFixture(deployXnsFixture);
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    const value = ethers.parseEther("0.0015");
+
+    const q = await quote(s.client, { type: "name", namespace: "xns", value });
+    expect(q).to.deep.include({
+      required: ethers.parseEther("0.001"),
+      value,
+      refund: ethers.parseEther("0.0005"),
+      namespaceOwnerFeeRecipient: s.user1.address,
+      protocolFeeRecipient: s.owner.address,
+    });
+
+    await expectQuoted(s, q, s.user2.address, () =>
+      s.client.connect(s.user2).registerName("alice", "xns", { value }),
+    );
+  });
+
+  it("Should quote batch registrations in private namespaces", async () => {
+    const s = await loadFixture(deployXnsFixture);
+    await s.client
+      .connect(s.user1)
+      .registerPrivateNamespace("priv", ethers.parseEther("0.007"));
+
+    const q = await quote(s.client, {
+      type: "name",
+      namespace: "priv",
+      count: 3,
+    });
+    expect(q.required).to.equal(ethers.parseEther("0.021"));
+    // Private namespaces credit the namespace owner share to the contract owner
+    expect(q.namespaceOwnerFeeRecipient).to.equal(s.owner.address);
+
+    const recipients = [s.user2, s.user3, s.user4];
+    const auths = recipients.map((r) => ({
+      recipient: r.address,
+      label: `batch-${r.address.slice(2, 6).toLowerCase()}`,
+      namespace: "priv",
+    }));
+    const signatures = await Promise.all(
+      recipients.map((r, i) =>
+        signRegisterNameAuth(s.xns, r, r.address, auths[i].label, "priv"),
+      ),
+    );
+    await expectQuoted(s, q, s.user1.address, () =>
+      s.client
+        .connect(s.user1)
+        .batchRegisterNameWithAuthorization(auths, signatures),
+    );
+  });
+
+  it("Should quote namespace registrations", async () => {
+    const s = await loadFixture(deployXnsFixture);
+
+    const q = await quote(s.client, { type: "namespace", isPrivate: false });
+    expect(q).to.deep.include({
+      required: ethers.parseEther("50"),
+      burn: ethers.parseEther("40"),
+      namespaceOwnerFee: ethers.parseEther("5"),
+      protocolFee: ethers.parseEther("5"),
+      namespaceOwnerFeeRecipient: s.owner.address,
+      protocolFeeRecipient: s.owner.address,
+    });
+    await expectQuoted(s, q, s.user2.address, () =>
+      s.client
+        .connect(s.user2)
+        .registerPublicNamespace("pub", ethers.parseEther("0.001")),
+    );
+
+    expect(
+      (await quote(s.client, { type: "namespace", isPrivate: true })).required,
+    ).to.equal(ethers.parseEther("10"));
+  });
+
+  it("Should reject insufficient values and unknown namespaces", async () => {
+    const { client } = await loadFixture(deployXnsFixture);
+
+    await expect(
+      quote(client, { type: "name", namespace: "xns", count: 2, value: 1n }),
+    ).to.be.rejectedWith("XNS: insufficient payment");
+    await expect(
+      quote(client, { type: "namespace", isPrivate: true, value: 1n }),
+    ).to.be.rejectedWith("XNS: insufficient namespace fee");
+    await expect(
+      quote(client, { type: "name", namespace: "unknown" }),
+    ).to.be.rejectedWith("XNS: namespace not found");
+  });
+});
@@ -0,0 +1,171 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { TransactionReceipt, id } from "ethers";
+import { deployXnsFixture } from "./helpers/setup";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import { decodeReceipt, decodeXnsLogs } from "../scripts/sdk";
+
+describe("receipts", function () {
+  async function registeredFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    return fixture;
+  }
+
+  it("Should recover label and namespace of `registerName`", async () => {
+    const { client, user2 } = await loadFixture(registeredFixture);
+    const tx = await client.connect(user2).registerName("alice", "xns");
+    const receipt = (await tx.wait()) as TransactionReceipt;
+
+    const decoded = await decodeReceipt(client, receipt);
+    expect(decoded.transactionHash).to.equal(tx.hash);
+    expect(decoded.namespaceRegistrations).to.deep.equal([]);
+    expect(decoded.nameRegistrations).to.deep.equal([
+      {
+        event: "NameRegistered",
+        label: "alice",
+        namespace: "xns",
+        fullName: "alice.xns",
+        labelHash: id("alice"),
+        namespaceHash: id("xns"),
+        owner: user2.address,
+        blockNumber: receipt.blockNumber,
+        transactionHash: tx.hash,
+        logIndex: decoded.nameRegistrations[0].logIndex,
+      },
+    ]);
+
+    // Decoding by hash gives the same result
+    expect(await decodeReceipt(client, tx.hash)).to.deep.equal(decoded);
+  });
+
+  it("Should decode batch registrations, skipping items that were not registered", async () => {
+    const { xns, client, user1, user2, user3, user4 } =
+      await loadFixture(registeredFixture);
+    await client.connect(user3).registerName("taken", "xns");
+
+    const recipients = [user2, user3, user4];
+    const labels = ["bob", "carol", "dave"];
+    const auths = recipients.map((r, i) => ({
+      recipient: r.address,
+      label: labels[i],
+      namespace: "xns",
+    }));
+    const signatures = await Promise.all(
+      recipients.map((r, i) =>
+        signRegisterNameAuth(xns, r, r.address, labels[i], "xns"),
+      ),
+    );
+    const tx = await client
+      .connect(user1)
+      .batchRegisterNameWithAuthorization(auths, signatures);
+
+    const decoded = await decodeReceipt(client, tx.hash);
+    // user3 already has a name and is skipped by the contract
+    expect(
+      decoded.nameRegistrations.map((e) => [e.fullName, e.owner]),
+    ).to.deep.equal([
+      ["bob.xns", user2.address],
+      ["dave.xns", user4.address],
+    ]);
+  });
+
+  it("Should decode namespace registrations", async () => {
+    const { client, user2 } = await loadFixture(registeredFixture);
+    const tx = await client
+      .connect(user2)
+      .registerPrivateNamespace("priv", ethers.parseEther("0.005"));
+
+    const { events } = await decodeReceipt(client, tx.hash);
+    expect(events).to.have.length(1);
+    expect(events[0]).to.deep.include({
+      event: "NamespaceRegistered",
+      namespace: "priv",
+      namespaceHash: id("priv"),
+      pricePerName: ethers.parseEther("0.005"),
+      owner: user2.address,
+      isPrivate: true,
+    });
+  });
+
+  it("Should decode fee claims and namespace ownership transfers", async () => {
+    const { client, user1, user2, user3 } =
+      await loadFixture(registeredFixture);
+    await client.connect(user2).registerName("alice", "xns");
+
+    const claim = await decodeReceipt(
+      client,
+      (await client.connect(user1).claimFees(user3.address)).hash,
+    );
+    expect(claim.events).to.have.length(1);
+    expect(claim.events[0]).to.deep.include({
+      event: "FeesClaimed",
+      recipient: user3.address,
+      amount: ethers.parseEther("0.0001"),
+    });
+
+    const started = await decodeReceipt(
+      client,
+      (
+        await client
+          .connect(user1)
+          .transferNamespaceOwnership("xns", user2.address)
+      ).hash,
+    );
+    expect(started.events[0]).to.deep.include({
+      event: "NamespaceOwnerTransferStarted",
+      namespace: "xns",
+      namespaceHash: id("xns"),
+      oldOwner: user1.address,
+      newOwner: user2.address,
+    });
+
+    const accepted = await decodeReceipt(
+      client,
+      (await client.connect(user2).acceptNamespaceOwnership("xns")).hash,
+    );
+    expect(accepted.events[0]).to.deep.include({
+      event: "NamespaceOwnerTransferAccepted",
+      namespace: "xns",
+      newOwner: user2.address,
+    });
+  });
+
+  it("Should fall back to `getName` for registrations through other contracts", async () => {
+    const { xns, client } = await loadFixture(registeredFixture);
+
+    const selfRegistering = await ethers.deployContract(
+      "SelfRegisteringContract",
+      [client.address, "robot", "xns"],
+      { value: ethers.parseEther("0.001") },
+    );
+    const receipt = (await selfRegistering
+      .deploymentTransaction()!
+      .wait()) as TransactionReceipt;
+
+    // Without RPC fallback, only the namespace "x" is known
+    const [raw] = decodeXnsLogs(client, receipt.logs);
+    expect(raw).to.include({ label: null, namespace: null, fullName: null });
+
+    const decoded = await decodeReceipt(client, receipt);
+    expect(decoded.nameRegistrations[0]).to.include({
+      label: "robot",
+      namespace: "xns",
+      fullName: "robot.xns",
+      owner: await selfRegistering.getAddress(),
+    });
+
+    // The contract's own bare name emitted at deployment
+    const deployment = await decodeReceipt(
+      client,
+      xns.deploymentTransaction()!.hash,
+    );
+    expect(deployment.nameRegistrations[0]).to.include({
+      label: "xns",
+      namespace: "x",
+      fullName: "xns",
+      owner: client.address,
+    });
+  });
+});
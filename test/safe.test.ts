@@ -0,0 +1,228 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { concat, getBytes } from "ethers";
+import { deployXnsFixture } from "./helpers/setup";
+import {
+  SafeOwnerSignature,
+  checkSafeRegisterNameAuthSignature,
+  collectSafeSignatures,
+  createAuthorizationBundle,
+  encodeSafeSignatures,
+  getSafeInfo,
+  getSafeRegisterNameAuthDigest,
+  getXnsTypedDataDomain,
+  hashSafeMessage,
+  readAuthorizationBundle,
+  recoverSafeOwnerSignature,
+  signSafeRegisterNameAuth,
+  writeAuthorizationBundle,
+} from "../scripts/sdk";
+import "../tasks";
+
+describe("safe", function () {
+  // 2-of-3 Safe owned by user2, user3 and user4
+  async function safeFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    const { user2, user3, user4 } = fixture;
+    const mock = await ethers.deployContract("MockSafe", [
+      [user2.address, user3.address, user4.address],
+      2,
+    ]);
+    await mock.waitForDeployment();
+    const safe = await getSafeInfo(ethers.provider, await mock.getAddress());
+    const auth = {
+      recipient: safe.address,
+      label: "treasury",
+      namespace: "xns",
+    };
+    return { ...fixture, mock, safe, auth };
+  }
+
+  it("Should hash the SafeMessage like the Safe", async () => {
+    const { client, mock, safe, auth } = await loadFixture(safeFixture);
+    expect(safe.threshold).to.equal(2);
+    expect(safe.owners).to.have.length(3);
+
+    const digest = await getSafeRegisterNameAuthDigest(client, auth);
+    expect(hashSafeMessage(safe, digest)).to.equal(
+      await mock.getMessageHash(
+        ethers.AbiCoder.defaultAbiCoder().encode(["bytes32"], [digest]),
+      ),
+    );
+  });
+
+  it("Should collect owner signatures up to the threshold and register the name", async () => {
+    const { client, safe, auth, user1, user2, user3, user4 } =
+      await loadFixture(safeFixture);
+
+    // Signers are given in descending address order; only the first two are asked to sign
+    const signers = [user2, user3, user4].sort((a, b) =>
+      BigInt(a.address) > BigInt(b.address) ? -1 : 1,
+    );
+    const { signatures, signature } = await collectSafeSignatures(
+      client,
+      auth,
+      signers,
+    );
+    expect(signatures.map((s) => s.owner)).to.deep.equal(
+      signers.slice(0, 2).map((s) => s.address),
+    );
+    expect(getBytes(signature)).to.have.length(130);
+
+    // The signature only works if the owner signatures are sorted by address
+    const unsorted = concat(signatures.map((s) => s.signature));
+    expect(await client.isValidSignature(auth, unsorted)).to.equal(false);
+    expect(
+      await checkSafeRegisterNameAuthSignature(client, auth, signature),
+    ).to.deep.equal({
+      isValid: true,
+      signers: signers
+        .slice(0, 2)
+        .map((s) => s.address)
+        .reverse(),
+      missing: 0,
+      error: undefined,
+    });
+
+    await client.connect(user1).registerNameWithAuthorization(auth, signature);
+    expect(await client.reverseResolve(safe.address)).to.equal("treasury.xns");
+  });
+
+  it("Should reject non-owners and signatures below the threshold", async () => {
+    const { client, safe, auth, user1, user2 } = await loadFixture(safeFixture);
+    await expect(
+      signSafeRegisterNameAuth(client, safe, auth, user1),
+    ).to.be.rejectedWith(`${user1.address} is not an owner of Safe`);
+
+    const single = await signSafeRegisterNameAuth(client, safe, auth, user2);
+    expect(() => encodeSafeSignatures(safe, [single, single])).to.throw(
+      "needs 2 owner signatures, got 1",
+    );
+    const check = await checkSafeRegisterNameAuthSignature(
+      client,
+      auth,
+      single.signature,
+    );
+    expect(check.isValid).to.equal(false);
+    expect(check.signers).to.deep.equal([user2.address]);
+    expect(check.missing).to.equal(1);
+    expect(check.error).to.equal(
+      "1 more owner signature(s) needed (threshold 2)",
+    );
+  });
+
+  it("Should recover owner signatures made with eth_sign", async () => {
+    const { client, safe, auth, user1, user3, user4 } =
+      await loadFixture(safeFixture);
+    const digest = await getSafeRegisterNameAuthDigest(client, auth);
+    const messageHash = hashSafeMessage(safe, digest);
+
+    // `eth_sign` signatures of the Safe message hash are marked with `v` + 4
+    const ethSign = async (signer: typeof user3): Promise<string> => {
+      const bytes = getBytes(await signer.signMessage(getBytes(messageHash)));
+      bytes[64] += 4;
+      return ethers.hexlify(bytes);
+    };
+    const signatures: SafeOwnerSignature[] = [
+      recoverSafeOwnerSignature(safe, digest, await ethSign(user3)),
+      recoverSafeOwnerSignature(safe, digest, await ethSign(user4)),
+    ];
+    expect(signatures.map((s) => s.owner)).to.deep.equal([
+      user3.address,
+      user4.address,
+    ]);
+    expect(
+      await client.isValidSignature(
+        auth,
+        encodeSafeSignatures(safe, signatures),
+      ),
+    ).to.equal(true);
+
+    expect(() => recoverSafeOwnerSignature(safe, digest, "0x1234")).to.throw(
+      "expected 65 bytes",
+    );
+    const notOwner = getBytes(await user1.signMessage(getBytes(messageHash)));
+    notOwner[64] += 4;
+    expect(() =>
+      recoverSafeOwnerSignature(safe, digest, ethers.hexlify(notOwner)),
+    ).to.throw(`was made by ${user1.address}, not by an owner`);
+  });
+
+  it("Should run the sign and combine tasks into an authorization bundle", async () => {
+    const { client, safe, auth, user2, user4 } = await loadFixture(safeFixture);
+    const dir = mkdtempSync(join(tmpdir(), "xns-safe-"));
+    const bundlePath = join(dir, "bundle.json");
+    writeAuthorizationBundle(
+      bundlePath,
+      createAuthorizationBundle(await getXnsTypedDataDomain(client), [auth], {
+        requestedBy: "sponsor",
+      }),
+    );
+    const xns = client.address;
+
+    // Malformed arguments are rejected before the Safe is read
+    await expect(
+      hre.run("xns:safe:sign", { safe: "0x1234", bundle: bundlePath, xns }),
+    ).to.be.rejectedWith("Invalid address for --safe: 0x1234");
+    await expect(
+      hre.run("xns:safe:sign", {
+        safe: safe.address,
+        label: "Treasury",
+        namespace: "xns",
+        xns,
+      }),
+    ).to.be.rejectedWith('Invalid label "Treasury"');
+
+    // One owner signs in an external wallet, the other with a configured account
+    const typedDataPath = join(dir, "safe-message.json");
+    await hre.run("xns:safe:sign", {
+      safe: safe.address,
+      bundle: bundlePath,
+      typedData: typedDataPath,
+      xns,
+    });
+    const external: string = await ethers.provider.send(
+      "eth_signTypedData_v4",
+      [user4.address, readFileSync(typedDataPath, "utf8")],
+    );
+    const { signature: local } = await signSafeRegisterNameAuth(
+      client,
+      safe,
+      auth,
+      user2,
+    );
+
+    await expect(
+      hre.run("xns:safe:combine", {
+        safe: safe.address,
+        signatures: external,
+        bundle: bundlePath,
+        xns,
+      }),
+    ).to.be.rejectedWith("needs 2 owner signatures, got 1");
+    await hre.run("xns:safe:combine", {
+      safe: safe.address,
+      signatures: `${external}, ${local}`,
+      bundle: bundlePath,
+      xns,
+    });
+    expect(readAuthorizationBundle(bundlePath).entries[0].signature).to.equal(
+      encodeSafeSignatures(safe, [
+        { owner: user2.address, signature: local },
+        { owner: user4.address, signature: external },
+      ]),
+    );
+
+    await hre.run("xns:bundle:submit", {
+      bundle: bundlePath,
+      sponsorIndex: 1,
+      xns,
+    });
+    expect(await client.reverseResolve(safe.address)).to.equal("treasury.xns");
+  });
+});
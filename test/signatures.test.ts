@@ -0,0 +1,217 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { Signature, Signer, dataSlice } from "ethers";
+import { deployXnsFixture } from "./helpers/setup";
+import { XNS_ADDRESS } from "../constants/addresses";
+import {
+  REGISTER_NAME_AUTH_TYPES,
+  RegisterNameAuth,
+  XnsTypedDataDomain,
+  getXnsTypedDataDomain,
+  verifyRegisterNameAuthSignature,
+} from "../scripts/sdk";
+
+describe("signatures", function () {
+  async function signaturesFixture() {
+    const fixture = await deployXnsFixture();
+    const wallet = await ethers.deployContract("EIP1271Wallet", [
+      fixture.user2.address,
+    ]);
+    await wallet.waitForDeployment();
+    const domain = await getXnsTypedDataDomain(fixture.client);
+    return { ...fixture, wallet, domain };
+  }
+
+  const sign = (
+    signer: Signer,
+    domain: XnsTypedDataDomain,
+    auth: RegisterNameAuth,
+  ) => signer.signTypedData(domain, REGISTER_NAME_AUTH_TYPES, auth);
+
+  it("Should agree with the contract for EOA and ERC-1271 recipients", async () => {
+    const { client, user2, user3, wallet, domain } =
+      await loadFixture(signaturesFixture);
+    const eoaAuth = {
+      recipient: user2.address,
+      label: "alice",
+      namespace: "xns",
+    };
+    const walletAuth = {
+      recipient: await wallet.getAddress(),
+      label: "wallet",
+      namespace: "xns",
+    };
+
+    const cases: [RegisterNameAuth, string][] = [
+      [eoaAuth, await sign(user2, domain, eoaAuth)],
+      [eoaAuth, await sign(user3, domain, eoaAuth)],
+      [walletAuth, await sign(user2, domain, walletAuth)],
+      [walletAuth, await sign(user3, domain, walletAuth)],
+    ];
+    for (const [auth, signature] of cases) {
+      const result = await verifyRegisterNameAuthSignature(
+        client,
+        auth,
+        signature,
+      );
+      expect(result.isValid).to.equal(
+        await client.isValidSignature(auth, signature),
+      );
+    }
+
+    const valid = await verifyRegisterNameAuthSignature(
+      client,
+      walletAuth,
+      cases[2][1],
+    );
+    expect(valid).to.deep.equal({
+      isValid: true,
+      recipientType: "contract",
+      recoveredSigner: user2.address,
+      mismatches: [],
+    });
+  });
+
+  it("Should explain signatures for another chain ID or XNS deployment", async () => {
+    const { client, user2, wallet, domain } =
+      await loadFixture(signaturesFixture);
+    const auth = { recipient: user2.address, label: "alice", namespace: "xns" };
+
+    const mainnet = await verifyRegisterNameAuthSignature(
+      client,
+      auth,
+      await sign(user2, { ...domain, chainId: 1 }, auth),
+    );
+    expect(mainnet.isValid).to.equal(false);
+    expect(mainnet.mismatches).to.have.length(1);
+    expect(mainnet.mismatches[0]).to.include({
+      kind: "WRONG_CHAIN_ID",
+      description: "signed for chain ID 1 instead of 31337",
+    });
+
+    const sepolia = await verifyRegisterNameAuthSignature(
+      client,
+      auth,
+      await sign(
+        user2,
+        {
+          ...domain,
+          chainId: 11155111,
+          verifyingContract: XNS_ADDRESS.sepolia,
+        },
+        auth,
+      ),
+    );
+    expect(sepolia.mismatches.map((m) => m.kind)).to.deep.equal([
+      "WRONG_VERIFYING_CONTRACT",
+    ]);
+    expect(sepolia.mismatches[0].description).to.contain("(sepolia)");
+    expect(sepolia.mismatches[0].domain.chainId).to.equal(11155111);
+
+    // Custom chain IDs are tried as well, also for ERC-1271 recipients
+    const walletAuth = { ...auth, recipient: await wallet.getAddress() };
+    const custom = await verifyRegisterNameAuthSignature(
+      client,
+      walletAuth,
+      await sign(user2, { ...domain, chainId: 8453 }, walletAuth),
+      { chainIds: [8453] },
+    );
+    expect(custom.recipientType).to.equal("contract");
+    expect(custom.mismatches.map((m) => m.kind)).to.deep.equal([
+      "WRONG_CHAIN_ID",
+    ]);
+  });
+
+  it("Should explain label and namespace casing differences", async () => {
+    const { client, user2, domain } = await loadFixture(signaturesFixture);
+    const auth = { recipient: user2.address, label: "alice", namespace: "xns" };
+    const signed = { ...auth, label: "Alice", namespace: "XNS" };
+
+    // Checked with the label and namespace the sponsor uses
+    const upper = await verifyRegisterNameAuthSignature(
+      client,
+      { ...auth, label: "ALICE" },
+      await sign(user2, domain, { ...auth, label: "alice", namespace: "XNS" }),
+    );
+    expect(upper.mismatches.map((m) => m.auth)).to.deep.equal([
+      { ...auth, label: "alice", namespace: "XNS" },
+    ]);
+
+    const mixed = await verifyRegisterNameAuthSignature(
+      client,
+      signed,
+      await sign(user2, domain, auth),
+    );
+    expect(mixed.mismatches).to.have.length(1);
+    expect(mixed.mismatches[0]).to.deep.include({
+      kind: "CASING",
+      auth,
+      description:
+        'signed for label "alice" and namespace "xns" instead of "Alice" and "XNS"',
+    });
+  });
+
+  it("Should explain signature encodings rejected by the contract", async () => {
+    const { client, user2, domain } = await loadFixture(signaturesFixture);
+    const auth = { recipient: user2.address, label: "alice", namespace: "xns" };
+    const signature = await sign(user2, domain, auth);
+    const parsed = Signature.from(signature);
+
+    const lowV = `${dataSlice(signature, 0, 64)}0${parsed.yParity}`;
+    const unnormalized = await verifyRegisterNameAuthSignature(
+      client,
+      auth,
+      lowV,
+    );
+    expect(unnormalized.error).to.match(/v is [01] \(expected 27 or 28\)/);
+    expect(unnormalized.mismatches).to.have.length(1);
+    expect(unnormalized.mismatches[0]).to.include({
+      kind: "UNNORMALIZED_V",
+      fixedSignature: signature,
+    });
+
+    const compact = await verifyRegisterNameAuthSignature(
+      client,
+      auth,
+      parsed.compactSerialized,
+    );
+    expect(compact.error).to.equal(
+      "invalid signature length: 64 bytes (expected 65)",
+    );
+    expect(compact.mismatches[0]).to.include({
+      kind: "COMPACT_SIGNATURE",
+      fixedSignature: signature,
+    });
+  });
+
+  it("Should report the recovered signer if no mistake explains the signature", async () => {
+    const { client, user2, user3, wallet, domain } =
+      await loadFixture(signaturesFixture);
+    const auth = { recipient: user2.address, label: "alice", namespace: "xns" };
+
+    const eoa = await verifyRegisterNameAuthSignature(
+      client,
+      auth,
+      await sign(user3, domain, auth),
+    );
+    expect(eoa.recoveredSigner).to.equal(user3.address);
+    expect(eoa.error).to.equal(
+      `signature was made by ${user3.address}, not by the recipient`,
+    );
+    expect(eoa.mismatches.map((m) => m.kind)).to.deep.equal(["WRONG_SIGNER"]);
+
+    const walletAuth = { ...auth, recipient: await wallet.getAddress() };
+    const contract = await verifyRegisterNameAuthSignature(
+      client,
+      walletAuth,
+      await sign(user3, domain, walletAuth),
+    );
+    expect(contract.error).to.equal(
+      "recipient contract does not accept the signature (ERC-1271)",
+    );
+    expect(contract.mismatches[0].description).to.equal(
+      `signed by ${user3.address}, which the recipient contract does not accept`,
+    );
+  });
+});
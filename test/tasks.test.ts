@@ -0,0 +1,774 @@
+import { expect } from "chai";
+import { Readable } from "stream";
+import hre, { ethers } from "hardhat";
+import {
+  loadFixture,
+  mine,
+  setBalance,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { deployXnsFixture } from "./helpers/setup";
+import { MockLedgerDevice } from "./helpers/ledger";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import "../tasks";
+
+describe("tasks", function () {
+  async function tasksFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    return fixture;
+  }
+
+  /**
+   * Runs a task and returns what it wrote to stdout (and the error it threw)
+   */
+  async function captureStdout(run: () => Promise<unknown>) {
+    const write = process.stdout.write;
+    let stdout = "";
+    process.stdout.write = ((chunk: string) => {
+      stdout += chunk;
+      return true;
+    }) as typeof process.stdout.write;
+    let error: unknown;
+    try {
+      await run();
+    } catch (e) {
+      error = e;
+    } finally {
+      process.stdout.write = write;
+    }
+    return { stdout, error };
+  }
+
+  /**
+   * Runs a task with `lines` piped to stdin
+   */
+  async function withStdin<T>(lines: string[], run: () => Promise<T>) {
+    const stdin = Object.getOwnPropertyDescriptor(process, "stdin")!;
+    Object.defineProperty(process, "stdin", {
+      value: Readable.from(lines.map((line) => `${line}\n`)),
+      configurable: true,
+    });
+    try {
+      return await run();
+    } finally {
+      Object.defineProperty(process, "stdin", stdin);
+    }
+  }
+
+  it("Should register names with xns:register, xns:register-auth and xns:batch-register", async () => {
+    const { xns, client, user2, user3 } = await loadFixture(tasksFixture);
+    const signers = await ethers.getSigners();
+    const xnsAddress = client.address;
+
+    await hre.run("xns:register", {
+      label: "alice",
+      namespace: "xns",
+      signerIndex: 2,
+      xns: xnsAddress,
+    });
+    expect(await client.reverseResolve(user2.address)).to.equal("alice.xns");
+
+    // The recipient is a configured account that signs the authorization
+    await hre.run("xns:register-auth", {
+      label: "bob",
+      namespace: "xns",
+      recipientIndex: 3,
+      sponsorIndex: 2,
+      xns: xnsAddress,
+    });
+    expect(await client.reverseResolve(user3.address)).to.equal("bob.xns");
+
+    // The recipient shared its signature
+    const signature = await signRegisterNameAuth(
+      xns,
+      signers[6],
+      signers[6].address,
+      "frank",
+      "xns",
+    );
+    await hre.run("xns:register-auth", {
+      label: "frank",
+      namespace: "xns",
+      recipient: signers[6].address,
+      signature,
+      xns: xnsAddress,
+    });
+    expect(await client.reverseResolve(signers[6].address)).to.equal(
+      "frank.xns",
+    );
+
+    await hre.run("xns:batch-register", {
+      namespace: "xns",
+      labels: "carol, dave",
+      recipientIndices: "4,5",
+      xns: xnsAddress,
+    });
+    expect(await client.reverseResolve(signers[4].address)).to.equal(
+      "carol.xns",
+    );
+    expect(await client.reverseResolve(signers[5].address)).to.equal(
+      "dave.xns",
+    );
+
+    await hre.run("xns:resolve", { query: "alice.xns", xns: xnsAddress });
+    await hre.run("xns:resolve", { query: user3.address, xns: xnsAddress });
+  });
+
+  it("Should reject invalid parameters and failing registrations before sending a transaction", async () => {
+    const { client, user3 } = await loadFixture(deployXnsFixture);
+    const xnsAddress = client.address;
+
+    await expect(
+      hre.run("xns:register", {
+        label: "Alice",
+        namespace: "xns",
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith('Invalid label "Alice"');
+    await expect(
+      hre.run("xns:ns:transfer", {
+        namespace: "xns",
+        to: "0x1234",
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith("Invalid address for --to: 0x1234");
+    await expect(
+      hre.run("xns:register-auth", {
+        label: "bob",
+        namespace: "xns",
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith(
+      "Either `--recipient-index` or `--recipient` and `--signature` are required",
+    );
+    await expect(
+      hre.run("xns:batch-register", {
+        namespace: "xns",
+        labels: "carol,dave",
+        recipientIndices: "4",
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith("2 label(s) but 1 recipient index(es)");
+
+    // Still in the exclusivity period of "xns"
+    const blockBefore = await ethers.provider.getBlockNumber();
+    await expect(
+      hre.run("xns:register", {
+        label: "alice",
+        namespace: "xns",
+        signerIndex: 2,
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith(
+      "registerName of alice.xns would revert: XNS: in exclusivity period",
+    );
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+
+    // The namespace owner can sponsor during the exclusivity period
+    await hre.run("xns:register-auth", {
+      label: "bob",
+      namespace: "xns",
+      recipientIndex: 3,
+      sponsorIndex: 1,
+      xns: xnsAddress,
+    });
+    await expect(
+      hre.run("xns:register-auth", {
+        label: "bob",
+        namespace: "xns",
+        recipientIndex: 4,
+        sponsorIndex: 1,
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith("XNS: name already registered");
+    expect(await client.resolve("bob", "xns")).to.equal(user3.address);
+  });
+
+  it("Should sign with the Ledger accounts of the network with --ledger", async () => {
+    const { client, user2 } = await loadFixture(tasksFixture);
+    const xnsAddress = client.address;
+    const device = new MockLedgerDevice(hre.network.provider);
+    await setBalance(device.address, ethers.parseEther("10"));
+
+    const { ledgerAccounts } = hre.network.config;
+    device.connect();
+    try {
+      hre.network.config.ledgerAccounts = [];
+      await expect(
+        hre.run("xns:register", {
+          label: "alice",
+          namespace: "xns",
+          ledger: true,
+          xns: xnsAddress,
+        }),
+      ).to.be.rejectedWith(
+        "No `ledgerAccounts` configured for network hardhat",
+      );
+
+      hre.network.config.ledgerAccounts = [user2.address, device.address];
+      await expect(
+        hre.run("xns:register", {
+          label: "alice",
+          namespace: "xns",
+          ledger: true,
+          ledgerAccount: client.address,
+          xns: xnsAddress,
+        }),
+      ).to.be.rejectedWith(
+        `Invalid value for --ledger-account: ${client.address} is not in the \`ledgerAccounts\` of network hardhat`,
+      );
+
+      // The transaction is shown before the device signs it
+      const registered = await captureStdout(() =>
+        hre.run("xns:register", {
+          label: "alice",
+          namespace: "xns",
+          ledger: true,
+          ledgerAccount: device.address.toLowerCase(),
+          xns: xnsAddress,
+        }),
+      );
+      expect(registered.error).to.equal(undefined);
+      expect(registered.stdout).to.include(
+        `  To: ${xnsAddress}\n  Amount: 0.001 ETH\n`,
+      );
+      expect(device.requests).to.deep.equal(["signTransaction"]);
+      expect(await client.reverseResolve(device.address)).to.equal("alice.xns");
+
+      // So is the `RegisterNameAuth` of a bundle entry
+      const path = join(mkdtempSync(join(tmpdir(), "xns-tasks-")), "b.json");
+      await hre.run("xns:bundle:request", {
+        namespace: "xns",
+        names: `bob=${device.address}`,
+        out: path,
+        xns: xnsAddress,
+      });
+      hre.network.config.ledgerAccounts = [device.address];
+      const signed = await captureStdout(() =>
+        hre.run("xns:bundle:sign", { bundle: path, ledger: true }),
+      );
+      expect(signed.error).to.equal(undefined);
+      expect(signed.stdout).to.include(
+        `  Message: RegisterNameAuth\n    recipient: ${device.address}\n    label: bob\n    namespace: xns\n`,
+      );
+      expect(device.requests).to.deep.equal([
+        "signTransaction",
+        "signEIP712Message",
+      ]);
+    } finally {
+      device.disconnect();
+      hre.network.config.ledgerAccounts = ledgerAccounts;
+    }
+  });
+
+  it("Should register namespaces and transfer their ownership", async () => {
+    const { client, owner, user2, user3, user4 } =
+      await loadFixture(tasksFixture);
+    const xnsAddress = client.address;
+
+    await hre.run("xns:ns:register", {
+      namespace: "abc",
+      price: ethers.parseEther("0.002"),
+      signerIndex: 3,
+      xns: xnsAddress,
+    });
+    const info = await client.getNamespaceInfo("abc");
+    expect(info.owner).to.equal(user3.address);
+    expect(info.pricePerName).to.equal(ethers.parseEther("0.002"));
+    expect(info.isPrivate).to.equal(false);
+
+    await expect(
+      hre.run("xns:ns:register", {
+        namespace: "corp",
+        price: ethers.parseEther("0.001"),
+        private: true,
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith("XNS: pricePerName too low");
+    await expect(
+      hre.run("xns:ns:register", {
+        namespace: "abc",
+        price: ethers.parseEther("0.002"),
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith("XNS: namespace already exists");
+
+    // Free registration for another address by the contract owner
+    const ownerFees = await client.getPendingFees(owner.address);
+    await hre.run("xns:ns:register", {
+      namespace: "corp",
+      price: ethers.parseEther("0.005"),
+      private: true,
+      for: user2.address,
+      signerIndex: 0,
+      xns: xnsAddress,
+    });
+    expect((await client.getNamespaceInfo("corp")).owner).to.equal(
+      user2.address,
+    );
+    expect(await client.getPendingFees(owner.address)).to.equal(ownerFees);
+
+    await hre.run("xns:ns:transfer", {
+      namespace: "abc",
+      to: user4.address,
+      signerIndex: 3,
+      xns: xnsAddress,
+    });
+    await expect(
+      hre.run("xns:ns:accept", {
+        namespace: "abc",
+        signerIndex: 2,
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith("XNS: not pending owner");
+    await hre.run("xns:ns:accept", {
+      namespace: "abc",
+      signerIndex: 4,
+      xns: xnsAddress,
+    });
+    expect((await client.getNamespaceInfo("abc")).owner).to.equal(
+      user4.address,
+    );
+    await hre.run("xns:ns:info", { namespace: "abc", xns: xnsAddress });
+  });
+
+  it("Should claim fees and transfer the contract ownership", async () => {
+    const { client, owner, user1, user2, user4 } =
+      await loadFixture(tasksFixture);
+    const xnsAddress = client.address;
+    await client.connect(user2).registerName("alice", "xns");
+
+    const fees = await client.getPendingFees(user1.address);
+    expect(fees).to.equal(ethers.parseEther("0.0001"));
+    await hre.run("xns:fees", { address: user1.address, xns: xnsAddress });
+
+    const balanceBefore = await ethers.provider.getBalance(user4.address);
+    await hre.run("xns:claim", {
+      to: user4.address,
+      signerIndex: 1,
+      xns: xnsAddress,
+    });
+    expect(await ethers.provider.getBalance(user4.address)).to.equal(
+      balanceBefore + fees,
+    );
+    await expect(
+      hre.run("xns:claim", { signerIndex: 1, xns: xnsAddress }),
+    ).to.be.rejectedWith("XNS: no fees to claim");
+
+    await expect(
+      hre.run("xns:owner:transfer", {
+        to: user2.address,
+        signerIndex: 1,
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith(`${user1.address} is not the contract owner`);
+    await hre.run("xns:owner:transfer", {
+      to: user2.address,
+      signerIndex: 0,
+      xns: xnsAddress,
+    });
+    await hre.run("xns:owner:accept", { signerIndex: 2, xns: xnsAddress });
+    expect(await client.owner()).to.equal(user2.address);
+    expect(await client.owner()).to.not.equal(owner.address);
+  });
+
+  it("Should print a single JSON document with --json", async () => {
+    const { client, owner, user2, user3 } = await loadFixture(tasksFixture);
+    const xnsAddress = client.address;
+
+    const registered = await captureStdout(() =>
+      hre.run("xns:register", {
+        label: "alice",
+        namespace: "xns",
+        signerIndex: 2,
+        xns: xnsAddress,
+        json: true,
+      }),
+    );
+    expect(registered.error).to.equal(undefined);
+    const output = JSON.parse(registered.stdout);
+    expect(output).to.deep.include({
+      format: "xns-task-output",
+      version: 1,
+      task: "xns:register",
+      network: { name: "hardhat", chainId: 31337 },
+      ok: true,
+      error: null,
+    });
+    expect(output.inputs).to.deep.include({ label: "alice", namespace: "xns" });
+    expect(output.inputs).to.not.have.property("json");
+    expect(output.result.transaction.events).to.deep.equal([
+      {
+        ...output.result.transaction.events[0],
+        event: "NameRegistered",
+        fullName: "alice.xns",
+        owner: user2.address,
+      },
+    ]);
+    expect(output.result.names).to.deep.equal([
+      { address: user2.address, name: "alice.xns" },
+    ]);
+    expect(registered.stdout).to.not.include("\x1b[");
+
+    // Amounts are decimal strings
+    const fees = await captureStdout(() =>
+      hre.run("xns:fees", { xns: xnsAddress, json: true }),
+    );
+    expect(JSON.parse(fees.stdout).result.pendingFees).to.equal(
+      (await client.getPendingFees(owner.address)).toString(),
+    );
+
+    const failed = await captureStdout(() =>
+      hre.run("xns:register", {
+        label: "alice",
+        namespace: "xns",
+        signerIndex: 3,
+        xns: xnsAddress,
+        json: true,
+      }),
+    );
+    expect(failed.error).to.be.instanceOf(Error);
+    const error = JSON.parse(failed.stdout);
+    expect(error.ok).to.equal(false);
+    expect(error.result).to.equal(null);
+    expect(error.error.code).to.equal("PREFLIGHT_FAILED");
+    expect(error.error.details).to.deep.equal([
+      {
+        code: "NAME_ALREADY_REGISTERED",
+        reason: "XNS: name already registered",
+        context: {
+          label: "alice",
+          namespace: "xns",
+          address: user3.address,
+          provided: ethers.parseEther("0.001").toString(),
+        },
+      },
+    ]);
+
+    // Invalid arguments are reported in the document too
+    const invalid = await captureStdout(() =>
+      hre.run("xns:register", {
+        label: "Bad_Label",
+        namespace: "xns",
+        xns: xnsAddress,
+        json: true,
+      }),
+    );
+    expect(invalid.error).to.be.instanceOf(Error);
+    expect(JSON.parse(invalid.stdout)).to.deep.include({
+      task: "xns:register",
+      ok: false,
+      result: null,
+    });
+    expect(JSON.parse(invalid.stdout).error).to.deep.include({
+      code: "INVALID_ARGUMENT",
+      message: (invalid.error as Error).message,
+    });
+    expect((invalid.error as Error).message).to.include(
+      'Invalid label "Bad_Label"',
+    );
+
+    const claim = await captureStdout(() =>
+      hre.run("xns:claim", { signerIndex: 4, xns: xnsAddress, json: true }),
+    );
+    expect(JSON.parse(claim.stdout).error).to.deep.include({
+      code: "NO_FEES_TO_CLAIM",
+      reason: "XNS: no fees to claim",
+    });
+  });
+
+  it("Should simulate state-changing tasks with --dry-run", async () => {
+    const { client, owner, user1, user2 } = await loadFixture(tasksFixture);
+    const signers = await ethers.getSigners();
+    const xnsAddress = client.address;
+    const blockBefore = await ethers.provider.getBlockNumber();
+
+    const registered = await captureStdout(() =>
+      hre.run("xns:register", {
+        label: "alice",
+        namespace: "xns",
+        signerIndex: 2,
+        dryRun: true,
+        xns: xnsAddress,
+        json: true,
+      }),
+    );
+    const { result } = JSON.parse(registered.stdout);
+    expect(result.method).to.equal("registerName");
+    expect(result.events).to.deep.equal([
+      {
+        event: "NameRegistered",
+        label: "alice",
+        namespace: "xns",
+        fullName: "alice.xns",
+        labelHash: ethers.id("alice"),
+        namespaceHash: ethers.id("xns"),
+        owner: user2.address,
+      },
+    ]);
+    expect(result.burn).to.equal(ethers.parseEther("0.0008").toString());
+    expect(result.feeCredits).to.deep.equal([
+      {
+        address: user1.address,
+        amount: ethers.parseEther("0.0001").toString(),
+      },
+      {
+        address: owner.address,
+        amount: ethers.parseEther("0.0001").toString(),
+      },
+    ]);
+    expect(result.refund).to.equal("0");
+
+    const batch = await hre.run("xns:batch-register", {
+      namespace: "xns",
+      labels: "carol,dave",
+      recipientIndices: "4,4",
+      dryRun: true,
+      xns: xnsAddress,
+    });
+    expect(batch.successfulCount).to.equal(1);
+    expect(batch.skipped).to.deep.equal([
+      { recipient: signers[4].address, label: "dave", namespace: "xns" },
+    ]);
+    expect(batch.refund).to.equal(ethers.parseEther("0.001"));
+
+    const namespace = await hre.run("xns:ns:register", {
+      namespace: "abc",
+      price: ethers.parseEther("0.002"),
+      signerIndex: 3,
+      dryRun: true,
+      xns: xnsAddress,
+    });
+    expect(namespace.burn).to.equal(ethers.parseEther("40"));
+    const claim = await hre.run("xns:claim", {
+      to: user2.address,
+      dryRun: true,
+      xns: xnsAddress,
+    });
+    expect(claim.events[0]).to.deep.equal({
+      event: "FeesClaimed",
+      recipient: user2.address,
+      amount: await client.getPendingFees(owner.address),
+    });
+    await hre.run("xns:owner:transfer", {
+      to: user2.address,
+      dryRun: true,
+      xns: xnsAddress,
+    });
+
+    // Nothing was sent
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+    expect(await client.reverseResolve(user2.address)).to.equal("");
+    expect(await client.findNamespaceInfo("abc")).to.equal(null);
+    expect(await client.pendingOwner()).to.equal(ethers.ZeroAddress);
+  });
+
+  it("Should guide through a registration with xns:wizard", async () => {
+    const { client, user2, user3, user4 } = await loadFixture(tasksFixture);
+    const xnsAddress = client.address;
+    await client.connect(user3).registerName("alice", "xns");
+    await client
+      .connect(user4)
+      .registerPrivateNamespace("corp", ethers.parseEther("0.005"));
+
+    const result = await withStdin(
+      [
+        // Taken, suggests the bare name "alice"
+        "Alice.XNS",
+        "",
+        // Private namespace
+        "bob.corp",
+        "bad_name!",
+        "alice",
+        "y",
+      ],
+      () =>
+        hre.run("xns:wizard", {
+          namespaces: "corp",
+          signerIndex: 2,
+          xns: xnsAddress,
+        }),
+    );
+    expect(result.name).to.equal("alice");
+    expect(result.quote.required).to.equal(ethers.parseEther("10"));
+    expect(result.transaction.events[0]).to.deep.include({
+      event: "NameRegistered",
+      fullName: "alice",
+      owner: user2.address,
+    });
+    expect(await client.reverseResolve(user2.address)).to.equal("alice");
+
+    // Declined, nothing is sent
+    const blockBefore = await ethers.provider.getBlockNumber();
+    const declined = await withStdin(["bob.xns", "n"], () =>
+      hre.run("xns:wizard", { signerIndex: 4, xns: xnsAddress }),
+    );
+    expect(declined.transaction).to.equal(null);
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+
+    // The signer already has a name
+    await expect(
+      withStdin(["carol.xns"], () =>
+        hre.run("xns:wizard", { signerIndex: 2, xns: xnsAddress }),
+      ),
+    ).to.be.rejectedWith("XNS: address already has a name");
+
+    // The answers ran out
+    await expect(
+      withStdin(["carol.corp"], () =>
+        hre.run("xns:wizard", { signerIndex: 4, xns: xnsAddress }),
+      ),
+    ).to.be.rejectedWith("No answer to: Which name");
+  });
+
+  it("Should print decoded events with xns:watch", async () => {
+    const { client, user1, user2, user3 } = await loadFixture(tasksFixture);
+    const xnsAddress = client.address;
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+    await client.connect(user2).registerName("alice", "xns");
+    await client
+      .connect(user1)
+      .transferNamespaceOwnership("xns", user3.address);
+    const toBlock = await ethers.provider.getBlockNumber();
+
+    // Replay of past blocks
+    const { stdout } = await captureStdout(() =>
+      hre.run("xns:watch", { fromBlock, toBlock, xns: xnsAddress }),
+    );
+    expect(stdout).to.include(`NameRegistered alice.xns → ${user2.address}`);
+    expect(stdout).to.include(
+      `NamespaceOwnerTransferStarted xns: ${user1.address} → ${user3.address}`,
+    );
+    const replay = await hre.run("xns:watch", {
+      fromBlock,
+      toBlock,
+      events: "NamespaceOwnerTransferStarted,NamespaceOwnerTransferAccepted",
+      xns: xnsAddress,
+    });
+    expect(replay.toBlock).to.equal(toBlock);
+    expect(
+      replay.events.map((event: { event: string }) => event.event),
+    ).to.deep.equal(["NamespaceOwnerTransferStarted"]);
+
+    // One JSON line per event with --json, and no document at the end
+    const ndjson = await captureStdout(() =>
+      hre.run("xns:watch", { fromBlock, toBlock, json: true, xns: xnsAddress }),
+    );
+    const lines = ndjson.stdout
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.event)).to.deep.equal([
+      "NameRegistered",
+      "NamespaceOwnerTransferStarted",
+    ]);
+    expect(lines[0]).to.include({
+      fullName: "alice.xns",
+      owner: user2.address,
+      blockNumber: fromBlock,
+    });
+
+    // Live events from the next block on
+    const watching = hre.run("xns:watch", {
+      owner: user3.address,
+      maxEvents: 2,
+      pollInterval: 10,
+      xns: xnsAddress,
+    });
+    await client
+      .connect(user2)
+      .registerPrivateNamespace("corp", ethers.parseEther("0.005"));
+    await client.connect(user3).acceptNamespaceOwnership("xns");
+    await client.connect(user3).registerName("carol", "xns");
+    const live = await watching;
+    expect(
+      live.events.map((event: { event: string }) => event.event),
+    ).to.deep.equal(["NamespaceOwnerTransferAccepted", "NameRegistered"]);
+    expect(live.events[1].fullName).to.equal("carol.xns");
+
+    await expect(
+      hre.run("xns:watch", { events: "Transfer", xns: xnsAddress }),
+    ).to.be.rejectedWith("Unknown event type for --events: Transfer");
+  });
+
+  it("Should report a name or an address with xns:whois", async () => {
+    const { client, user1, user2, user3 } = await loadFixture(tasksFixture);
+    const xnsAddress = client.address;
+    await client.connect(user2).registerName("alice", "xns");
+    await client
+      .connect(user1)
+      .transferNamespaceOwnership("xns", user3.address);
+
+    const { stdout } = await captureStdout(() =>
+      hre.run("xns:whois", { query: "alice.xns", xns: xnsAddress }),
+    );
+    expect(stdout).to.include(`→ ${user2.address}`);
+    expect(stdout).to.match(new RegExp(`Pending owner: .*${user3.address}`));
+    expect(stdout).to.include("Account: EOA");
+
+    const report = await hre.run("xns:whois", {
+      query: user3.address,
+      xns: xnsAddress,
+    });
+    expect(report.name).to.equal(null);
+    expect(
+      report.account.pendingNamespaces.map(
+        (info: { namespace: string }) => info.namespace,
+      ),
+    ).to.deep.equal(["xns"]);
+
+    await expect(
+      hre.run("xns:whois", { query: "Alice.xns", xns: xnsAddress }),
+    ).to.be.rejectedWith("Alice.xns is neither an address nor a valid name");
+  });
+
+  it("Should wait for --confirmations before reporting names as safe to share", async () => {
+    const { client, user2 } = await loadFixture(tasksFixture);
+    const xnsAddress = client.address;
+
+    await expect(
+      hre.run("xns:register", {
+        label: "alice",
+        namespace: "xns",
+        confirmations: 0,
+        xns: xnsAddress,
+      }),
+    ).to.be.rejectedWith(
+      "Invalid number of confirmations for --confirmations: 0",
+    );
+
+    let settled = false;
+    const registering = hre
+      .run("xns:register", {
+        label: "alice",
+        namespace: "xns",
+        signerIndex: 2,
+        confirmations: 3,
+        xns: xnsAddress,
+      })
+      .finally(() => (settled = true));
+    while (!settled) {
+      await mine();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    const result = await registering;
+    expect(result.confirmation).to.deep.include({
+      status: "SAFE_TO_SHARE",
+      safeToShare: true,
+      confirmedBlock: result.transaction.blockNumber + 2,
+    });
+    expect(result.confirmation.names).to.deep.equal([
+      {
+        name: "alice.xns",
+        owner: user2.address,
+        resolvedAddress: user2.address,
+        reverseName: "alice.xns",
+        ok: true,
+      },
+    ]);
+  });
+});
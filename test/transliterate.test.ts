@@ -0,0 +1,76 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployXnsFixture } from "./helpers/setup";
+import { checkTransliterationCandidates, transliterate } from "../scripts/sdk";
+
+describe("transliterate", function () {
+  const labels = (input: string) =>
+    transliterate(input).candidates.map((c) => c.label);
+
+  it("Should map Latin-extended input to ASCII candidates", async () => {
+    expect(labels("müller")).to.deep.equal(["mueller", "muller"]);
+    expect(labels("josé")).to.deep.equal(["jose"]);
+    expect(labels("Ødegaard")).to.deep.equal(["odegaard", "oedegaard"]);
+    expect(labels("Straße")).to.deep.equal(["strasse"]);
+    expect(labels("Łukasz Wąs")).to.deep.equal(["lukasz-was"]);
+  });
+
+  it("Should map Greek and Cyrillic input", async () => {
+    expect(labels("Σωκράτης")[0]).to.equal("sokratis");
+    expect(labels("Андрей")).to.deep.equal(["andrey", "andrei"]);
+    expect(labels("Щукин")).to.deep.equal(["shchukin"]);
+  });
+
+  it("Should be deterministic and cap the number of candidates", async () => {
+    expect(labels("äöüäöü")).to.have.length(8);
+    expect(labels("äöüäöü")[0]).to.equal("aeoeueaeoeue");
+    expect(labels("äöüäöü")).to.deep.equal(labels("äöüäöü"));
+  });
+
+  it("Should flag characters that cannot be mapped", async () => {
+    const result = transliterate("ab日本");
+    expect(result.candidates).to.deep.equal([]);
+    expect(result.unmappable).to.deep.equal([
+      { char: "日", index: 2 },
+      { char: "本", index: 3 },
+    ]);
+  });
+
+  it("Should validate each candidate", async () => {
+    const [candidate] = transliterate("ßßßßßßßßßßß").candidates;
+    expect(candidate.label).to.equal("s".repeat(22));
+    expect(candidate.validation.errors.map((e) => e.code)).to.deep.equal([
+      "TOO_LONG",
+    ]);
+  });
+
+  it("Should check candidate availability on-chain", async () => {
+    const { client, user2 } = await loadFixture(deployXnsFixture);
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    await client.connect(user2).registerName("mueller", "xns");
+
+    const result = await checkTransliterationCandidates(
+      client,
+      "Müller",
+      "xns",
+    );
+    expect(result.candidates).to.have.length(2);
+    expect(result.candidates[0]).to.include({
+      label: "mueller",
+      available: false,
+      owner: user2.address,
+    });
+    expect(result.candidates[1]).to.include({
+      label: "muller",
+      available: true,
+      owner: null,
+    });
+
+    const tooLong = await checkTransliterationCandidates(
+      client,
+      "ß".repeat(11),
+      "xns",
+    );
+    expect(tooLong.candidates[0].available).to.equal(null);
+  });
+});
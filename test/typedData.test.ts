@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployXnsFixture } from "./helpers/setup";
+import { signRegisterNameAuth } from "../scripts/utils/signRegisterNameAuth";
+import {
+  buildRegisterNameAuthTypedData,
+  checkRegisterNameAuthSignature,
+  getXnsTypedDataDomain,
+  parseRegisterNameAuthTypedData,
+} from "../scripts/sdk";
+
+describe("typedData", function () {
+  async function registeredFixture() {
+    const fixture = await deployXnsFixture();
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    return fixture;
+  }
+
+  it("Should build the `eth_signTypedData_v4` payload of the deployment", async () => {
+    const { client, user2 } = await loadFixture(deployXnsFixture);
+    const auth = { recipient: user2.address, label: "alice", namespace: "xns" };
+
+    const typedData = buildRegisterNameAuthTypedData(
+      await getXnsTypedDataDomain(client),
+      auth,
+    );
+    expect(typedData.primaryType).to.equal("RegisterNameAuth");
+    expect(typedData.domain).to.deep.equal({
+      name: "XNS",
+      version: "1",
+      chainId: 31337,
+      verifyingContract: client.address,
+    });
+    expect(typedData.message).to.deep.equal(auth);
+    expect(typedData.types.RegisterNameAuth).to.deep.equal([
+      { name: "recipient", type: "address" },
+      { name: "label", type: "string" },
+      { name: "namespace", type: "string" },
+    ]);
+
+    // Survives a JSON round trip
+    expect(
+      parseRegisterNameAuthTypedData(JSON.stringify(typedData)),
+    ).to.deep.equal(typedData);
+    expect(() =>
+      parseRegisterNameAuthTypedData(
+        JSON.stringify({ ...typedData, primaryType: "Other" }),
+      ),
+    ).to.throw("Invalid RegisterNameAuth typed data");
+  });
+
+  it("Should accept a wallet signature of the exported JSON and register with it", async () => {
+    const { client, user1, user2 } = await loadFixture(registeredFixture);
+    const auth = { recipient: user2.address, label: "alice", namespace: "xns" };
+    const json = JSON.stringify(
+      buildRegisterNameAuthTypedData(await getXnsTypedDataDomain(client), auth),
+    );
+
+    // Sign like an external wallet would, from the JSON alone
+    const signature: string = await ethers.provider.send(
+      "eth_signTypedData_v4",
+      [user2.address, json],
+    );
+    expect(signature).to.equal(
+      await signRegisterNameAuth(
+        await ethers.getContractAt("XNS", client.address),
+        user2,
+        user2.address,
+        "alice",
+        "xns",
+      ),
+    );
+
+    // Pasted back with whitespace and without "0x"
+    const check = await checkRegisterNameAuthSignature(
+      client,
+      auth,
+      ` ${signature.slice(2)}\n`,
+    );
+    expect(check).to.deep.equal({ signature, isValid: true });
+
+    await client
+      .connect(user1)
+      .registerNameWithAuthorization(auth, check.signature!);
+    expect(await client.resolve("alice", "xns")).to.equal(user2.address);
+  });
+
+  it("Should reject malformed and foreign signatures", async () => {
+    const { client, user2, user3 } = await loadFixture(deployXnsFixture);
+    const auth = { recipient: user2.address, label: "alice", namespace: "xns" };
+    const typedData = buildRegisterNameAuthTypedData(
+      await getXnsTypedDataDomain(client),
+      auth,
+    );
+
+    expect(
+      await checkRegisterNameAuthSignature(client, auth, "0xnothex"),
+    ).to.deep.equal({
+      signature: null,
+      isValid: false,
+      error: "not a hex string",
+    });
+
+    const short = await checkRegisterNameAuthSignature(client, auth, "0x1234");
+    expect(short.isValid).to.equal(false);
+    expect(short.error).to.equal(
+      "expected 65 bytes for an EOA recipient, got 2",
+    );
+
+    // Signed by someone other than the recipient
+    const foreign: string = await ethers.provider.send("eth_signTypedData_v4", [
+      user3.address,
+      JSON.stringify(typedData),
+    ]);
+    const check = await checkRegisterNameAuthSignature(client, auth, foreign);
+    expect(check.isValid).to.equal(false);
+    expect(check.error).to.match(/does not authorize this registration/);
+
+    // Signed for a different label
+    const otherLabel: string = await ethers.provider.send(
+      "eth_signTypedData_v4",
+      [
+        user2.address,
+        JSON.stringify({
+          ...typedData,
+          message: { ...auth, label: "bob" },
+        }),
+      ],
+    );
+    expect(
+      (await checkRegisterNameAuthSignature(client, auth, otherLabel)).isValid,
+    ).to.equal(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { deployXnsFixture } from "./helpers/setup";
+import {
+  isValidLabelOrNamespace,
+  validateLabel,
+  validateNamespace,
+} from "../scripts/sdk";
+
+describe("validation", function () {
+  const codes = (value: string) =>
+    validateLabel(value).errors.map((e) => e.code);
+
+  it("Should accept valid labels", async () => {
+    for (const label of [
+      "a",
+      "alice",
+      "0x",
+      "gm-web3",
+      "a-b-c",
+      "a".repeat(20),
+    ]) {
+      expect(validateLabel(label)).to.deep.equal({
+        value: label,
+        isValid: true,
+        errors: [],
+      });
+    }
+  });
+
+  it("Should report the failing rule", async () => {
+    expect(codes("")).to.deep.equal(["EMPTY"]);
+    expect(codes("a".repeat(21))).to.deep.equal(["TOO_LONG"]);
+    expect(codes("-alice")).to.deep.equal(["LEADING_HYPHEN"]);
+    expect(codes("alice-")).to.deep.equal(["TRAILING_HYPHEN"]);
+    expect(codes("al--ice")).to.deep.equal(["CONSECUTIVE_HYPHENS"]);
+    expect(codes("Alice")).to.deep.equal(["INVALID_CHAR"]);
+  });
+
+  it("Should report every failing rule with its index", async () => {
+    const result = validateLabel("-ab_c--");
+    expect(result.isValid).to.equal(false);
+    expect(result.errors).to.deep.include({
+      code: "INVALID_CHAR",
+      message: `invalid character "_" at index 3 (only a-z, 0-9 and '-' are allowed)`,
+      index: 3,
+      char: "_",
+    });
+    expect(result.errors.map((e) => e.code)).to.deep.equal([
+      "INVALID_CHAR",
+      "CONSECUTIVE_HYPHENS",
+      "LEADING_HYPHEN",
+      "TRAILING_HYPHEN",
+    ]);
+    expect(result.errors[1].index).to.equal(5);
+  });
+
+  it("Should count the length in UTF-8 bytes", async () => {
+    // 10 characters, 20 bytes
+    expect(codes("ü".repeat(10))).to.not.include("TOO_LONG");
+    // 11 characters, 22 bytes
+    expect(codes("ü".repeat(11))).to.include("TOO_LONG");
+  });
+
+  it("Should forbid the 'eth' namespace but not the 'eth' label", async () => {
+    expect(validateLabel("eth").isValid).to.equal(true);
+    expect(validateNamespace("eth").errors.map((e) => e.code)).to.deep.equal([
+      "FORBIDDEN_NAMESPACE",
+    ]);
+  });
+
+  it("Should match `isValidLabelOrNamespace` on-chain", async () => {
+    const { client } = await loadFixture(deployXnsFixture);
+    const inputs = [
+      "",
+      "a",
+      "-",
+      "--",
+      "a-",
+      "-a",
+      "a--b",
+      "a-b",
+      "abc_def",
+      "ABC",
+      "a b",
+      "a.b",
+      "münchen",
+      "1234567890abcdefghij",
+      "1234567890abcdefghijk",
+      "ü".repeat(10),
+      "eth",
+    ];
+    for (const input of inputs) {
+      expect(isValidLabelOrNamespace(input), input).to.equal(
+        await client.isValidLabelOrNamespace(input),
+      );
+    }
+  });
+});
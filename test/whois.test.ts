@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { concat } from "ethers";
+import { deployXnsFixture } from "./helpers/setup";
+import { findDeploymentBlock, whois } from "../scripts/sdk";
+
+describe("whois", function () {
+  async function whoisFixture() {
+    const fixture = await deployXnsFixture();
+    const deploymentBlock = (await fixture.xns.deploymentTransaction()!.wait())!
+      .blockNumber;
+    await time.increase(7 * 24 * 60 * 60 + 1);
+    const { client, user1, user2, user3 } = fixture;
+    await client.connect(user2).registerName("alice", "xns");
+    await client
+      .connect(user3)
+      .registerPrivateNamespace("corp", ethers.parseEther("0.005"));
+    await client
+      .connect(user1)
+      .transferNamespaceOwnership("xns", user3.address);
+    return { ...fixture, deploymentBlock };
+  }
+
+  it("Should find the deployment block", async () => {
+    const { client, deploymentBlock } = await loadFixture(whoisFixture);
+    expect(await findDeploymentBlock(client)).to.equal(deploymentBlock);
+  });
+
+  it("Should report a name, its namespace and its owner", async () => {
+    const { client, deth, user1, user2, user3 } =
+      await loadFixture(whoisFixture);
+
+    const report = await whois(client, "alice.xns");
+    expect(report.name).to.equal("alice.xns");
+    expect(report.address).to.equal(user2.address);
+    expect(report.namespace).to.deep.include({
+      inExclusivityPeriod: false,
+      exclusivityEndsAt:
+        report.namespace!.info.createdAt + BigInt(7 * 24 * 60 * 60),
+      pendingOwner: user3.address,
+    });
+    expect(report.namespace!.info).to.deep.include({
+      namespace: "xns",
+      owner: user1.address,
+      isPrivate: false,
+    });
+    expect(report.account).to.deep.equal({
+      address: user2.address,
+      name: "alice.xns",
+      pendingFees: 0n,
+      burned: await deth.burned(user2.address),
+      accountType: "EOA",
+      delegate: null,
+      isErc1271: false,
+      namespaces: [],
+      pendingNamespaces: [],
+      unknownNamespaceHashes: [],
+    });
+
+    // Not registered: the namespace only
+    const unregistered = await whois(client, "bob.corp");
+    expect(unregistered.address).to.equal(null);
+    expect(unregistered.account).to.equal(null);
+    expect(unregistered.namespace!.info.isPrivate).to.equal(true);
+    expect((await whois(client, "bob.nope")).namespace).to.equal(null);
+  });
+
+  it("Should report the namespaces and fees of an address", async () => {
+    const { client, deth, owner, user1, user3 } =
+      await loadFixture(whoisFixture);
+
+    const namespaceOwner = await whois(client, user1.address.toLowerCase());
+    expect(namespaceOwner.name).to.equal(null);
+    expect(namespaceOwner.address).to.equal(user1.address);
+    expect(namespaceOwner.namespace).to.equal(null);
+    expect(
+      namespaceOwner.account!.namespaces.map((info) => info.namespace),
+    ).to.deep.equal(["xns"]);
+    expect(namespaceOwner.account!.pendingFees).to.equal(
+      ethers.parseEther("0.0001"),
+    );
+
+    const pendingOwner = (await whois(client, user3.address)).account!;
+    expect(pendingOwner.namespaces.map((info) => info.namespace)).to.deep.equal(
+      ["corp"],
+    );
+    expect(
+      pendingOwner.pendingNamespaces.map((info) => info.namespace),
+    ).to.deep.equal(["xns"]);
+    expect(pendingOwner.burned).to.equal(await deth.burned(user3.address));
+
+    // The bare name namespace is registered in the constructor
+    const contractOwner = (await whois(client, owner.address)).account!;
+    expect(
+      contractOwner.namespaces.map((info) => info.namespace),
+    ).to.deep.equal(["x"]);
+    expect(contractOwner.pendingFees).to.equal(
+      await client.getPendingFees(owner.address),
+    );
+
+    // Only events from `fromBlock` on are searched
+    const latest = await ethers.provider.getBlockNumber();
+    expect(
+      (await whois(client, user3.address, { fromBlock: latest + 1 })).account!
+        .namespaces,
+    ).to.deep.equal([]);
+  });
+
+  it("Should detect contracts, ERC-1271 wallets and EIP-7702 delegated accounts", async () => {
+    const { client, deth, user2 } = await loadFixture(whoisFixture);
+    const [, , , , , delegated] = await ethers.getSigners();
+
+    const wallet = await ethers.deployContract("EIP1271Wallet", [
+      user2.address,
+    ]);
+    const walletReport = (await whois(client, await wallet.getAddress()))
+      .account!;
+    expect(walletReport.accountType).to.equal("contract");
+    expect(walletReport.isErc1271).to.equal(true);
+
+    const dethReport = (await whois(client, await deth.getAddress())).account!;
+    expect(dethReport.accountType).to.equal("contract");
+    expect(dethReport.isErc1271).to.equal(false);
+
+    // The XNS contract has the bare name "xns"
+    const xnsReport = await whois(client, client.address);
+    expect(xnsReport.name).to.equal("xns");
+    expect(xnsReport.account!.isErc1271).to.equal(false);
+
+    const delegate = await ethers.deployContract("MockEIP7702Delegate");
+    await ethers.provider.send("hardhat_setCode", [
+      delegated.address,
+      concat(["0xef0100", await delegate.getAddress()]),
+    ]);
+    expect((await whois(client, delegated.address)).account).to.deep.include({
+      accountType: "delegated",
+      delegate: await delegate.getAddress(),
+    });
+  });
+});